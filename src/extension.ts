@@ -1,13 +1,21 @@
 /**
  * Antigravity Sync - VS Code Extension
- * Sync ~/.gemini/ folder across machines via private Git repository
+ * Sync ~/.gemini/ folder across machines via private Git repository, shared folder or S3 bucket
  */
 import * as vscode from 'vscode';
+import * as os from 'os';
+import * as path from 'path';
 import { SyncService } from './services/SyncService';
-import { ConfigService } from './services/ConfigService';
+import { ConfigService, GitAuth } from './services/ConfigService';
+import { GitService, isSshUrl } from './services/GitService';
+import { LocalFolderBackend } from './services/LocalFolderBackend';
+import { S3Backend, S3Credentials, S3Location } from './services/S3Backend';
 import { StatusBarService } from './services/StatusBarService';
 import { WatcherService } from './services/WatcherService';
 import { NotificationService } from './services/NotificationService';
+import { evaluateCommandPolicy, readCommandPolicy } from './services/CommandPolicy';
+import { Notifier } from './services/Notifier';
+import { PLAN_ACTION_LABELS, PlanAction, summarizePlan, SyncMode, SyncPreview } from './services/SyncPlan';
 import { SidePanelProvider } from './ui/SidePanelProvider';
 
 let syncService: SyncService | undefined;
@@ -21,11 +29,12 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
   // Initialize services
   const configService = new ConfigService(context);
   statusBarService = new StatusBarService();
-  syncService = new SyncService(context, configService, statusBarService);
+  const notifier = new Notifier();
+  syncService = new SyncService(context, configService, statusBarService, notifier);
   watcherService = new WatcherService(configService, syncService);
 
   // Register side panel
-  sidePanelProvider = new SidePanelProvider(context.extensionUri, syncService, configService);
+  sidePanelProvider = new SidePanelProvider(context.extensionUri, syncService, configService, notifier);
   context.subscriptions.push(
     vscode.window.registerWebviewViewProvider(
       SidePanelProvider.viewType,
@@ -66,15 +75,79 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
       }
     }),
 
+    vscode.commands.registerCommand('antigravitySync.preview', async () => {
+      await previewSync(syncService!);
+    }),
+
+    vscode.commands.registerCommand('antigravitySync.setEncryptionPassphrase', async () => {
+      await setEncryptionPassphrase(configService, syncService!);
+    }),
+
+    vscode.commands.registerCommand('antigravitySync.restoreLastBackup', async () => {
+      await restoreLastBackup(syncService!);
+      sidePanelProvider?.updatePanelData();
+    }),
+
+    vscode.commands.registerCommand('antigravitySync.checkBackups', async () => {
+      await checkBackups(syncService!);
+    }),
+
     vscode.commands.registerCommand('antigravitySync.showStatus', async () => {
       await showStatus(syncService!);
     }),
 
+    vscode.commands.registerCommand('antigravitySync.testCommandPolicy', async () => {
+      await testCommandPolicy();
+    }),
+
     vscode.commands.registerCommand('antigravitySync.openPanel', () => {
       vscode.commands.executeCommand('antigravity-sync.focus');
     }),
 
-    statusBarService.getStatusBarItem()
+    statusBarService.getStatusBarItem(),
+
+    // Apply folder/exclude changes without reload
+    vscode.workspace.onDidChangeConfiguration(e => {
+      if (e.affectsConfiguration('antigravitySync.syncFolders') ||
+        e.affectsConfiguration('antigravitySync.excludePatterns')) {
+        syncService?.reloadFilter();
+      }
+
+      // The watcher only runs once the sync repository is set up
+      if (e.affectsConfiguration('antigravitySync.syncFolders') ||
+        e.affectsConfiguration('antigravitySync.excludePatterns') ||
+        e.affectsConfiguration('antigravitySync.autoSync')) {
+        void configService.isConfigured().then(configured => {
+          if (configured) {
+            watcherService?.restart();
+          }
+        });
+      }
+
+      if (e.affectsConfiguration('antigravitySync.secretScanning')) {
+        syncService?.reloadSecretScanner();
+      }
+
+      if (e.affectsConfiguration('antigravitySync.pathMappings')) {
+        syncService?.reloadPathMappings();
+      }
+
+      if (e.affectsConfiguration('antigravitySync.syncIntervalMinutes') ||
+        e.affectsConfiguration('antigravitySync.pushDebounceSeconds')) {
+        syncService?.updateAutoSyncSchedule();
+      }
+
+      // Branch and encryption changes need the sync repo to be re-initialized
+      if (e.affectsConfiguration('antigravitySync.branch') ||
+        e.affectsConfiguration('antigravitySync.perMachineBranch') ||
+        e.affectsConfiguration('antigravitySync.encryption')) {
+        void configService.isConfigured().then(async configured => {
+          if (configured) {
+            await syncService?.initialize();
+          }
+        }).catch(error => NotificationService.handleSyncError(error as Error));
+      }
+    })
   );
 
   // Check if first time - show setup wizard
@@ -139,7 +212,7 @@ async function configureRepository(
 ): Promise<void> {
   // Step 1: Welcome and explanation
   const proceed = await vscode.window.showInformationMessage(
-    'Antigravity Sync Setup\n\nThis will sync your ~/.gemini folder (Knowledge Items, settings) to a private Git repository.',
+    'Antigravity Sync Setup\n\nThis will sync your ~/.gemini folder (Knowledge Items, settings) to a private Git repository, a shared folder or an S3 bucket.',
     { modal: true },
     'Continue'
   );
@@ -148,74 +221,345 @@ async function configureRepository(
     return;
   }
 
-  // Step 2: Get access token
-  const token = await vscode.window.showInputBox({
-    title: 'Step 1/3: Git Access Token',
-    prompt: 'Enter your access token (PAT for GitHub/GitLab, App Password for Bitbucket)',
-    password: true,
-    placeHolder: 'Your access token with repo access',
-    ignoreFocusOut: true,
-    validateInput: (value) => {
-      if (!value || value.length < 8) {
-        return 'Please enter a valid access token';
-      }
-      return undefined;
-    }
-  });
+  // Where to sync
+  const backendChoice = await vscode.window.showQuickPick(
+    [
+      { label: 'Git Repository', description: 'Private repo on GitHub, GitLab, Bitbucket...', backend: 'git' as const },
+      { label: 'Local Folder', description: 'Network share, Syncthing or Dropbox folder, external drive', backend: 'folder' as const },
+      { label: 'S3-Compatible Bucket', description: 'AWS S3, MinIO, Cloudflare R2, Backblaze B2...', backend: 's3' as const }
+    ],
+    { title: 'Where to Sync', ignoreFocusOut: true }
+  );
 
-  if (!token) {
+  if (!backendChoice) {
+    return;
+  }
+  if (backendChoice.backend === 'folder') {
+    await configureFolderBackend(configService, syncService);
+    return;
+  }
+  if (backendChoice.backend === 's3') {
+    await configureS3Backend(configService, syncService);
     return;
   }
 
-  // Step 3: Get repository URL
-  const repoUrl = await vscode.window.showInputBox({
-    title: 'Step 2/3: Private Repository URL',
-    prompt: 'Enter your PRIVATE repository URL (GitHub, GitLab, Bitbucket, etc.)',
-    placeHolder: 'https://github.com/user/repo or https://gitlab.com/user/repo',
-    ignoreFocusOut: true,
-    validateInput: (value) => {
-      if (!value || !value.includes('://')) {
-        return 'Please enter a valid Git repository URL';
+  // Step 2: Choose how git authenticates
+  const authChoice = await vscode.window.showQuickPick(
+    [
+      { label: 'Access Token', description: 'HTTPS remote with a PAT or App Password', mode: 'token' as const },
+      { label: 'SSH Key', description: 'SSH remote with a private key or ssh-agent (e.g. deploy keys)', mode: 'ssh' as const }
+    ],
+    { title: 'Step 1/3: Authentication', ignoreFocusOut: true }
+  );
+
+  if (!authChoice) {
+    return;
+  }
+
+  let auth: GitAuth;
+  let repoUrl: string | undefined;
+  if (authChoice.mode === 'token') {
+    // Step 3: Get access token
+    const token = await vscode.window.showInputBox({
+      title: 'Step 2/3: Git Access Token',
+      prompt: 'Enter your access token (PAT for GitHub/GitLab, App Password for Bitbucket)',
+      password: true,
+      placeHolder: 'Your access token with repo access',
+      ignoreFocusOut: true,
+      validateInput: (value) => {
+        if (!value || value.length < 8) {
+          return 'Please enter a valid access token';
+        }
+        return undefined;
       }
-      return undefined;
+    });
+
+    if (!token) {
+      return;
     }
-  });
+    auth = { mode: 'token', token };
+
+    // Step 4: Get repository URL
+    repoUrl = await vscode.window.showInputBox({
+      title: 'Step 3/3: Private Repository URL',
+      prompt: 'Enter your PRIVATE repository URL (GitHub, GitLab, Bitbucket, etc.)',
+      placeHolder: 'https://github.com/user/repo or https://gitlab.com/user/repo',
+      ignoreFocusOut: true,
+      validateInput: (value) => {
+        if (!value || !value.includes('://')) {
+          return 'Please enter a valid Git repository URL';
+        }
+        return undefined;
+      }
+    });
+  } else {
+    // Step 3: Get SSH repository URL
+    repoUrl = await vscode.window.showInputBox({
+      title: 'Step 2/3: Private Repository SSH URL',
+      prompt: 'Enter your PRIVATE repository SSH URL',
+      placeHolder: 'git@github.com:user/repo.git or ssh://git@host/user/repo.git',
+      ignoreFocusOut: true,
+      validateInput: (value) => isSshUrl(value || '') ? undefined : 'Please enter an SSH URL (git@host:user/repo.git or ssh://...)'
+    });
+
+    if (!repoUrl) {
+      return;
+    }
+
+    // Step 4: Choose the key
+    const keyChoice = await vscode.window.showQuickPick(
+      [
+        { label: 'Select Private Key...', description: 'Use this key only', agent: false },
+        { label: 'Use ssh-agent', description: 'Keys loaded in the agent, or your default keys', agent: true }
+      ],
+      { title: 'Step 3/3: SSH Key', ignoreFocusOut: true }
+    );
+
+    if (!keyChoice) {
+      return;
+    }
+
+    let keyPath = '';
+    if (!keyChoice.agent) {
+      const selected = await vscode.window.showOpenDialog({
+        title: 'Select SSH Private Key',
+        defaultUri: vscode.Uri.file(path.join(os.homedir(), '.ssh')),
+        canSelectMany: false,
+        openLabel: 'Use Key'
+      });
+      if (!selected || selected.length === 0) {
+        return;
+      }
+      keyPath = selected[0].fsPath;
+    }
+    auth = { mode: 'ssh', keyPath };
+  }
 
   if (!repoUrl) {
     return;
   }
+  const url = repoUrl;
 
-  // Step 4: Validate and save
+  // Step 5: Validate and save
   try {
     await NotificationService.withProgress(
       'Validating repository...',
       async (progress) => {
-        progress.report({ message: 'Checking repository...' });
+        progress.report({ message: auth.mode === 'ssh' ? 'Checking SSH key...' : 'Checking repository...' });
+        await new GitService(configService.getSyncRepoPath()).verifyAccess(url, auth);
 
         // URL must be set first (credentials storage depends on URL)
-        await configService.setRepositoryUrl(repoUrl);
-        await configService.saveCredentials(token);
+        await configService.setBackend('git');
+        await configService.setRepositoryUrl(url);
+        await configService.setAuth(auth.mode, auth.mode === 'ssh' ? auth.keyPath : '');
+        if (auth.mode === 'token') {
+          await configService.saveCredentials(auth.token);
+        }
 
         progress.report({ message: 'Initializing sync...' });
         await syncService.initialize();
       }
     );
 
-    vscode.window.showInformationMessage(
-      'Antigravity Sync configured successfully! 🎉\n\nYour context will now sync automatically.',
-      'Open Panel'
-    ).then(selection => {
-      if (selection === 'Open Panel') {
-        vscode.commands.executeCommand('antigravity-sync.focus');
-      }
+    onConfigured();
+  } catch (error) {
+    await configService.deleteCredentials();
+    NotificationService.handleSyncError(error as Error);
+  }
+}
+
+/**
+ * Setup wizard for the folder backend
+ */
+async function configureFolderBackend(
+  configService: ConfigService,
+  syncService: SyncService
+): Promise<void> {
+  const selected = await vscode.window.showOpenDialog({
+    title: 'Select Sync Folder (shared between your machines)',
+    canSelectFiles: false,
+    canSelectFolders: true,
+    canSelectMany: false,
+    openLabel: 'Sync Here'
+  });
+  if (!selected || selected.length === 0) {
+    return;
+  }
+  const folderPath = selected[0].fsPath;
+  if (path.resolve(folderPath) === path.resolve(configService.getSyncRepoPath())) {
+    vscode.window.showErrorMessage('Antigravity Sync: Pick a folder other than the local sync folder.');
+    return;
+  }
+
+  try {
+    await NotificationService.withProgress('Checking folder...', async (progress) => {
+      await new LocalFolderBackend(configService.getSyncRepoPath(), folderPath).verifyAccess();
+      await configService.setBackend('folder', { folderPath });
+
+      progress.report({ message: 'Initializing sync...' });
+      await syncService.initialize();
+    });
+    onConfigured();
+  } catch (error) {
+    NotificationService.handleSyncError(error as Error);
+  }
+}
+
+/**
+ * Setup wizard for the S3 backend
+ */
+async function configureS3Backend(
+  configService: ConfigService,
+  syncService: SyncService
+): Promise<void> {
+  const endpoint = await vscode.window.showInputBox({
+    title: 'Step 1/5: S3 Endpoint',
+    prompt: 'Endpoint of your S3-compatible server. Leave empty for AWS S3.',
+    placeHolder: 'http://localhost:9000 or https://<account>.r2.cloudflarestorage.com',
+    ignoreFocusOut: true,
+    validateInput: (value) => !value || /^https?:\/\/[^/]+/.test(value) ? undefined : 'Enter an http(s) URL or leave empty'
+  });
+  if (endpoint === undefined) {
+    return;
+  }
+
+  const bucketPath = await vscode.window.showInputBox({
+    title: 'Step 2/5: Bucket',
+    prompt: 'Bucket name, optionally followed by a folder inside it',
+    placeHolder: 'my-bucket or my-bucket/antigravity',
+    ignoreFocusOut: true,
+    validateInput: (value) => /^[a-z0-9][a-z0-9.-]{1,61}[a-z0-9](\/.*)?$/.test(value || '') ? undefined : 'Enter a valid bucket name'
+  });
+  if (!bucketPath) {
+    return;
+  }
+
+  const region = await vscode.window.showInputBox({
+    title: 'Step 3/5: Region',
+    prompt: 'Region of the bucket (MinIO and most self-hosted servers use us-east-1)',
+    value: 'us-east-1',
+    ignoreFocusOut: true
+  });
+  if (region === undefined) {
+    return;
+  }
+
+  const accessKeyId = await vscode.window.showInputBox({
+    title: 'Step 4/5: Access Key ID',
+    ignoreFocusOut: true,
+    validateInput: (value) => value ? undefined : 'Enter the access key ID'
+  });
+  if (!accessKeyId) {
+    return;
+  }
+
+  const secretAccessKey = await vscode.window.showInputBox({
+    title: 'Step 5/5: Secret Access Key',
+    password: true,
+    ignoreFocusOut: true,
+    validateInput: (value) => value ? undefined : 'Enter the secret access key'
+  });
+  if (!secretAccessKey) {
+    return;
+  }
+
+  const [bucket, ...prefix] = bucketPath.trim().split('/');
+  const location: S3Location = {
+    endpoint: endpoint.trim().replace(/\/+$/, ''),
+    region: region.trim() || 'us-east-1',
+    bucket,
+    prefix: prefix.join('/')
+  };
+  const credentials: S3Credentials = { accessKeyId: accessKeyId.trim(), secretAccessKey: secretAccessKey.trim() };
+
+  try {
+    await NotificationService.withProgress('Checking bucket...', async (progress) => {
+      await new S3Backend(configService.getSyncRepoPath(), location, credentials).verifyAccess();
+      // Location must be set first (credentials are stored per bucket)
+      await configService.setBackend('s3', { s3: location });
+      await configService.saveS3Credentials(credentials);
+
+      progress.report({ message: 'Initializing sync...' });
+      await syncService.initialize();
     });
+    onConfigured();
+  } catch (error) {
+    await configService.deleteS3Credentials();
+    NotificationService.handleSyncError(error as Error);
+  }
+}
+
+/**
+ * Start syncing once the wizard has connected a backend
+ */
+function onConfigured(): void {
+  vscode.window.showInformationMessage(
+    'Antigravity Sync configured successfully! 🎉\n\nYour context will now sync automatically.',
+    'Open Panel'
+  ).then(selection => {
+    if (selection === 'Open Panel') {
+      vscode.commands.executeCommand('antigravity-sync.focus');
+    }
+  });
 
-    // Start watching
-    watcherService?.start();
-    statusBarService?.show();
-    sidePanelProvider?.updatePanelData();
+  // Start watching
+  watcherService?.start();
+  statusBarService?.show();
+  sidePanelProvider?.updatePanelData();
+}
+
+/**
+ * Ask for the encryption passphrase, store the derived key and enable encryption
+ */
+async function setEncryptionPassphrase(
+  configService: ConfigService,
+  syncService: SyncService
+): Promise<void> {
+  if (!(await configService.isConfigured())) {
+    vscode.window.showWarningMessage('Antigravity Sync: Configure a repository first.');
+    return;
+  }
+
+  const firstMachine = !syncService.isRepoEncrypted();
+  const passphrase = await vscode.window.showInputBox({
+    title: 'Encryption Passphrase',
+    prompt: firstMachine
+      ? 'Choose a passphrase. Every machine needs it to read the synced files - it cannot be recovered.'
+      : 'Enter the passphrase used on your other machines',
+    password: true,
+    ignoreFocusOut: true,
+    validateInput: (value) => value.length < 8 ? 'Use at least 8 characters' : undefined
+  });
+  if (!passphrase) {
+    return;
+  }
+
+  if (firstMachine) {
+    const confirmation = await vscode.window.showInputBox({
+      title: 'Confirm Encryption Passphrase',
+      password: true,
+      ignoreFocusOut: true
+    });
+    if (confirmation !== passphrase) {
+      vscode.window.showErrorMessage('Antigravity Sync: Passphrases do not match.');
+      return;
+    }
+  }
+
+  try {
+    await NotificationService.withProgress('Setting up encryption...', async () => {
+      await syncService.setEncryptionPassphrase(passphrase);
+      if (configService.getConfig().encryption) {
+        await syncService.initialize();
+      } else {
+        // Re-initialized by the configuration listener
+        await configService.setEncryptionEnabled(true);
+      }
+    });
+    vscode.window.showInformationMessage(
+      'Antigravity Sync: Encryption enabled. Files are encrypted from the next push; files pushed before stay readable in the Git history.'
+    );
   } catch (error) {
-    await configService.deleteCredentials();
     NotificationService.handleSyncError(error as Error);
   }
 }
@@ -230,7 +574,7 @@ async function showStatus(syncService: SyncService): Promise<void> {
     { label: '$(sync) Sync Status', description: status.syncStatus },
     { label: '$(git-commit) Last Sync', description: status.lastSync || 'Never' },
     { label: '$(file) Pending Changes', description: String(status.pendingChanges) },
-    { label: '$(repo) Repository', description: status.repository || 'Not configured' }
+    { label: '$(repo) Location', description: status.repository || 'Not configured' }
   ];
 
   await vscode.window.showQuickPick(items, {
@@ -238,3 +582,157 @@ async function showStatus(syncService: SyncService): Promise<void> {
     placeHolder: 'Current sync status'
   });
 }
+
+const PLAN_ACTION_ICONS: Record<PlanAction, string> = {
+  'conflict': '$(git-merge)',
+  'overwrite': '$(replace)',
+  'create': '$(new-file)',
+  'delete-local': '$(trash)',
+  'push': '$(cloud-upload)',
+  'delete-remote': '$(trash)',
+  'held-back': '$(shield)'
+};
+
+/**
+ * Dry run: list what a sync, push or pull would do to each file, then optionally run it
+ */
+async function previewSync(syncService: SyncService): Promise<void> {
+  const picked = await vscode.window.showQuickPick(
+    [
+      { label: '$(sync) Sync', description: 'Pull, then push', mode: 'sync' as SyncMode, command: 'antigravitySync.syncNow' },
+      { label: '$(cloud-upload) Push', mode: 'push' as SyncMode, command: 'antigravitySync.push' },
+      { label: '$(cloud-download) Pull', mode: 'pull' as SyncMode, command: 'antigravitySync.pull' }
+    ],
+    { title: 'Preview Sync', placeHolder: 'What to preview' }
+  );
+  if (!picked) {
+    return;
+  }
+
+  let preview: SyncPreview;
+  try {
+    preview = await vscode.window.withProgress(
+      { location: vscode.ProgressLocation.Notification, title: 'Antigravity Sync: Checking what would change...' },
+      () => syncService.preview(picked.mode)
+    );
+  } catch (error) {
+    vscode.window.showErrorMessage(`Antigravity Sync: ${(error as Error).message}`);
+    return;
+  }
+
+  const items: (vscode.QuickPickItem & { run?: boolean })[] = [
+    { label: `$(play) Run ${picked.mode} now`, description: summarizePlan(preview.changes), run: true }
+  ];
+  for (const action of Object.keys(PLAN_ACTION_LABELS) as PlanAction[]) {
+    const changes = preview.changes.filter(c => c.action === action);
+    if (changes.length === 0) {
+      continue;
+    }
+    items.push({ label: PLAN_ACTION_LABELS[action], kind: vscode.QuickPickItemKind.Separator });
+    for (const change of changes) {
+      items.push({
+        label: `${PLAN_ACTION_ICONS[action]} ${change.file}`,
+        description: change.winner ? `${change.rule} → keep ${change.winner}` : change.rule
+      });
+    }
+  }
+
+  const selected = await vscode.window.showQuickPick(items, {
+    title: `Preview ${picked.mode}: ${summarizePlan(preview.changes)}`,
+    placeHolder: 'Nothing has been changed yet',
+    matchOnDescription: true
+  });
+  if (selected?.run) {
+    await vscode.commands.executeCommand(picked.command);
+  }
+}
+
+/**
+ * Put back the local files the last pull overwrote or deleted
+ */
+async function restoreLastBackup(syncService: SyncService): Promise<void> {
+  const backup = syncService.getBackups()[0];
+  if (!backup) {
+    vscode.window.showInformationMessage('Antigravity Sync: No backup to restore');
+    return;
+  }
+
+  const confirm = await vscode.window.showWarningMessage(
+    `Restore ${backup.files.length} file(s) from the backup taken before the ${backup.reason} on ${new Date(backup.createdAt).toLocaleString()}?`,
+    {
+      modal: true,
+      detail: backup.files.slice(0, 10).map(f => f.path).join('\n') +
+        (backup.files.length > 10 ? `\n...and ${backup.files.length - 10} more` : '') +
+        '\n\nThe current versions are backed up first. Run this command again to undo.'
+    },
+    'Restore'
+  );
+  if (confirm !== 'Restore') {
+    return;
+  }
+
+  try {
+    const { files } = await syncService.restoreLastBackup();
+    const reload = await vscode.window.showInformationMessage(
+      `Antigravity Sync: Restored ${files.length} file(s). Reload the window so Antigravity picks them up.`,
+      'Reload Window'
+    );
+    if (reload === 'Reload Window') {
+      await vscode.commands.executeCommand('workbench.action.reloadWindow');
+    }
+  } catch (error) {
+    vscode.window.showErrorMessage(`Antigravity Sync: ${(error as Error).message}`);
+  }
+}
+
+/**
+ * Run the integrity check on every local backup
+ */
+async function checkBackups(syncService: SyncService): Promise<void> {
+  const backups = syncService.getBackups();
+  if (backups.length === 0) {
+    vscode.window.showInformationMessage('Antigravity Sync: No backups yet');
+    return;
+  }
+
+  const checks = syncService.checkBackups();
+  const damaged = checks.filter(c => !c.ok);
+  if (damaged.length === 0) {
+    vscode.window.showInformationMessage(`Antigravity Sync: All ${checks.length} backup(s) passed the integrity check`);
+    return;
+  }
+
+  const items: vscode.QuickPickItem[] = damaged.flatMap(check => [
+    ...check.missing.map(file => ({ label: `$(error) ${file}`, description: `missing in ${check.id}` })),
+    ...check.corrupted.map(file => ({ label: `$(warning) ${file}`, description: `corrupted in ${check.id}` }))
+  ]);
+  await vscode.window.showQuickPick(items, {
+    title: `${damaged.length} of ${checks.length} backup(s) failed the integrity check`,
+    placeHolder: 'Damaged backups cannot be restored'
+  });
+}
+
+/**
+ * Check a command against the banned/allowed command settings before relying on them
+ */
+async function testCommandPolicy(): Promise<void> {
+  const command = await vscode.window.showInputBox({
+    title: 'Test Command Policy',
+    prompt: 'Command text as shown next to the button',
+    ignoreFocusOut: true
+  });
+  if (!command) {
+    return;
+  }
+
+  // Same settings and matcher as the injected script
+  const { bannedCommands, allowedCommands } = readCommandPolicy(vscode.workspace.getConfiguration('antigravitySync'));
+  const result = evaluateCommandPolicy(command, bannedCommands, allowedCommands);
+  if (result.allowed) {
+    await vscode.window.showInformationMessage(result.pattern
+      ? `Allowed by "${result.pattern}": ${command}`
+      : `Allowed (no banned pattern matched): ${command}`);
+  } else {
+    await vscode.window.showWarningMessage(`Blocked by "${result.pattern}": ${command}`);
+  }
+}
@@ -0,0 +1,137 @@
+/**
+ * AuditLog - Rotating JSONL log of every Auto Retry click and block
+ *
+ * Events are appended to auto-retry-audit.jsonl. Past MAX_FILE_BYTES the file is
+ * rotated to auto-retry-audit.1.jsonl, .2 and so on, and the oldest is dropped.
+ */
+import * as fs from 'fs';
+import * as path from 'path';
+
+export type AuditEventType = 'click' | 'block';
+
+export interface AuditEvent {
+  timestamp: string;
+  type: AuditEventType;
+  /** CDP page id (port:targetId) and title of the window */
+  pageId: string;
+  pageTitle?: string;
+  button: string;
+  /** Rule context that matched the button (error, terminal, fileEdit, any) */
+  context: string;
+  conversation?: string;
+  /** Error message around the button */
+  errorText?: string;
+  /** Kind of error (quota, overloaded, network...) */
+  errorClass?: string;
+  /** Terminal command next to the button */
+  command?: string;
+  /** Banned pattern that blocked the click */
+  pattern?: string;
+}
+
+const LOG_NAME = 'auto-retry-audit';
+const MAX_FILE_BYTES = 1024 * 1024;
+const MAX_FILES = 5;
+
+export class AuditLog {
+  private dir: string;
+  private maxFileBytes: number;
+  private maxFiles: number;
+
+  constructor(dir: string, maxFileBytes = MAX_FILE_BYTES, maxFiles = MAX_FILES) {
+    this.dir = dir;
+    this.maxFileBytes = maxFileBytes;
+    this.maxFiles = maxFiles;
+  }
+
+  /**
+   * Path of a log file (0 = current, higher = older)
+   */
+  private filePath(index: number): string {
+    return path.join(this.dir, index === 0 ? `${LOG_NAME}.jsonl` : `${LOG_NAME}.${index}.jsonl`);
+  }
+
+  /**
+   * Append events, rotating first if the current file is full
+   */
+  append(events: AuditEvent[]): void {
+    if (events.length === 0) {
+      return;
+    }
+    fs.mkdirSync(this.dir, { recursive: true });
+
+    const current = this.filePath(0);
+    if (fs.existsSync(current) && fs.statSync(current).size >= this.maxFileBytes) {
+      this.rotate();
+    }
+    fs.appendFileSync(current, events.map(e => JSON.stringify(e)).join('\n') + '\n');
+  }
+
+  private rotate(): void {
+    const oldest = this.filePath(this.maxFiles - 1);
+    if (fs.existsSync(oldest)) {
+      fs.unlinkSync(oldest);
+    }
+    for (let i = this.maxFiles - 2; i >= 0; i--) {
+      if (fs.existsSync(this.filePath(i))) {
+        fs.renameSync(this.filePath(i), this.filePath(i + 1));
+      }
+    }
+  }
+
+  /**
+   * Most recent events, newest first
+   */
+  read(limit = 200): AuditEvent[] {
+    const events: AuditEvent[] = [];
+    for (let i = 0; i < this.maxFiles && events.length < limit; i++) {
+      events.push(...this.readFile(this.filePath(i)).reverse());
+    }
+    return events.slice(0, limit);
+  }
+
+  /**
+   * Write all events, oldest first, to a single JSONL file
+   * @returns number of events exported
+   */
+  exportTo(destination: string): number {
+    const events: AuditEvent[] = [];
+    for (let i = this.maxFiles - 1; i >= 0; i--) {
+      events.push(...this.readFile(this.filePath(i)));
+    }
+    fs.writeFileSync(destination, events.map(e => JSON.stringify(e)).join('\n') + (events.length > 0 ? '\n' : ''));
+    return events.length;
+  }
+
+  /**
+   * Delete all log files
+   */
+  clear(): void {
+    for (let i = 0; i < this.maxFiles; i++) {
+      if (fs.existsSync(this.filePath(i))) {
+        fs.unlinkSync(this.filePath(i));
+      }
+    }
+  }
+
+  /**
+   * Parse one file, skipping lines that are not valid JSON (e.g. cut by a crash)
+   */
+  private readFile(filePath: string): AuditEvent[] {
+    if (!fs.existsSync(filePath)) {
+      return [];
+    }
+    const events: AuditEvent[] = [];
+    for (const line of fs.readFileSync(filePath, 'utf-8').split('\n')) {
+      if (!line.trim()) {
+        continue;
+      }
+      try {
+        events.push(JSON.parse(line));
+      } catch {
+        // Partial line
+      }
+    }
+    return events;
+  }
+}
@@ -5,16 +5,46 @@
  * Requires IDE to be launched with: --remote-debugging-port=31905
  */
 import * as vscode from 'vscode';
-import { CDPHandler, CDPLogCallback, CDPStats } from './CDPHandler';
+import {
+  ButtonRule,
+  CDPConfig,
+  CDPEvent,
+  CDPEventListener,
+  CDPHandler,
+  CDPLogCallback,
+  CDPStats,
+  DEFAULT_BUTTON_RULES,
+  WindowStats
+} from './CDPHandler';
+import { AuditEvent, AuditLog } from './AuditLog';
+import { CommandPolicySettings, readCommandPolicy } from './CommandPolicy';
+import {
+  DEFAULT_ERROR_POLICIES,
+  ERROR_CLASS_LABELS,
+  ERROR_CLASSES,
+  ErrorClass,
+  ErrorPolicies
+} from './ErrorClassifier';
+import { Notifier } from './Notifier';
 import { Relauncher } from './Relauncher';
 
+const RULE_CONTEXTS = ['error', 'terminal', 'fileEdit', 'any'];
+const RULE_ACTIONS = ['click', 'skip', 'notify'];
+const ERROR_POLICY_ACTIONS = ['retry', 'wait', 'waitForReset', 'notify'];
+// Events are pushed and new windows are reported by target discovery;
+// this only reconnects after the IDE restarts
+const DISCOVERY_INTERVAL_MS = 30000;
+
 export type AutoRetryLogCallback = (message: string, type: 'info' | 'success' | 'error' | 'warning') => void;
 
-export interface AutoRetryConfig {
+export interface AutoRetryConfig extends CommandPolicySettings {
   enabled: boolean;
   intervalSeconds: number;
   maxRetries: number;
   cooldownSeconds: number;
+  rules: ButtonRule[];
+  errorPolicies: ErrorPolicies;
+  stallMinutes: number;
 }
 
 export class AutoRetryService {
@@ -22,13 +52,28 @@ export class AutoRetryService {
   private cdpHandler: CDPHandler;
   private relauncher: Relauncher;
   private logCallback?: AutoRetryLogCallback;
-  private pollTimer?: ReturnType<typeof setInterval>;
+  private statusCallback?: () => void;
+  private discoveryTimer?: ReturnType<typeof setInterval>;
+  private listeners: Set<CDPEventListener> = new Set();
   private config: AutoRetryConfig;
+  private lastStats: CDPStats | null = null;
+  private auditLog: AuditLog | null;
+  private notifier: Notifier | null;
 
-  constructor() {
+  /**
+   * @param auditLog - where clicks and blocks are recorded (none = not recorded)
+   * @param notifier - where exhausted budgets, stalls, blocked commands and buttons left to you are reported
+   */
+  constructor(auditLog?: AuditLog, notifier?: Notifier) {
     this.config = this.getConfig();
     this.cdpHandler = new CDPHandler();
     this.relauncher = new Relauncher();
+    this.auditLog = auditLog || null;
+    this.notifier = notifier || null;
+    if (auditLog) {
+      this.cdpHandler.setAuditLog(auditLog);
+    }
+    this.cdpHandler.onEvent(event => void this.handleEvent(event));
   }
 
   /**
@@ -40,10 +85,59 @@ export class AutoRetryService {
       enabled: config.get<boolean>('autoRetryEnabled', false),
       intervalSeconds: config.get<number>('autoRetryInterval', 3),
       maxRetries: config.get<number>('autoRetryMaxRetries', 50),
-      cooldownSeconds: config.get<number>('autoRetryCooldown', 5)
+      cooldownSeconds: config.get<number>('autoRetryCooldown', 5),
+      rules: this.validateRules(config.get<ButtonRule[]>('autoRetryRules', DEFAULT_BUTTON_RULES)),
+      errorPolicies: this.validateErrorPolicies(config.get<Partial<ErrorPolicies>>('autoRetryErrorPolicies', {})),
+      stallMinutes: config.get<number>('autoRetryStallMinutes', 15),
+      ...readCommandPolicy(config)
     };
   }
 
+  /**
+   * Drop malformed rules (unknown context/action, invalid regex) so one typo does not stop the rest
+   */
+  private validateRules(rules: ButtonRule[]): ButtonRule[] {
+    if (!Array.isArray(rules)) {
+      return DEFAULT_BUTTON_RULES;
+    }
+    return rules.filter(rule => {
+      if (!rule || typeof rule.label !== 'string' || !rule.label ||
+        !RULE_CONTEXTS.includes(rule.context) || !RULE_ACTIONS.includes(rule.action)) {
+        console.log(`[AutoRetry] Ignoring invalid rule: ${JSON.stringify(rule)}`);
+        return false;
+      }
+      if (rule.regex) {
+        try {
+          new RegExp(rule.label);
+        } catch (e) {
+          console.log(`[AutoRetry] Ignoring rule with invalid regex: ${rule.label}`);
+          return false;
+        }
+      }
+      return true;
+    });
+  }
+
+  /**
+   * Merge the configured error policies over the defaults, keeping the default for malformed entries
+   */
+  private validateErrorPolicies(policies: Partial<ErrorPolicies>): ErrorPolicies {
+    const result: ErrorPolicies = { ...DEFAULT_ERROR_POLICIES };
+    if (!policies || typeof policies !== 'object') {
+      return result;
+    }
+    for (const [errorClass, policy] of Object.entries(policies)) {
+      if (!ERROR_CLASSES.includes(errorClass as ErrorClass) || !policy ||
+        !ERROR_POLICY_ACTIONS.includes(policy.action) ||
+        (policy.seconds !== undefined && (typeof policy.seconds !== 'number' || policy.seconds < 0))) {
+        console.log(`[AutoRetry] Ignoring invalid error policy for ${errorClass}: ${JSON.stringify(policy)}`);
+        continue;
+      }
+      result[errorClass as ErrorClass] = policy;
+    }
+    return result;
+  }
+
   /**
    * Set log callback for UI updates
    */
@@ -53,6 +147,22 @@ export class AutoRetryService {
     this.relauncher.setLogCallback(callback);
   }
 
+  /**
+   * Set callback fired when the status shown in the UI changes (e.g. a retry budget ran out)
+   */
+  public setStatusCallback(callback: () => void): void {
+    this.statusCallback = callback;
+  }
+
+  /**
+   * Subscribe to clicks, blocks, notifications and errors as they happen in the pages
+   * @returns function that unsubscribes
+   */
+  public onEvent(listener: CDPEventListener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
   /**
    * Log message to callback
    */
@@ -94,14 +204,16 @@ export class AutoRetryService {
    * Note: CDP availability should be checked by caller before calling start()
    */
   public async start(): Promise<boolean> {
+    // Auto-start and the Start button may both call this
+    if (this.isRunning) {
+      return true;
+    }
     this.log('Starting Auto Retry...', 'info');
 
     // Start CDP handler
     this.config = this.getConfig();
-    const connected = await this.cdpHandler.start({
-      pollInterval: this.config.intervalSeconds * 1000,
-      bannedCommands: this.getDefaultBannedCommands()
-    });
+    this.lastStats = null;
+    const connected = await this.cdpHandler.start(this.getCDPConfig());
 
     if (!connected) {
       this.log('Failed to connect to CDP', 'error');
@@ -112,28 +224,100 @@ export class AutoRetryService {
     this.log(`✅ Auto Retry started!`, 'success');
     this.log(`Connected to ${this.cdpHandler.getConnectionCount()} page(s)`, 'info');
 
-    // Start polling to maintain connection
-    this.pollTimer = setInterval(async () => {
+    // Reconnect when the IDE restarts
+    if (this.discoveryTimer) {
+      clearInterval(this.discoveryTimer);
+    }
+    this.discoveryTimer = setInterval(async () => {
       if (!this.isRunning) return;
-
-      await this.cdpHandler.start({
-        pollInterval: this.config.intervalSeconds * 1000,
-        bannedCommands: this.getDefaultBannedCommands()
-      });
-    }, 5000);
+      await this.cdpHandler.discover();
+    }, DISCOVERY_INTERVAL_MS);
 
     return true;
   }
 
+  /**
+   * Settings passed to the injected script
+   */
+  private getCDPConfig(): CDPConfig {
+    return {
+      pollInterval: this.config.intervalSeconds * 1000,
+      bannedCommands: this.config.bannedCommands,
+      allowedCommands: this.config.allowedCommands,
+      maxRetries: this.config.maxRetries,
+      cooldownSeconds: this.config.cooldownSeconds,
+      rules: this.config.rules,
+      errorPolicies: this.config.errorPolicies,
+      stallSeconds: this.config.stallMinutes * 60
+    };
+  }
+
+  /**
+   * React to an event pushed by a page, then forward it to listeners
+   */
+  private async handleEvent(event: CDPEvent): Promise<void> {
+    switch (event.type) {
+      case 'exhausted':
+        this.log(`Retry budget exhausted (${event.retries} retries): ${event.conversation}`, 'warning');
+        void this.notifier?.notify('retryExhausted', 'Auto Retry gave up',
+          `${event.conversation}: retry budget exhausted after ${event.retries} retries`);
+        break;
+      case 'stalled': {
+        const message = `${event.conversation} has been stuck on ${ERROR_CLASS_LABELS[event.errorClass]} for ${Math.round(event.seconds / 60)} min`;
+        this.log(message, 'warning');
+        void this.notifier?.notify('agentStalled', 'Agent stalled', message);
+        break;
+      }
+      case 'block':
+        void this.notifier?.notify('commandBlocked', 'Dangerous command blocked',
+          `${event.audit.command || event.audit.button} (matches ${event.audit.pattern}) in ${event.audit.pageTitle || event.pageId}`);
+        break;
+      case 'click':
+        if (event.audit.errorClass) {
+          this.log(`Retried ${ERROR_CLASS_LABELS[event.audit.errorClass as ErrorClass] || event.audit.errorClass} in ${event.audit.pageTitle || event.pageId}`, 'success');
+        }
+        break;
+      case 'notify': {
+        const { label, context, errorClass } = event.notification;
+        if (errorClass) {
+          this.log(`Not retrying ${ERROR_CLASS_LABELS[errorClass]}: "${label}" is waiting for you`, 'warning');
+          void this.notifier?.notify('actionNeeded', 'Auto Retry needs you',
+            `${ERROR_CLASS_LABELS[errorClass]}, not retrying. "${label}" is waiting for you`);
+        } else {
+          this.log(`"${label}" is waiting for you (${context})`, 'info');
+          void this.notifier?.notify('actionNeeded', 'Auto Retry needs you', `"${label}" is waiting for you (${context})`);
+        }
+        break;
+      }
+      case 'error':
+        this.log(`Error in ${event.pageId}: ${event.message}`, 'error');
+        break;
+    }
+
+    if (event.type === 'click' || event.type === 'block' || event.type === 'exhausted' ||
+      (event.type === 'notify' && event.notification.errorClass)) {
+      this.lastStats = await this.cdpHandler.getStats();
+      this.statusCallback?.();
+    }
+
+    for (const listener of this.listeners) {
+      try {
+        listener(event);
+      } catch (e: any) {
+        console.log(`[AutoRetry] Event listener failed: ${e.message}`);
+      }
+    }
+  }
+
   /**
    * Stop the auto-accept service
    */
   public async stop(): Promise<void> {
     this.isRunning = false;
 
-    if (this.pollTimer) {
-      clearInterval(this.pollTimer);
-      this.pollTimer = undefined;
+    if (this.discoveryTimer) {
+      clearInterval(this.discoveryTimer);
+      this.discoveryTimer = undefined;
     }
 
     await this.cdpHandler.stop();
@@ -151,11 +335,21 @@ export class AutoRetryService {
   /**
    * Get service status
    */
-  public getStatus(): { running: boolean; retryCount: number; connectionCount: number } {
+  public getStatus(): {
+    running: boolean;
+    retryCount: number;
+    connectionCount: number;
+    exhausted: string[];
+    windows: WindowStats[];
+    errors: Partial<Record<ErrorClass, number>>;
+  } {
     return {
       running: this.isRunning && this.cdpHandler.isRunning(),
-      retryCount: 0, // CDP handles this internally
-      connectionCount: this.cdpHandler.getConnectionCount()
+      retryCount: this.lastStats?.clicks || 0,
+      connectionCount: this.cdpHandler.getConnectionCount(),
+      exhausted: this.lastStats?.exhausted || [],
+      windows: this.cdpHandler.getWindowStats(),
+      errors: this.lastStats?.errors || {}
     };
   }
 
@@ -167,29 +361,29 @@ export class AutoRetryService {
   }
 
   /**
-   * Reset stats
+   * Recent clicks and blocks, newest first
    */
-  public async resetStats(): Promise<CDPStats> {
-    return await this.cdpHandler.resetStats();
+  public getAuditEvents(limit?: number): AuditEvent[] {
+    return this.auditLog ? this.auditLog.read(limit) : [];
+  }
+
+  /**
+   * Export the whole audit log as JSONL
+   * @returns number of events exported
+   */
+  public exportAuditLog(destination: string): number {
+    if (!this.auditLog) {
+      throw new Error('Audit log is not available');
+    }
+    return this.auditLog.exportTo(destination);
   }
 
   /**
-   * Default list of dangerous commands to block
+   * Reset stats
    */
-  private getDefaultBannedCommands(): string[] {
-    return [
-      'rm -rf /',
-      'rm -rf ~',
-      'rm -rf *',
-      'format c:',
-      'del /f /s /q',
-      'rmdir /s /q',
-      ':(){:|:&};:',
-      'dd if=',
-      'mkfs.',
-      '> /dev/sda',
-      'chmod -R 777 /'
-    ];
+  public async resetStats(): Promise<CDPStats> {
+    this.lastStats = null;
+    return await this.cdpHandler.resetStats();
   }
 
   // ============================================
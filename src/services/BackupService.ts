@@ -0,0 +1,254 @@
+/**
+ * BackupService - Rotating local backups of files a pull is about to overwrite
+ *
+ * Each backup is a folder named after its creation time with a copy of every
+ * file and a manifest.json listing their SHA-256. Backups are written to
+ * <id>.partial first, so an interrupted backup is never listed.
+ */
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+
+export interface BackupFile {
+  /** Path relative to the backed up folder */
+  path: string;
+  size: number;
+  sha256: string;
+}
+
+export interface BackupInfo {
+  id: string;
+  createdAt: string;
+  /** What was about to overwrite the files (pull, restore) */
+  reason: string;
+  files: BackupFile[];
+}
+
+export interface BackupRetention {
+  /** Backups kept (0 = no backups) */
+  maxCount: number;
+  /** Backups older than this are removed (0 = no age limit) */
+  maxAgeDays: number;
+}
+
+export interface BackupCheck {
+  id: string;
+  ok: boolean;
+  missing: string[];
+  corrupted: string[];
+}
+
+interface ManifestFile extends BackupInfo {
+  version: number;
+}
+
+const MANIFEST_VERSION = 1;
+const MANIFEST_NAME = 'manifest.json';
+const FILES_DIR = 'files';
+const PARTIAL_SUFFIX = '.partial';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function sha256(content: Buffer): string {
+  return crypto.createHash('sha256').update(content).digest('hex');
+}
+
+/**
+ * A backup being filled, created by BackupService.begin()
+ */
+export class PendingBackup {
+  private service: BackupService;
+  /** Folder being written (null when backups are off) */
+  private dir: string | null;
+  private sourceRoot: string;
+  private info: Omit<BackupInfo, 'files'>;
+  private files: Map<string, BackupFile> = new Map();
+
+  constructor(service: BackupService, dir: string | null, sourceRoot: string, info: Omit<BackupInfo, 'files'>) {
+    this.service = service;
+    this.dir = dir;
+    this.sourceRoot = sourceRoot;
+    this.info = info;
+  }
+
+  /**
+   * Copy the current version of a file (no-op if it does not exist or is already saved)
+   */
+  add(relativePath: string): void {
+    if (!this.dir || this.files.has(relativePath)) {
+      return;
+    }
+    const sourcePath = path.join(this.sourceRoot, relativePath);
+    if (!fs.existsSync(sourcePath)) {
+      return;
+    }
+
+    const content = fs.readFileSync(sourcePath);
+    const destPath = path.join(this.dir, FILES_DIR, relativePath);
+    fs.mkdirSync(path.dirname(destPath), { recursive: true });
+    fs.writeFileSync(destPath, content);
+    this.files.set(relativePath, { path: relativePath, size: content.length, sha256: sha256(content) });
+  }
+
+  /**
+   * Write the manifest and apply the retention
+   * @returns the backup, or null if no file needed one
+   */
+  finish(): BackupInfo | null {
+    if (!this.dir) {
+      return null;
+    }
+    if (this.files.size === 0) {
+      fs.rmSync(this.dir, { recursive: true, force: true });
+      return null;
+    }
+
+    const info: BackupInfo = { ...this.info, files: [...this.files.values()] };
+    const manifest: ManifestFile = { version: MANIFEST_VERSION, ...info };
+    fs.writeFileSync(path.join(this.dir, MANIFEST_NAME), JSON.stringify(manifest, null, 2));
+    fs.renameSync(this.dir, this.dir.slice(0, -PARTIAL_SUFFIX.length));
+
+    this.service.prune(new Date(info.createdAt).getTime());
+    return info;
+  }
+}
+
+export class BackupService {
+  private backupRoot: string;
+  private retention: BackupRetention;
+
+  constructor(backupRoot: string, retention: BackupRetention) {
+    this.backupRoot = backupRoot;
+    this.retention = retention;
+  }
+
+  /**
+   * Start a backup of files under sourceRoot
+   * With maxCount 0 the backup does nothing.
+   */
+  begin(sourceRoot: string, reason: string, now = new Date()): PendingBackup {
+    const info = { id: this.newId(now), createdAt: now.toISOString(), reason };
+    if (this.retention.maxCount <= 0) {
+      return new PendingBackup(this, null, sourceRoot, info);
+    }
+
+    const dir = path.join(this.backupRoot, `${info.id}${PARTIAL_SUFFIX}`);
+    fs.rmSync(dir, { recursive: true, force: true });
+    fs.mkdirSync(dir, { recursive: true });
+    return new PendingBackup(this, dir, sourceRoot, info);
+  }
+
+  /**
+   * Complete backups, newest first
+   */
+  list(): BackupInfo[] {
+    if (!fs.existsSync(this.backupRoot)) {
+      return [];
+    }
+
+    const backups: BackupInfo[] = [];
+    for (const entry of fs.readdirSync(this.backupRoot)) {
+      if (entry.endsWith(PARTIAL_SUFFIX)) {
+        continue;
+      }
+      try {
+        const manifest = JSON.parse(
+          fs.readFileSync(path.join(this.backupRoot, entry, MANIFEST_NAME), 'utf-8')
+        ) as ManifestFile;
+        if (manifest.id === entry && Array.isArray(manifest.files)) {
+          backups.push({ id: manifest.id, createdAt: manifest.createdAt, reason: manifest.reason, files: manifest.files });
+        }
+      } catch {
+        console.log(`[BackupService] Skipping unreadable backup: ${entry}`);
+      }
+    }
+    return backups.sort((a, b) => (a.id < b.id ? 1 : a.id > b.id ? -1 : 0));
+  }
+
+  /**
+   * Check every file of a backup against the hashes in its manifest
+   */
+  verify(id: string): BackupCheck {
+    const backup = this.get(id);
+    const missing: string[] = [];
+    const corrupted: string[] = [];
+
+    for (const file of backup.files) {
+      const filePath = this.filePath(id, file.path);
+      if (!fs.existsSync(filePath)) {
+        missing.push(file.path);
+      } else if (sha256(fs.readFileSync(filePath)) !== file.sha256) {
+        corrupted.push(file.path);
+      }
+    }
+    return { id, ok: missing.length === 0 && corrupted.length === 0, missing, corrupted };
+  }
+
+  /**
+   * Copy the files of a backup back under targetRoot
+   * Refuses a backup that fails the integrity check, so a damaged copy never replaces a file.
+   */
+  restore(id: string, targetRoot: string): BackupFile[] {
+    const check = this.verify(id);
+    if (!check.ok) {
+      const damaged = [...check.missing.map(f => `${f} (missing)`), ...check.corrupted.map(f => `${f} (corrupted)`)];
+      throw new Error(`Backup ${id} failed the integrity check: ${damaged.join(', ')}`);
+    }
+
+    const backup = this.get(id);
+    for (const file of backup.files) {
+      const destPath = path.join(targetRoot, file.path);
+      fs.mkdirSync(path.dirname(destPath), { recursive: true });
+      fs.copyFileSync(this.filePath(id, file.path), destPath);
+    }
+    console.log(`[BackupService] Restored ${backup.files.length} file(s) from backup ${id}`);
+    return backup.files;
+  }
+
+  /**
+   * Remove backups past the retention (count and age), plus leftovers of interrupted backups
+   */
+  prune(now = Date.now()): void {
+    if (!fs.existsSync(this.backupRoot)) {
+      return;
+    }
+
+    const { maxCount, maxAgeDays } = this.retention;
+    const backups = this.list();
+    const expired = backups.filter((backup, index) =>
+      index >= maxCount ||
+      (maxAgeDays > 0 && now - new Date(backup.createdAt).getTime() > maxAgeDays * DAY_MS)
+    );
+    const partial = fs.readdirSync(this.backupRoot).filter(e => e.endsWith(PARTIAL_SUFFIX));
+
+    for (const entry of [...expired.map(b => b.id), ...partial]) {
+      fs.rmSync(path.join(this.backupRoot, entry), { recursive: true, force: true });
+    }
+    if (expired.length > 0) {
+      console.log(`[BackupService] Removed ${expired.length} old backup(s), ${backups.length - expired.length} kept`);
+    }
+  }
+
+  private get(id: string): BackupInfo {
+    const backup = this.list().find(b => b.id === id);
+    if (!backup) {
+      throw new Error(`Backup not found: ${id}`);
+    }
+    return backup;
+  }
+
+  private filePath(id: string, relativePath: string): string {
+    return path.join(this.backupRoot, id, FILES_DIR, relativePath);
+  }
+
+  /**
+   * Sortable id from the creation time, suffixed if a backup with that time exists
+   */
+  private newId(now: Date): string {
+    const base = now.toISOString().replace(/[:.]/g, '-');
+    let id = base;
+    for (let i = 1; fs.existsSync(path.join(this.backupRoot, id)); i++) {
+      id = `${base}-${i}`;
+    }
+    return id;
+  }
+}
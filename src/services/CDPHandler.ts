@@ -3,21 +3,74 @@
  * 
  * Uses WebSocket to connect to CDP endpoint and inject auto-click script
  * Port: 31905 (± 3 range for flexibility)
+ *
+ * One browser-level connection per port discovers targets (Target.setDiscoverTargets)
+ * and attaches to them with flat sessions. Out-of-process iframes are auto-attached
+ * before they run, and the script is registered with Page.addScriptToEvaluateOnNewDocument,
+ * so reloads, navigations and new panels get it without rescanning.
+ *
+ * Each target runs the script in every frame's own execution context (cross-origin
+ * frames included), and stats are aggregated per top-level window.
+ *
+ * The script pushes its events (clicks, blocks, stats...) through a
+ * Runtime.addBinding binding, so pages are never polled.
  */
 import * as vscode from 'vscode';
 import * as http from 'http';
 import * as fs from 'fs';
 import * as path from 'path';
+import { AuditEvent, AuditLog } from './AuditLog';
+import { DEFAULT_BANNED_COMMANDS, evaluateCommandPolicy } from './CommandPolicy';
+import { classifyError, DEFAULT_ERROR_POLICIES, ErrorClass, ErrorPolicies, parseResetDelay } from './ErrorClassifier';
 
 // Dynamic import for ws module
 let WebSocket: any;
 
 const DEFAULT_PORT = 31905;
 const PORT_RANGE = 3; // 31902-31908
+const COMMAND_TIMEOUT_MS = 5000;
+
+// Targets discovered at browser level; out-of-process iframes are auto-attached from these
+const TOP_LEVEL_TARGETS = ['page', 'webview'];
+const AUTOMATED_TARGETS = [...TOP_LEVEL_TARGETS, 'iframe'];
+
+// Function the injected script calls to push events (Runtime.addBinding)
+export const EVENT_BINDING = '__autoRetryEmit';
+
+export type ButtonRuleContext = 'error' | 'terminal' | 'fileEdit' | 'any';
+export type ButtonRuleAction = 'click' | 'skip' | 'notify';
+
+/**
+ * A button automation rule - the first rule matching a button decides what happens
+ */
+export interface ButtonRule {
+  /** Button text (exact match) or a regular expression when regex is set */
+  label: string;
+  regex?: boolean;
+  /** Where the button must sit */
+  context: ButtonRuleContext;
+  action: ButtonRuleAction;
+}
+
+export const DEFAULT_BUTTON_RULES: ButtonRule[] = [
+  { label: 'Retry', context: 'error', action: 'click' }
+];
 
 export interface CDPConfig {
   pollInterval?: number;
+  /** Banned command patterns, defaults included (see CommandPolicy) */
   bannedCommands?: string[];
+  /** Patterns that lift a ban */
+  allowedCommands?: string[];
+  rules?: ButtonRule[];
+  /** Retries per conversation before giving up */
+  maxRetries?: number;
+  /** Wait after a retry, doubled for each further retry of the same conversation */
+  cooldownSeconds?: number;
+  /** What to do with a Retry button for each kind of error */
+  errorPolicies?: ErrorPolicies;
+  /** Report an error still on screen after this long (0 = never) */
+  stallSeconds?: number;
 }
 
 export interface CDPStats {
@@ -25,22 +78,158 @@ export interface CDPStats {
   blocked: number;
   fileEdits: number;
   terminalCommands: number;
+  /** Conversations whose retry budget is exhausted (no more clicks) */
+  exhausted: string[];
+  /** Errors seen, by class */
+  errors: Partial<Record<ErrorClass, number>>;
 }
 
-interface CDPConnection {
+/** A button matched by a 'notify' rule */
+export interface ButtonNotification {
+  label: string;
+  context: ButtonRuleContext;
+  /** Set when an error policy says not to retry */
+  errorClass?: ErrorClass;
+}
+
+/** Events pushed by the injected script, forwarded to listeners */
+export type CDPEvent =
+  | { type: 'click' | 'block'; pageId: string; audit: AuditEvent }
+  | { type: 'notify'; pageId: string; notification: ButtonNotification }
+  | { type: 'exhausted'; pageId: string; conversation: string; retries: number }
+  | { type: 'stalled'; pageId: string; conversation: string; errorClass: ErrorClass; seconds: number }
+  | { type: 'error'; pageId: string; message: string };
+
+export type CDPEventListener = (event: CDPEvent) => void;
+
+/** Stats of one top-level window, summed over its iframes and webviews */
+export interface WindowStats {
+  windowId: string;
+  title?: string;
+  stats: CDPStats;
+}
+
+/** Browser-level connection of one debugging port, shared by all its targets */
+interface BrowserConnection {
   ws: any;
-  injected: boolean;
+}
+
+/** A page, webview or out-of-process iframe attached through a flat session */
+interface CDPConnection {
+  port: number;
+  sessionId: string;
+  targetId: string;
+  type: string;
+  title?: string;
+  /** Top-level target (window) this target belongs to - itself for pages */
+  windowId: string;
+  /** Default execution contexts: the main document and in-process frames */
+  contexts: Set<number>;
+  /** Setup finished (binding, auto-attach, script) */
+  ready: boolean;
+  /** Page.addScriptToEvaluateOnNewDocument identifier of the registered script */
+  scriptId?: string;
+  /** Script source registered for this target (changes with the config) */
+  source?: string;
+  /** Last stats pushed by each execution context */
+  stats: Map<number, CDPStats>;
+}
+
+/** Target as reported by the Target domain */
+interface TargetInfo {
+  targetId: string;
+  type: string;
+  title?: string;
+  url?: string;
+}
+
+/** Entry of the /json/list endpoint */
+interface DebuggerPage {
+  id: string;
+  type: string;
+  title?: string;
+  webSocketDebuggerUrl?: string;
+}
+
+/** Result of the CDP commands sent here (only the fields that are read) */
+interface CDPResult {
+  sessionId?: string;
+  identifier?: string;
+  targetInfos?: TargetInfo[];
+}
+
+/** Params of the CDP events handled here */
+interface CDPEventParams {
+  targetInfo?: TargetInfo;
+  targetId?: string;
+  sessionId?: string;
+  waitingForDebugger?: boolean;
+  name?: string;
+  payload?: string;
+  executionContextId?: number;
+  context?: { id: number; auxData?: { isDefault?: boolean } };
+}
+
+/** Message of a browser connection: a command response (id) or an event (method) */
+interface CDPMessage {
+  id?: number;
+  sessionId?: string;
+  method?: string;
+  params?: CDPEventParams;
+  result?: CDPResult;
+  error?: { message?: string };
+}
+
+/** Event pushed by the injected script through the binding */
+interface PageMessage {
+  type: string;
+  data: unknown;
+}
+
+interface PendingCommand {
+  resolve: (result: CDPResult) => void;
+  reject: (error: Error) => void;
+  timeout: NodeJS.Timeout;
+}
+
+/** Event as reported by the page (page id and title are added here) */
+type PageAuditEvent = Omit<AuditEvent, 'pageId' | 'pageTitle'>;
+
+function emptyStats(): CDPStats {
+  return { clicks: 0, blocked: 0, fileEdits: 0, terminalCommands: 0, exhausted: [], errors: {} };
+}
+
+function addStats(total: CDPStats, s: CDPStats): void {
+  total.clicks += s.clicks || 0;
+  total.blocked += s.blocked || 0;
+  total.fileEdits += s.fileEdits || 0;
+  total.terminalCommands += s.terminalCommands || 0;
+  total.exhausted.push(...(s.exhausted || []));
+  for (const [errorClass, count] of Object.entries(s.errors || {})) {
+    const key = errorClass as ErrorClass;
+    total.errors[key] = (total.errors[key] || 0) + (count || 0);
+  }
 }
 
 export type CDPLogCallback = (message: string, type: 'info' | 'success' | 'error' | 'warning') => void;
 
 export class CDPHandler {
+  private browsers: Map<number, BrowserConnection> = new Map();
+  /** Attached targets by id (port:targetId) */
   private connections: Map<string, CDPConnection> = new Map();
+  /** port:sessionId -> target id (session ids are only unique per browser) */
+  private sessions: Map<string, string> = new Map();
+  /** Attaches in progress, so concurrent discoveries wait for the same one */
+  private attaching: Map<string, Promise<void>> = new Map();
   private isEnabled: boolean = false;
   private msgId: number = 1;
   private logCallback?: CDPLogCallback;
   private basePort: number;
   private portRange: number;
+  private auditLog: AuditLog | null = null;
+  private config: CDPConfig = {};
+  private listeners: Set<CDPEventListener> = new Set();
+  private pending: Map<number, PendingCommand> = new Map();
 
   constructor() {
     const config = vscode.workspace.getConfiguration('antigravitySync');
@@ -71,6 +260,22 @@ export class CDPHandler {
     this.logCallback = callback;
   }
 
+  /**
+   * Persist clicks and blocks reported by the pages to this log
+   */
+  setAuditLog(auditLog: AuditLog): void {
+    this.auditLog = auditLog;
+  }
+
+  /**
+   * Subscribe to events pushed by the pages
+   * @returns function that unsubscribes
+   */
+  onEvent(listener: CDPEventListener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
   /**
    * Log message to callback
    */
@@ -119,7 +324,7 @@ export class CDPHandler {
   }
 
   /**
-   * Start/maintain the CDP connection and injection loop
+   * Start automation in every page of the IDE (settings apply to attached pages too)
    */
   async start(config?: CDPConfig): Promise<boolean> {
     if (!await this.initWebSocket()) {
@@ -127,44 +332,60 @@ export class CDPHandler {
     }
 
     this.isEnabled = true;
+    if (config) {
+      this.config = config;
+    }
     this.log(`Scanning ports ${this.basePort - this.portRange} to ${this.basePort + this.portRange}...`, 'info');
 
-    // Clean up dead connections first
+    await this.discover();
+    // Targets still being set up pick up the config themselves
     for (const [id, conn] of this.connections) {
-      if (conn.ws.readyState !== 1) { // 1 = OPEN
-        this.connections.delete(id);
+      if (conn.ready) {
+        await this.inject(id);
       }
     }
 
-    let newConnections = 0;
+    const totalConnections = this.getConnectionCount();
+    if (totalConnections > 0) {
+      this.log(`Connected to ${totalConnections} page(s)`, 'success');
+      return true;
+    } else {
+      this.log('No CDP connections established. Is IDE launched with --remote-debugging-port=31905?', 'warning');
+      return false;
+    }
+  }
+
+  /**
+   * Connect to debugging ports that have no browser connection yet (e.g. after an IDE restart)
+   * Pages opened later are reported by target discovery, not by rescanning.
+   * @returns number of attached pages
+   */
+  async discover(): Promise<number> {
+    if (!this.isEnabled) {
+      return 0;
+    }
 
     for (let port = this.basePort - this.portRange; port <= this.basePort + this.portRange; port++) {
-      try {
-        const pages = await this.getPages(port);
-        for (const page of pages) {
-          const id = `${port}:${page.id}`;
-          if (!this.connections.has(id)) {
-            const success = await this.connect(id, page.webSocketDebuggerUrl);
-            if (success) {
-              newConnections++;
+      if (this.browsers.has(port)) {
+        continue;
+      }
+      const url = await this.getBrowserUrl(port);
+      if (url && await this.connectBrowser(port, url)) {
+        try {
+          await this.send(port, undefined, 'Target.setDiscoverTargets', { discover: true });
+          const result = await this.send(port, undefined, 'Target.getTargets');
+          for (const targetInfo of result?.targetInfos || []) {
+            if (TOP_LEVEL_TARGETS.includes(targetInfo.type)) {
+              await this.attach(port, targetInfo);
             }
           }
-          await this.inject(id, config);
+        } catch (e: any) {
+          this.log(`Target discovery failed on port ${port}: ${e.message}`, 'error');
         }
-      } catch (e) {
-        // Port not available
       }
     }
 
-    const totalConnections = this.connections.size;
-
-    if (totalConnections > 0) {
-      this.log(`Connected to ${totalConnections} page(s)`, 'success');
-      return true;
-    } else {
-      this.log('No CDP connections established. Is IDE launched with --remote-debugging-port=31905?', 'warning');
-      return false;
-    }
+    return this.getConnectionCount();
   }
 
   /**
@@ -175,71 +396,105 @@ export class CDPHandler {
 
     for (const [id, conn] of this.connections) {
       try {
-        await this.evaluate(id, 'if(window.__autoAcceptStop) window.__autoAcceptStop()');
-        conn.ws.close();
+        if (conn.scriptId) {
+          await this.sendToTarget(id, 'Page.removeScriptToEvaluateOnNewDocument', { identifier: conn.scriptId });
+        }
+        await this.evaluateAll(id, 'if(window.__autoAcceptStop) window.__autoAcceptStop()');
       } catch (e) {
         // Ignore errors during cleanup
       }
     }
 
+    // Closing the browser connection detaches every session
+    await Promise.all([...this.browsers.values()].map(browser => new Promise<void>(resolve => {
+      try {
+        browser.ws.once('close', () => resolve());
+        browser.ws.terminate();
+      } catch (e) {
+        resolve(); // Ignore errors during cleanup
+      }
+    })));
+
+    this.browsers.clear();
     this.connections.clear();
+    this.sessions.clear();
     this.log('CDP handler stopped', 'info');
   }
 
   /**
    * Get list of pages from CDP endpoint
    */
-  private async getPages(port: number): Promise<any[]> {
-    return new Promise((resolve, reject) => {
+  private async getPages(port: number): Promise<DebuggerPage[]> {
+    const pages = await this.getJson<DebuggerPage[]>(port, '/json/list');
+    // Filter for pages that look like IDE windows
+    return Array.isArray(pages)
+      ? pages.filter(p => p.webSocketDebuggerUrl && TOP_LEVEL_TARGETS.includes(p.type))
+      : [];
+  }
+
+  /**
+   * Get the browser-level WebSocket URL of a debugging port
+   */
+  private async getBrowserUrl(port: number): Promise<string | null> {
+    const version = await this.getJson<{ webSocketDebuggerUrl?: string }>(port, '/json/version');
+    return version?.webSocketDebuggerUrl || null;
+  }
+
+  private async getJson<T>(port: number, urlPath: string): Promise<T | null> {
+    return new Promise((resolve) => {
       const req = http.get(
-        { hostname: '127.0.0.1', port, path: '/json/list', timeout: 1000 },
+        // No keep-alive: a socket kept from before an IDE restart would fail the request
+        { hostname: '127.0.0.1', port, path: urlPath, timeout: 1000, agent: false },
         (res) => {
           let body = '';
           res.on('data', chunk => body += chunk);
           res.on('end', () => {
             try {
-              const pages = JSON.parse(body);
-              // Filter for pages that look like IDE windows
-              resolve(pages.filter((p: any) =>
-                p.webSocketDebuggerUrl &&
-                (p.type === 'page' || p.type === 'webview')
-              ));
+              resolve(JSON.parse(body));
             } catch (e) {
-              resolve([]);
+              resolve(null);
             }
           });
         }
       );
-      req.on('error', () => resolve([]));
+      req.on('error', () => resolve(null));
       req.on('timeout', () => {
         req.destroy();
-        resolve([]);
+        resolve(null);
       });
     });
   }
 
   /**
-   * Connect to a CDP page via WebSocket
+   * Open the browser-level connection of a port
    */
-  private async connect(id: string, url: string): Promise<boolean> {
+  private async connectBrowser(port: number, url: string): Promise<boolean> {
     return new Promise((resolve) => {
       try {
         const ws = new WebSocket(url);
 
         ws.on('open', () => {
-          this.connections.set(id, { ws, injected: false });
-          this.log(`Connected to page ${id}`, 'success');
+          this.browsers.set(port, { ws });
+          this.log(`Connected to browser on port ${port}`, 'success');
           resolve(true);
         });
 
+        ws.on('message', (data: Buffer) => this.handleMessage(port, data));
+
         ws.on('error', (err: any) => {
-          this.log(`WebSocket error for ${id}: ${err.message}`, 'error');
+          this.log(`WebSocket error on port ${port}: ${err.message}`, 'error');
+          this.emit({ type: 'error', pageId: `${port}`, message: err.message });
           resolve(false);
         });
 
         ws.on('close', () => {
-          this.connections.delete(id);
-          this.log(`Disconnected from page ${id}`, 'info');
+          this.browsers.delete(port);
+          for (const [id, conn] of this.connections) {
+            if (conn.port === port) {
+              this.removeConnection(id);
+            }
+          }
+          this.log(`Disconnected from port ${port}`, 'info');
         });
       } catch (e) {
         resolve(false);
@@ -248,92 +503,390 @@ export class CDPHandler {
   }
 
   /**
-   * Inject auto-accept script into page
+   * Attach to a discovered page (flat session over the browser connection)
+   */
+  private async attach(port: number, targetInfo: TargetInfo): Promise<void> {
+    const id = `${port}:${targetInfo.targetId}`;
+    let attaching = this.attaching.get(id);
+    if (!attaching) {
+      if (this.connections.has(id)) {
+        return;
+      }
+      attaching = (async () => {
+        try {
+          const result = await this.send(port, undefined, 'Target.attachToTarget', {
+            targetId: targetInfo.targetId,
+            flatten: true
+          });
+          if (result?.sessionId) {
+            await this.setupSession(port, result.sessionId, targetInfo, false, id);
+          }
+        } catch (e: any) {
+          this.log(`Failed to attach to ${id}: ${e.message}`, 'error');
+        } finally {
+          this.attaching.delete(id);
+        }
+      })();
+      this.attaching.set(id, attaching);
+    }
+    await attaching;
+  }
+
+  /**
+   * Prepare an attached target: event binding, auto-attach of its iframes and the script
+   * @param waiting - the target is paused until Runtime.runIfWaitingForDebugger (auto-attach)
+   * @param windowId - top-level target it belongs to
+   */
+  private async setupSession(
+    port: number,
+    sessionId: string,
+    targetInfo: TargetInfo,
+    waiting: boolean,
+    windowId: string
+  ): Promise<void> {
+    const id = `${port}:${targetInfo.targetId}`;
+
+    if (!AUTOMATED_TARGETS.includes(targetInfo.type) || this.connections.has(id)) {
+      // Workers and duplicate sessions: let them run and detach
+      try {
+        if (waiting) {
+          await this.send(port, sessionId, 'Runtime.runIfWaitingForDebugger');
+        }
+        await this.send(port, undefined, 'Target.detachFromTarget', { sessionId });
+      } catch (e) {
+        // Target already gone
+      }
+      return;
+    }
+
+    this.connections.set(id, {
+      port,
+      sessionId,
+      targetId: targetInfo.targetId,
+      type: targetInfo.type,
+      title: targetInfo.title,
+      windowId,
+      contexts: new Set(),
+      ready: false,
+      stats: new Map()
+    });
+    this.sessions.set(`${port}:${sessionId}`, id);
+
+    try {
+      // Event channel: the script calls window.__autoRetryEmit(json)
+      // (Runtime.enable also reports the existing execution contexts)
+      await this.sendToTarget(id, 'Runtime.enable');
+      await this.sendToTarget(id, 'Runtime.addBinding', { name: EVENT_BINDING });
+      // Out-of-process iframes are separate targets, paused until they are set up
+      await this.sendToTarget(id, 'Target.setAutoAttach', {
+        autoAttach: true,
+        waitForDebuggerOnStart: true,
+        flatten: true
+      });
+      // A paused target has no document yet - the registered script runs on load
+      await this.inject(id, !waiting);
+      this.log(`Attached to ${targetInfo.type} ${id}`, 'success');
+    } catch (e: any) {
+      this.log(`Setup failed for ${id}: ${e.message}`, 'error');
+    } finally {
+      const conn = this.connections.get(id);
+      if (conn) {
+        conn.ready = true;
+      }
+      if (waiting) {
+        await this.sendToTarget(id, 'Runtime.runIfWaitingForDebugger').catch(() => undefined);
+      }
+    }
+  }
+
+  private removeConnection(id: string): void {
+    const conn = this.connections.get(id);
+    if (conn) {
+      this.sessions.delete(`${conn.port}:${conn.sessionId}`);
+      this.connections.delete(id);
+    }
+  }
+
+  /**
+   * Register the script for every new document of a target and run it in the current one
+   * Does nothing when the target already has the script for the current config.
    */
-  private async inject(id: string, config?: CDPConfig): Promise<void> {
+  private async inject(id: string, runNow = true): Promise<void> {
     const conn = this.connections.get(id);
-    if (!conn) return;
+    if (!conn || !this.isEnabled) return;
+
+    const source = this.getBootstrapScript();
+    if (conn.source === source) return;
 
     try {
-      if (!conn.injected) {
-        // Get the inject script
-        const script = this.getInjectScript();
-        await this.evaluate(id, script);
-        conn.injected = true;
-        this.log(`Script injected into ${id}`, 'success');
+      if (conn.scriptId) {
+        await this.sendToTarget(id, 'Page.removeScriptToEvaluateOnNewDocument', { identifier: conn.scriptId });
       }
+      const result = await this.sendToTarget(id, 'Page.addScriptToEvaluateOnNewDocument', { source });
+      conn.scriptId = result?.identifier;
+      conn.source = source;
 
-      // Start the auto-accept with config
-      const configJson = JSON.stringify(config || {});
-      await this.evaluate(id, `if(window.__autoAcceptStart) window.__autoAcceptStart(${configJson})`);
+      if (runNow) {
+        await this.evaluateAll(id, source);
+      }
+      this.log(`Script injected into ${id}`, 'success');
     } catch (e: any) {
       this.log(`Injection failed for ${id}: ${e.message}`, 'error');
     }
   }
 
   /**
-   * Evaluate JavaScript in the page context
+   * Send a CDP command over a browser connection (to a session when sessionId is set)
    */
-  private async evaluate(id: string, expression: string): Promise<any> {
-    const conn = this.connections.get(id);
-    if (!conn || conn.ws.readyState !== WebSocket.OPEN) return;
+  private async send(
+    port: number,
+    sessionId: string | undefined,
+    method: string,
+    params: Record<string, unknown> = {}
+  ): Promise<CDPResult | undefined> {
+    const browser = this.browsers.get(port);
+    if (!browser || browser.ws.readyState !== WebSocket.OPEN) return;
 
     return new Promise((resolve, reject) => {
       const currentId = this.msgId++;
-      const timeout = setTimeout(() => reject(new Error('CDP Timeout')), 5000);
+      const timeout = setTimeout(() => {
+        this.pending.delete(currentId);
+        reject(new Error('CDP Timeout'));
+      }, COMMAND_TIMEOUT_MS);
 
-      const onMessage = (data: any) => {
-        try {
-          const msg = JSON.parse(data.toString());
-          if (msg.id === currentId) {
-            conn.ws.off('message', onMessage);
-            clearTimeout(timeout);
-            resolve(msg.result);
-          }
-        } catch (e) {
-          // Ignore parse errors
-        }
-      };
-
-      conn.ws.on('message', onMessage);
-      conn.ws.send(JSON.stringify({
-        id: currentId,
-        method: 'Runtime.evaluate',
-        params: {
-          expression,
-          userGesture: true,
-          awaitPromise: true
-        }
-      }));
+      this.pending.set(currentId, { resolve, reject, timeout });
+      browser.ws.send(JSON.stringify({ id: currentId, sessionId, method, params }));
     });
   }
 
   /**
-   * Get stats from all connected pages
+   * Send a CDP command to an attached target
    */
-  async getStats(): Promise<CDPStats> {
-    const stats: CDPStats = { clicks: 0, blocked: 0, fileEdits: 0, terminalCommands: 0 };
+  private async sendToTarget(id: string, method: string, params: Record<string, unknown> = {}): Promise<CDPResult | undefined> {
+    const conn = this.connections.get(id);
+    if (!conn) return;
+    return this.send(conn.port, conn.sessionId, method, params);
+  }
 
-    for (const [id] of this.connections) {
+  /**
+   * Evaluate JavaScript in the page context (the main document unless contextId is set)
+   */
+  private async evaluate(id: string, expression: string, contextId?: number): Promise<CDPResult | undefined> {
+    return this.sendToTarget(id, 'Runtime.evaluate', {
+      expression,
+      contextId,
+      userGesture: true,
+      awaitPromise: true
+    });
+  }
+
+  /**
+   * Evaluate JavaScript in every frame of a target, cross-origin ones included
+   */
+  private async evaluateAll(id: string, expression: string): Promise<void> {
+    const conn = this.connections.get(id);
+    if (!conn) return;
+
+    if (conn.contexts.size === 0) {
+      await this.evaluate(id, expression);
+      return;
+    }
+    for (const contextId of [...conn.contexts]) {
       try {
-        const res = await this.evaluate(id,
-          'JSON.stringify(window.__autoAcceptGetStats ? window.__autoAcceptGetStats() : {})'
-        );
-        if (res?.result?.value) {
-          const s = JSON.parse(res.result.value);
-          stats.clicks += s.clicks || 0;
-          stats.blocked += s.blocked || 0;
-          stats.fileEdits += s.fileEdits || 0;
-          stats.terminalCommands += s.terminalCommands || 0;
+        await this.evaluate(id, expression, contextId);
+      } catch (e: any) {
+        // The frame may have gone away meanwhile
+        this.log(`Evaluation failed in ${id} (context ${contextId}): ${e.message}`, 'warning');
+      }
+    }
+  }
+
+  /**
+   * Dispatch a message from a browser connection: command responses, target and page events
+   */
+  private handleMessage(port: number, data: Buffer): void {
+    let msg: CDPMessage;
+    try {
+      msg = JSON.parse(data.toString());
+    } catch (e) {
+      return; // Ignore parse errors
+    }
+
+    if (msg.id !== undefined) {
+      const pending = this.pending.get(msg.id);
+      if (pending) {
+        this.pending.delete(msg.id);
+        clearTimeout(pending.timeout);
+        if (msg.error) {
+          pending.reject(new Error(msg.error.message || 'CDP error'));
+        } else {
+          pending.resolve(msg.result || {});
         }
-      } catch (e) {
-        // Ignore errors
+      }
+      return;
+    }
+
+    const params: CDPEventParams = msg.params || {};
+    switch (msg.method) {
+      case 'Target.targetCreated':
+        // New IDE window or panel
+        if (this.isEnabled && params.targetInfo && TOP_LEVEL_TARGETS.includes(params.targetInfo.type)) {
+          void this.attach(port, params.targetInfo);
+        }
+        break;
+      case 'Target.targetInfoChanged': {
+        const conn = this.connections.get(`${port}:${params.targetInfo?.targetId}`);
+        if (conn && params.targetInfo) {
+          conn.title = params.targetInfo.title;
+        }
+        break;
+      }
+      case 'Target.attachedToTarget':
+        // Explicit attaches are set up by attach(); only auto-attached targets wait here
+        if (params.waitingForDebugger && params.sessionId && params.targetInfo) {
+          const parent = this.getSessionConnection(port, msg.sessionId);
+          const windowId = parent ? parent.windowId : `${port}:${params.targetInfo.targetId}`;
+          void this.setupSession(port, params.sessionId, params.targetInfo, true, windowId);
+        }
+        break;
+      case 'Target.detachedFromTarget': {
+        const id = this.sessions.get(`${port}:${params.sessionId}`);
+        if (id) {
+          this.removeConnection(id);
+        }
+        break;
+      }
+      case 'Target.targetDestroyed':
+        this.removeConnection(`${port}:${params.targetId}`);
+        break;
+      case 'Runtime.bindingCalled': {
+        const id = this.sessions.get(`${port}:${msg.sessionId}`);
+        if (id && params.name === EVENT_BINDING && params.payload !== undefined) {
+          this.handlePageEvent(id, params.payload, params.executionContextId);
+        }
+        break;
+      }
+      case 'Runtime.executionContextCreated': {
+        const conn = this.getSessionConnection(port, msg.sessionId);
+        if (conn && params.context?.auxData?.isDefault) {
+          conn.contexts.add(params.context.id);
+        }
+        break;
+      }
+      case 'Runtime.executionContextDestroyed': {
+        const conn = this.getSessionConnection(port, msg.sessionId);
+        if (conn && params.executionContextId !== undefined) {
+          conn.contexts.delete(params.executionContextId);
+          conn.stats.delete(params.executionContextId);
+        }
+        break;
+      }
+      case 'Runtime.executionContextsCleared': {
+        const conn = this.getSessionConnection(port, msg.sessionId);
+        if (conn) {
+          conn.contexts.clear();
+          conn.stats.clear();
+        }
+        break;
+      }
+    }
+  }
+
+  private getSessionConnection(port: number, sessionId?: string): CDPConnection | undefined {
+    const id = sessionId ? this.sessions.get(`${port}:${sessionId}`) : undefined;
+    return id ? this.connections.get(id) : undefined;
+  }
+
+  /**
+   * Handle an event pushed by the injected script
+   */
+  private handlePageEvent(id: string, payload: string, contextId = 0): void {
+    const conn = this.connections.get(id);
+    let event: PageMessage;
+    try {
+      event = JSON.parse(payload);
+    } catch (e) {
+      return;
+    }
+    if (!conn || !event?.data) return;
+
+    switch (event.type) {
+      case 'stats':
+        conn.stats.set(contextId, event.data as CDPStats);
+        break;
+      case 'click':
+      case 'block': {
+        const title = this.connections.get(conn.windowId)?.title ?? conn.title;
+        const audit: AuditEvent = { ...(event.data as PageAuditEvent), pageId: id, pageTitle: title };
+        if (this.auditLog) {
+          try {
+            this.auditLog.append([audit]);
+          } catch (e: any) {
+            this.log(`Failed to write audit log: ${e.message}`, 'error');
+          }
+        }
+        this.emit({ type: event.type, pageId: id, audit });
+        break;
+      }
+      case 'notify':
+        this.emit({ type: 'notify', pageId: id, notification: event.data as ButtonNotification });
+        break;
+      case 'exhausted': {
+        const { conversation, retries } = event.data as { conversation: string; retries: number };
+        this.emit({ type: 'exhausted', pageId: id, conversation, retries });
+        break;
+      }
+      case 'stalled': {
+        const { conversation, errorClass, seconds } = event.data as { conversation: string; errorClass: ErrorClass; seconds: number };
+        this.emit({ type: 'stalled', pageId: id, conversation, errorClass, seconds });
+        break;
+      }
+      case 'error':
+        this.emit({ type: 'error', pageId: id, message: String((event.data as { message?: unknown }).message) });
+        break;
+    }
+  }
+
+  private emit(event: CDPEvent): void {
+    for (const listener of this.listeners) {
+      try {
+        listener(event);
+      } catch (e: any) {
+        console.log(`[CDP] Event listener failed: ${e.message}`);
       }
     }
+  }
 
+  /**
+   * Get stats from all connected pages (as last pushed by each frame)
+   */
+  async getStats(): Promise<CDPStats> {
+    const stats = emptyStats();
+    for (const entry of this.getWindowStats()) {
+      addStats(stats, entry.stats);
+    }
     return stats;
   }
 
+  /**
+   * Stats per top-level window, summed over its frames, iframes and webviews
+   */
+  getWindowStats(): WindowStats[] {
+    const windows: Map<string, WindowStats> = new Map();
+    for (const conn of this.connections.values()) {
+      let entry = windows.get(conn.windowId);
+      if (!entry) {
+        const title = this.connections.get(conn.windowId)?.title ?? conn.title;
+        entry = { windowId: conn.windowId, title, stats: emptyStats() };
+        windows.set(conn.windowId, entry);
+      }
+      for (const s of conn.stats.values()) {
+        addStats(entry.stats, s);
+      }
+    }
+    return [...windows.values()];
+  }
+
   /**
    * Reset stats on all connected pages
    */
@@ -342,7 +895,7 @@ export class CDPHandler {
 
     for (const [id] of this.connections) {
       try {
-        await this.evaluate(id, 'if(window.__autoAcceptResetStats) window.__autoAcceptResetStats()');
+        await this.evaluateAll(id, 'if(window.__autoAcceptResetStats) window.__autoAcceptResetStats()');
       } catch (e) {
         // Ignore errors
       }
@@ -352,10 +905,10 @@ export class CDPHandler {
   }
 
   /**
-   * Get number of active connections
+   * Get number of attached windows (their iframes and webviews not counted)
    */
   getConnectionCount(): number {
-    return this.connections.size;
+    return new Set([...this.connections.values()].map(conn => conn.windowId)).size;
   }
 
   /**
@@ -365,6 +918,21 @@ export class CDPHandler {
     return this.isEnabled && this.connections.size > 0;
   }
 
+  /**
+   * Inject script plus the start call with the current config
+   * Registered scripts run before the document is parsed, so the start waits for the DOM.
+   */
+  private getBootstrapScript(): string {
+    const start = `if (window.__autoAcceptStart) window.__autoAcceptStart(${JSON.stringify(this.config)});`;
+    return `${this.getInjectScript()}
+if (document.readyState === 'loading') {
+  document.addEventListener('DOMContentLoaded', function() { ${start} }, { once: true });
+} else {
+  ${start}
+}
+`;
+  }
+
   /**
    * Get the auto-accept inject script
    */
@@ -383,32 +951,111 @@ export class CDPHandler {
     clicks: 0,
     blocked: 0,
     fileEdits: 0,
-    terminalCommands: 0
+    terminalCommands: 0,
+    errors: {}
   };
 
   // Config
   let config = {
     pollInterval: 1000,
-    bannedCommands: [
-      'rm -rf /',
-      'rm -rf ~',
-      'rm -rf *',
-      'format c:',
-      'del /f /s /q',
-      'rmdir /s /q',
-      ':(){:|:&};:',
-      'dd if=',
-      'mkfs.',
-      '> /dev/sda',
-      'chmod -R 777 /'
-    ]
+    maxRetries: 50,
+    cooldownSeconds: 5,
+    bannedCommands: ${JSON.stringify(DEFAULT_BANNED_COMMANDS)},
+    allowedCommands: [],
+    rules: ${JSON.stringify(DEFAULT_BUTTON_RULES)},
+    errorPolicies: ${JSON.stringify(DEFAULT_ERROR_POLICIES)},
+    stallSeconds: 900
   };
 
   let isProcessing = false;
+  let running = false;
   let pollTimer = null;
+  // Observers of the document and its iframes, disconnected on stop and before a restart
+  let observers = [];
+
+  const MAX_SNAPSHOT_LENGTH = 500;
+  let notified = new WeakSet();
+  // The observer fires before the DOM settles - never click the same button twice in a row
+  const clickedAt = new WeakMap();
+  const blockedButtons = new WeakSet();
+  const stalledButtons = new WeakSet();
+  const CLICK_GUARD_MS = 2000;
+
+  const TERMINAL_SELECTOR = '.terminal-command, .code-block, [class*="command"], [class*="terminal"]';
+  const FILE_EDIT_SELECTOR = '[class*="diff"], [class*="file-edit"], [class*="file-change"], [data-file-path]';
+
+  // Per-conversation retry budget: key -> { count, lastClick, lastError, exhausted }
+  let retries = {};
+  const MAX_BACKOFF_MS = 10 * 60 * 1000;
+  // A conversation without errors for this long gets a fresh budget
+  const BUDGET_RESET_MS = 5 * 60 * 1000;
+
+  // Push an event to the extension (binding added with Runtime.addBinding)
+  function emit(type, data) {
+    try {
+      const binding = window[${JSON.stringify(EVENT_BINDING)}];
+      if (typeof binding === 'function') binding(JSON.stringify({ type, data }));
+    } catch (e) {
+      // Extension not listening
+    }
+  }
+
+  function emitStats() {
+    emit('stats', window.__autoAcceptGetStats());
+  }
 
-  // Only click Retry button - not Accept/Apply/Continue
-  const RETRY_PATTERN = 'Retry';
+  // Identify the conversation a Retry button belongs to
+  function getConversationKey(element) {
+    const attrs = ['data-conversation-id', 'data-conversationid', 'data-thread-id', 'data-session-id'];
+    for (let el = element; el; el = el.parentElement) {
+      for (const attr of attrs) {
+        const value = el.getAttribute && el.getAttribute(attr);
+        if (value) return value;
+      }
+    }
+    // One conversation per window/panel otherwise
+    const doc = element.ownerDocument || document;
+    return doc.title || 'conversation';
+  }
+
+  // Check the budget and backoff of a conversation, recording the click if allowed
+  function takeRetry(key) {
+    const now = Date.now();
+    const state = retries[key] || (retries[key] = { count: 0, lastClick: 0, lastError: now, exhausted: false });
+    state.lastError = now;
+
+    if (state.exhausted) return false;
+    if (state.count >= config.maxRetries) {
+      state.exhausted = true;
+      console.log('[Auto Retry] ⛔ Retry budget exhausted for ' + key + ' (' + state.count + ' retries)');
+      emit('exhausted', { conversation: key, retries: state.count });
+      emitStats();
+      return false;
+    }
+
+    const backoff = state.count === 0
+      ? 0
+      : Math.min(config.cooldownSeconds * 1000 * Math.pow(2, state.count - 1), MAX_BACKOFF_MS);
+    if (now - state.lastClick < backoff) return false;
+
+    state.count++;
+    state.lastClick = now;
+    return true;
+  }
+
+  // Forget conversations that recovered
+  function pruneRetries() {
+    const now = Date.now();
+    for (const key of Object.keys(retries)) {
+      if (now - retries[key].lastError > BUDGET_RESET_MS) {
+        delete retries[key];
+      }
+    }
+  }
+
+  // Same classifier as ErrorClassifier (tested in the extension)
+  const classifyError = ${classifyError.toString()};
+  const parseResetDelay = ${parseResetDelay.toString()};
 
   // Check if element is in an error context
   function isErrorContext(element) {
@@ -421,7 +1068,8 @@ export class CDPHandler {
           text.includes('failed') || text.includes('Failed') ||
           text.includes('terminated') || text.includes('Agent terminated') ||
           text.includes('Dismiss') ||
-          className.includes('error') || className.includes('alert')) {
+          className.includes('error') || className.includes('alert') ||
+          classifyError(text) !== 'unknown') {
         return true;
       }
       el = el.parentElement;
@@ -429,70 +1077,222 @@ export class CDPHandler {
     return false;
   }
 
-  // Check if command is dangerous
-  function isDangerousCommand(text) {
-    const lowerText = text.toLowerCase();
-    return config.bannedCommands.some(cmd => 
-      lowerText.includes(cmd.toLowerCase())
-    );
+  // Error message around a button (same search as isErrorContext)
+  function findErrorText(element) {
+    let el = element;
+    for (let i = 0; i < 5 && el; i++) {
+      const text = el.textContent || '';
+      if ((/error|failed|terminated/i.test(text) || classifyError(text) !== 'unknown') &&
+        text.trim() !== (element.textContent || '').trim()) {
+        return text.trim().replace(/\s+/g, ' ');
+      }
+      el = el.parentElement;
+    }
+    return undefined;
+  }
+
+  function getErrorText(element) {
+    const text = findErrorText(element);
+    return text ? text.slice(0, MAX_SNAPSHOT_LENGTH) : undefined;
+  }
+
+  // Error class, policy and wait of each Retry button, decided when it first shows up
+  const errorStates = new WeakMap();
+
+  function getErrorState(element) {
+    let state = errorStates.get(element);
+    if (state) return state;
+
+    const text = findErrorText(element) || '';
+    const errorClass = classifyError(text);
+    const policy = (config.errorPolicies || {})[errorClass] || { action: 'retry' };
+    let delay = 0;
+    if (policy.action === 'wait') {
+      delay = (policy.seconds || 0) * 1000;
+    } else if (policy.action === 'waitForReset') {
+      const reset = parseResetDelay(text, Date.now());
+      delay = reset !== null ? reset : (policy.seconds || 0) * 1000;
+    }
+
+    state = { errorClass, policy, since: Date.now(), delay };
+    errorStates.set(element, state);
+    stats.errors[errorClass] = (stats.errors[errorClass] || 0) + 1;
+    console.log('[Auto Retry] Error classified as ' + errorClass + ' (' + policy.action +
+      (delay ? ', ' + Math.round(delay / 1000) + 's' : '') + ')');
+    emitStats();
+    return state;
+  }
+
+  function recordEvent(type, element, rule, extra) {
+    emit(type, {
+      timestamp: new Date().toISOString(),
+      type,
+      button: (element.textContent || '').trim(),
+      context: rule.context,
+      conversation: getConversationKey(element),
+      errorText: getErrorText(element),
+      ...extra
+    });
+  }
+
+  // Check if a button sits in the context a rule requires
+  function matchesContext(element, context) {
+    switch (context) {
+      case 'error': return isErrorContext(element);
+      case 'terminal': return !!element.closest(TERMINAL_SELECTOR);
+      case 'fileEdit': return !!element.closest(FILE_EDIT_SELECTOR);
+      default: return true;
+    }
+  }
+
+  function matchesLabel(text, rule) {
+    if (!rule.regex) return text === rule.label;
+    try {
+      return new RegExp(rule.label).test(text);
+    } catch (e) {
+      return false;
+    }
+  }
+
+  // First rule whose label and context match wins
+  function findRule(element, text) {
+    return (config.rules || []).find(rule => matchesLabel(text, rule) && matchesContext(element, rule.context));
+  }
+
+  // Same matcher as CommandPolicy.evaluateCommandPolicy (tested in the extension)
+  const evaluateCommandPolicy = ${evaluateCommandPolicy.toString()};
+
+  // Banned pattern matching a command, null if the command may run
+  // Command next to a button: the container's text without its buttons, whose labels
+  // are not part of the command (an allowed entry must equal the whole command)
+  function getCommandText(container) {
+    const copy = container.cloneNode(true);
+    for (const button of copy.querySelectorAll('button, [role="button"]')) {
+      button.remove();
+    }
+    return (copy.textContent || '').trim();
+  }
+
+  function findBannedPattern(text) {
+    const result = evaluateCommandPolicy(text, config.bannedCommands, config.allowedCommands);
+    return result.allowed ? null : result.pattern;
+  }
+
+  // Document of a same-origin iframe that does not run the script itself.
+  // Cross-origin frames (and frames the extension injected into) have their own copy,
+  // so scanning them from here too would click their buttons twice.
+  function getFrameDocument(iframe) {
+    try {
+      if (iframe.contentWindow && iframe.contentWindow.__autoRetryLoaded) return null;
+      return iframe.contentDocument || iframe.contentWindow?.document || null;
+    } catch (e) {
+      return null; // Cross-origin
+    }
   }
 
   // Find and click Retry buttons
   function findAndClickButtons() {
-    if (isProcessing) return;
+    // Debounced observer callbacks can still fire after a stop
+    if (!running || isProcessing) return;
     isProcessing = true;
 
     try {
+      pruneRetries();
+
       // Search in main document
       clickButtonsInDocument(document);
 
-      // Search in iframes
+      // Search in iframes without their own copy of this script
       const iframes = document.querySelectorAll('iframe');
       for (const iframe of iframes) {
-        try {
-          const iframeDoc = iframe.contentDocument || iframe.contentWindow?.document;
-          if (iframeDoc) {
-            clickButtonsInDocument(iframeDoc);
-          }
-        } catch (e) {
-          // Cross-origin iframe, skip
+        const iframeDoc = getFrameDocument(iframe);
+        if (iframeDoc) {
+          clickButtonsInDocument(iframeDoc);
         }
       }
     } catch (e) {
       console.error('[Auto Retry] Error:', e);
+      emit('error', { message: String((e && e.message) || e) });
     }
 
     isProcessing = false;
   }
 
-  // Click Retry buttons in a document (only when in error context)
+  // Apply the button rules to a document
   function clickButtonsInDocument(doc) {
     const buttons = doc.querySelectorAll('button, [role="button"]');
     
     for (const btn of buttons) {
       const text = btn.textContent?.trim() || '';
-      
-      // Only click Retry button
-      if (text !== RETRY_PATTERN) continue;
-      
-      // Only click if it's in an error context
-      if (!isErrorContext(btn)) {
+      if (!text) continue;
+
+      const rule = findRule(btn, text);
+      if (!rule || rule.action === 'skip') continue;
+
+      if (rule.action === 'notify') {
+        if (!notified.has(btn)) {
+          notified.add(btn);
+          emit('notify', { label: text, context: rule.context });
+        }
         continue;
       }
 
+      if (Date.now() - (clickedAt.get(btn) || 0) < CLICK_GUARD_MS) continue;
+
       // Check for dangerous commands in nearby context
-      const context = btn.closest('.terminal-command, .code-block, [class*="command"]');
-      if (context && isDangerousCommand(context.textContent || '')) {
-        console.log('[Auto Retry] ⚠️ Blocked dangerous command!');
-        stats.blocked++;
+      const context = btn.closest(TERMINAL_SELECTOR);
+      const commandText = context ? getCommandText(context) : '';
+      const command = commandText ? commandText.slice(0, MAX_SNAPSHOT_LENGTH) : undefined;
+      const bannedPattern = commandText ? findBannedPattern(commandText) : null;
+      if (bannedPattern) {
+        // Count and report each blocked button once, not on every scan
+        if (!blockedButtons.has(btn)) {
+          blockedButtons.add(btn);
+          console.log('[Auto Retry] ⚠️ Blocked dangerous command!');
+          stats.blocked++;
+          recordEvent('block', btn, rule, { command, pattern: bannedPattern });
+          emitStats();
+        }
         continue;
       }
 
+      // Each kind of error has its own policy: now, after a wait, at quota reset or never
+      let errorClass;
+      if (rule.context === 'error') {
+        const errorState = getErrorState(btn);
+        errorClass = errorState.errorClass;
+        const shownFor = Date.now() - errorState.since;
+        if (config.stallSeconds > 0 && shownFor >= config.stallSeconds * 1000 && !stalledButtons.has(btn)) {
+          stalledButtons.add(btn);
+          console.log('[Auto Retry] Error still on screen after ' + Math.round(shownFor / 1000) + 's');
+          emit('stalled', { conversation: getConversationKey(btn), errorClass, seconds: Math.round(shownFor / 1000) });
+        }
+        if (errorState.policy.action === 'notify') {
+          if (!notified.has(btn)) {
+            notified.add(btn);
+            emit('notify', { label: text, context: rule.context, errorClass });
+          }
+          continue;
+        }
+        if (Date.now() - errorState.since < errorState.delay) continue;
+      }
+
+      // Retries respect cooldown, backoff and the per-conversation cap
+      const key = getConversationKey(btn);
+      if (rule.context === 'error' && !takeRetry(key)) continue;
+
       // Click the button
       btn.click();
+      clickedAt.set(btn, Date.now());
       stats.clicks++;
-
-      console.log('[Auto Retry] ✅ Clicked Retry! (Total: ' + stats.clicks + ')');
+      recordEvent('click', btn, rule, { command, errorClass });
+      if (rule.context === 'terminal') stats.terminalCommands++;
+      if (rule.context === 'fileEdit') stats.fileEdits++;
+      emitStats();
+
+      console.log('[Auto Retry] ✅ Clicked ' + text + '! (' +
+        (rule.context === 'error' ? errorClass + ', ' + key + ': ' + retries[key].count + '/' + config.maxRetries + ', ' : '') +
+        'Total: ' + stats.clicks + ')');
     }
   }
 
@@ -508,6 +1308,7 @@ export class CDPHandler {
         childList: true,
         subtree: true
       });
+      observers.push(observer);
 
       console.log('[Auto Retry] Observer started on document');
     } catch (e) {
@@ -515,52 +1316,65 @@ export class CDPHandler {
     }
   }
 
+  function disconnectObservers() {
+    observers.forEach(observer => observer.disconnect());
+    observers = [];
+  }
+
   // Start the auto-accept
   window.__autoAcceptStart = function(userConfig) {
     if (userConfig) {
       config = { ...config, ...userConfig };
     }
+    running = true;
 
     // Initial scan
     findAndClickButtons();
 
-    // Setup observer
+    // Setup observer (replacing the ones of a previous start)
+    disconnectObservers();
     setupObserver(document);
 
     // Setup observers for iframes
     document.querySelectorAll('iframe').forEach(iframe => {
-      try {
-        const iframeDoc = iframe.contentDocument || iframe.contentWindow?.document;
-        if (iframeDoc?.body) {
-          setupObserver(iframeDoc);
-        }
-      } catch (e) {}
+      const iframeDoc = getFrameDocument(iframe);
+      if (iframeDoc?.body) {
+        setupObserver(iframeDoc);
+      }
     });
 
     // Polling fallback
     if (pollTimer) clearInterval(pollTimer);
     pollTimer = setInterval(findAndClickButtons, config.pollInterval);
 
+    emitStats();
     console.log('[Auto Retry] ✅ Started with interval: ' + config.pollInterval + 'ms');
   };
 
   // Stop the auto-accept
   window.__autoAcceptStop = function() {
+    running = false;
+    disconnectObservers();
     if (pollTimer) {
       clearInterval(pollTimer);
       pollTimer = null;
     }
+    retries = {};
+    emitStats();
     console.log('[Auto Retry] Stopped');
   };
 
   // Get stats
   window.__autoAcceptGetStats = function() {
-    return stats;
+    const exhausted = Object.keys(retries).filter(key => retries[key].exhausted);
+    return { ...stats, exhausted };
   };
 
-  // Reset stats
+  // Reset stats (and give every conversation a fresh retry budget)
   window.__autoAcceptResetStats = function() {
-    stats = { clicks: 0, blocked: 0, fileEdits: 0, terminalCommands: 0 };
+    stats = { clicks: 0, blocked: 0, fileEdits: 0, terminalCommands: 0, errors: {} };
+    retries = {};
+    emitStats();
   };
 
   console.log('[Auto Retry] ✅ Loaded! Ready to auto-click Retry button on errors.');
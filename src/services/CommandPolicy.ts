@@ -0,0 +1,111 @@
+/**
+ * CommandPolicy - Decides whether Auto Retry may click a button next to a terminal command
+ *
+ * The matcher is injected into the IDE page as source (see CDPHandler.getInjectScript),
+ * so evaluateCommandPolicy must stay self-contained: no imports, no module-level
+ * references, plain JavaScript only.
+ *
+ * Pattern syntax (banned and allowed lists):
+ * - `/regex/flags`  regular expression, searched anywhere in the command
+ * - `glob:pattern`  glob matched against the whole command (`*` any text up to a command
+ *                   separator such as `;`, `&&` or `|`, `?` one character)
+ * - anything else   case-insensitive substring (banned) or the whole command (allowed)
+ *
+ * Allowed patterns lift bans, so a plain allowed entry must equal the command:
+ * allowing `npm test` must not allow `npm test && rm -rf /`.
+ */
+
+export const DEFAULT_BANNED_COMMANDS = [
+  'rm -rf /',
+  'rm -rf ~',
+  'rm -rf *',
+  'format c:',
+  'del /f /s /q',
+  'rmdir /s /q',
+  ':(){:|:&};:',
+  'dd if=',
+  'mkfs.',
+  '> /dev/sda',
+  'chmod -R 777 /'
+];
+
+export interface CommandPolicySettings {
+  /** Defaults merged with the bannedCommands setting */
+  bannedCommands: string[];
+  allowedCommands: string[];
+}
+
+export interface CommandPolicyResult {
+  allowed: boolean;
+  /** Pattern that decided the result (null when nothing matched) */
+  pattern: string | null;
+}
+
+/**
+ * Merge user patterns with the defaults (defaults can only be lifted via allowedCommands)
+ */
+export function buildBannedCommands(userPatterns: string[]): string[] {
+  const patterns = [...DEFAULT_BANNED_COMMANDS];
+  for (const pattern of userPatterns) {
+    if (typeof pattern === 'string' && pattern.trim() && !patterns.includes(pattern.trim())) {
+      patterns.push(pattern.trim());
+    }
+  }
+  return patterns;
+}
+
+/**
+ * Banned and allowed patterns from the antigravitySync settings
+ * Auto Retry passes them to the injected script, the Test Command Policy command
+ * checks against them.
+ */
+export function readCommandPolicy(config: { get<T>(section: string, defaultValue: T): T }): CommandPolicySettings {
+  return {
+    bannedCommands: buildBannedCommands(config.get<string[]>('bannedCommands', [])),
+    allowedCommands: config.get<string[]>('allowedCommands', []).filter(p => typeof p === 'string' && p.trim())
+  };
+}
+
+/**
+ * Check a command against banned and allowed patterns
+ * An allowed pattern wins over a banned one. Invalid regexes never match.
+ */
+/* istanbul ignore next -- injected via toString(), coverage counters would break it */
+export function evaluateCommandPolicy(
+  command: string,
+  bannedCommands: string[],
+  allowedCommands: string[]
+): CommandPolicyResult {
+  function matches(text: string, pattern: string, whole: boolean): boolean {
+    const regex = /^\/(.+)\/([a-z]*)$/.exec(pattern);
+    if (regex) {
+      try {
+        return new RegExp(regex[1], regex[2]).test(text);
+      } catch (e) {
+        return false;
+      }
+    }
+    if (pattern.indexOf('glob:') === 0) {
+      const source = pattern.slice(5).trim()
+        .replace(/[.+^${}()|[\]\\]/g, '\\$&')
+        .replace(/\*/g, '[^;&|`\\n]*')
+        .replace(/\?/g, '[^;&|`\\n]');
+      return new RegExp('^' + source + '$', 'i').test(text.trim());
+    }
+    return whole
+      ? text.trim().toLowerCase() === pattern.trim().toLowerCase()
+      : text.toLowerCase().indexOf(pattern.toLowerCase()) !== -1;
+  }
+
+  for (const pattern of allowedCommands || []) {
+    if (matches(command, pattern, true)) {
+      return { allowed: true, pattern };
+    }
+  }
+  for (const pattern of bannedCommands || []) {
+    if (matches(command, pattern, false)) {
+      return { allowed: false, pattern };
+    }
+  }
+  return { allowed: true, pattern: null };
+}
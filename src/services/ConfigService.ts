@@ -7,15 +7,64 @@ import * as path from 'path';
 import { exec } from 'child_process';
 import { promisify } from 'util';
 import * as fs from 'fs';
+import { SecretAction } from './SecretScanner';
+import { SYNC_BACKENDS, SyncBackendKind } from './SyncBackend';
+import { S3Credentials, S3Location } from './S3Backend';
+import { BackupRetention } from './BackupService';
 
 const execAsync = promisify(exec);
 
+// Top-level folders of the context folder that are synced by default
+export const DEFAULT_SYNC_FOLDERS = ['knowledge', 'brain', 'conversations'];
+
+export interface BranchConfig {
+  /** Shared branch all machines merge into ('' = remote default branch) */
+  name: string;
+  /** Commit to machine/<hostname> and merge into the shared branch */
+  perMachine: boolean;
+}
+
+/** How git authenticates to the remote: HTTPS access token or SSH key */
+export type AuthMode = 'token' | 'ssh';
+
+export type GitAuth =
+  | { mode: 'token'; token: string }
+  /** keyPath '' = ssh-agent / default keys */
+  | { mode: 'ssh'; keyPath: string };
+
+export interface PathMapping {
+  /** Workspace path as stored in the sync repo (e.g. /Users/alice/src) */
+  remote: string;
+  /** The same workspace on this machine (e.g. /home/alice/code) */
+  local: string;
+}
+
 export interface SyncConfig {
+  /** Where the sync folder is stored: Git remote, plain folder or S3 bucket */
+  backend: SyncBackendKind;
   repositoryUrl: string;
+  authMode: AuthMode;
+  /** Private key used in ssh mode ('' = ssh-agent / default keys) */
+  sshKeyPath: string;
+  /** Sync folder of the folder backend */
+  folderPath: string;
+  /** Bucket of the s3 backend (keys are in SecretStorage) */
+  s3: S3Location;
   autoSync: boolean;
   syncIntervalMinutes: number;
+  pushDebounceSeconds: number;
   excludePatterns: string[];
   geminiPath: string;
+  syncFolders: string[];
+  branch: BranchConfig;
+  /** Encrypt files before they are committed to the sync repo */
+  encryption: boolean;
+  /** What to do with files containing secrets */
+  secretScanning: SecretAction;
+  /** Workspace path prefixes rewritten between machines */
+  pathMappings: PathMapping[];
+  /** How long local backups taken before a pull are kept */
+  backup: BackupRetention;
 }
 
 export class ConfigService {
@@ -30,25 +79,104 @@ export class ConfigService {
    */
   getConfig(): SyncConfig {
     const config = vscode.workspace.getConfiguration('antigravitySync');
+    const backend = config.get<SyncBackendKind>('backend', 'git');
     return {
+      backend: SYNC_BACKENDS.includes(backend) ? backend : 'git',
       repositoryUrl: config.get<string>('repositoryUrl', ''),
+      authMode: config.get<AuthMode>('authMode', 'token') === 'ssh' ? 'ssh' : 'token',
+      sshKeyPath: this.expandHome(config.get<string>('sshKeyPath', '').trim()),
+      folderPath: this.expandHome(config.get<string>('folderPath', '').trim()),
+      s3: {
+        endpoint: config.get<string>('s3Endpoint', '').trim().replace(/\/+$/, ''),
+        region: config.get<string>('s3Region', '').trim() || 'us-east-1',
+        bucket: config.get<string>('s3Bucket', '').trim(),
+        prefix: config.get<string>('s3Prefix', '').trim()
+      },
       autoSync: config.get<boolean>('autoSync', true),
       syncIntervalMinutes: config.get<number>('syncIntervalMinutes', 5),
+      pushDebounceSeconds: config.get<number>('pushDebounceSeconds', 30),
       excludePatterns: config.get<string[]>('excludePatterns', []),
-      geminiPath: config.get<string>('geminiPath', '') || this.getDefaultGeminiPath()
+      geminiPath: config.get<string>('geminiPath', '') || this.getDefaultGeminiPath(),
+      syncFolders: config.get<string[]>('syncFolders', DEFAULT_SYNC_FOLDERS),
+      branch: {
+        name: config.get<string>('branch', '').trim(),
+        perMachine: config.get<boolean>('perMachineBranch', false)
+      },
+      encryption: config.get<boolean>('encryption', false),
+      secretScanning: config.get<SecretAction>('secretScanning', 'quarantine'),
+      pathMappings: this.normalizePathMappings(config.get<PathMapping[]>('pathMappings', [])),
+      backup: {
+        maxCount: Math.max(0, config.get<number>('backupMaxCount', 10)),
+        maxAgeDays: Math.max(0, config.get<number>('backupMaxAgeDays', 30))
+      }
     };
   }
 
+  /**
+   * Drop incomplete entries and trailing slashes (/home/a/code/ -> /home/a/code)
+   */
+  private normalizePathMappings(mappings: PathMapping[]): PathMapping[] {
+    const trim = (p: unknown) => typeof p === 'string' ? p.trim().replace(/(?<=.)[\\/]+$/, '') : '';
+    return (Array.isArray(mappings) ? mappings : [])
+      .map(m => ({ remote: trim(m?.remote), local: trim(m?.local) }))
+      .filter(m => m.remote && m.local && m.remote !== m.local);
+  }
+
+  /**
+   * ~/.ssh/id_ed25519 -> /home/alice/.ssh/id_ed25519
+   */
+  expandHome(p: string): string {
+    return p === '~' || p.startsWith('~/') || p.startsWith('~\\') ? path.join(os.homedir(), p.slice(1)) : p;
+  }
+
   /**
    * Check if extension is configured
    */
   async isConfigured(): Promise<boolean> {
+    const config = this.getConfig();
+    switch (config.backend) {
+      case 'folder':
+        return !!config.folderPath;
+      case 's3':
+        return !!(config.s3.bucket && await this.getS3Credentials());
+      default:
+        return !!(await this.getGitAuth());
+    }
+  }
+
+  /**
+   * Where the configured backend stores the sync folder ('' = not set)
+   * Also keys the secrets of that location (encryption key, S3 credentials).
+   */
+  getBackendLocation(config: SyncConfig = this.getConfig()): string {
+    switch (config.backend) {
+      case 'folder':
+        return config.folderPath;
+      case 's3': {
+        if (!config.s3.bucket) {
+          return '';
+        }
+        const prefix = config.s3.prefix.replace(/^\/+|\/+$/g, '');
+        return `${config.s3.endpoint ? `${config.s3.endpoint}/` : 's3://'}${config.s3.bucket}/${prefix}`;
+      }
+      default:
+        return config.repositoryUrl;
+    }
+  }
+
+  /**
+   * Credentials for the configured auth mode (undefined = not configured)
+   */
+  async getGitAuth(): Promise<GitAuth | undefined> {
     const config = this.getConfig();
     if (!config.repositoryUrl) {
-      return false;
+      return undefined;
     }
-    const pat = await this.getCredentials();
-    return !!pat;
+    if (config.authMode === 'ssh') {
+      return { mode: 'ssh', keyPath: config.sshKeyPath };
+    }
+    const token = await this.getCredentials();
+    return token ? { mode: 'token', token } : undefined;
   }
 
   /**
@@ -65,6 +193,29 @@ export class ConfigService {
     return path.join(os.homedir(), '.gemini-sync-repo');
   }
 
+  /**
+   * Get the per-machine sync state path (manifest, journals...)
+   * Lives inside .git so it is never committed and is reset on disconnect
+   */
+  getSyncStatePath(): string {
+    return path.join(this.getSyncRepoPath(), '.git', 'antigravity-sync');
+  }
+
+  /**
+   * Get the extension's global storage path (logs that are not part of the sync repo)
+   */
+  getGlobalStoragePath(): string {
+    return this.context.globalStorageUri.fsPath;
+  }
+
+  /**
+   * Get the path of local backups taken before a pull
+   * Outside the sync repo, so backups survive a disconnect.
+   */
+  getBackupPath(): string {
+    return path.join(this.getGlobalStoragePath(), 'backups');
+  }
+
   /**
    * Save Git access token using Git credential manager
    * This stores credentials in the system's secure credential store
@@ -98,6 +249,81 @@ export class ConfigService {
     }
   }
 
+  /**
+   * Save S3 access keys in SecretStorage (per bucket and prefix)
+   */
+  async saveS3Credentials(credentials: S3Credentials): Promise<void> {
+    const location = this.getBackendLocation();
+    if (this.getConfig().backend !== 's3' || !location) {
+      throw new Error('S3 bucket must be set before saving credentials');
+    }
+    await this.context.secrets.store(`antigravitySync.s3Credentials:${location}`, JSON.stringify(credentials));
+  }
+
+  /**
+   * Get S3 access keys from SecretStorage
+   */
+  async getS3Credentials(): Promise<S3Credentials | undefined> {
+    const location = this.getBackendLocation();
+    if (this.getConfig().backend !== 's3' || !location) {
+      return undefined;
+    }
+    const value = await this.context.secrets.get(`antigravitySync.s3Credentials:${location}`);
+    return value ? JSON.parse(value) as S3Credentials : undefined;
+  }
+
+  /**
+   * Delete S3 access keys from SecretStorage
+   */
+  async deleteS3Credentials(): Promise<void> {
+    const location = this.getBackendLocation();
+    if (this.getConfig().backend === 's3' && location) {
+      await this.context.secrets.delete(`antigravitySync.s3Credentials:${location}`);
+    }
+  }
+
+  /**
+   * SecretStorage key for the encryption key of the current sync location
+   * (for git the repository URL, as before other backends existed)
+   */
+  private getEncryptionSecretKey(): string | undefined {
+    const location = this.getBackendLocation();
+    return location ? `antigravitySync.encryptionKey:${location}` : undefined;
+  }
+
+  /**
+   * Save the derived encryption key in SecretStorage (never the passphrase)
+   */
+  async saveEncryptionKey(key: Buffer): Promise<void> {
+    const secretKey = this.getEncryptionSecretKey();
+    if (!secretKey) {
+      throw new Error('Sync location must be set before setting an encryption passphrase');
+    }
+    await this.context.secrets.store(secretKey, key.toString('base64'));
+  }
+
+  /**
+   * Get the derived encryption key from SecretStorage
+   */
+  async getEncryptionKey(): Promise<Buffer | undefined> {
+    const secretKey = this.getEncryptionSecretKey();
+    if (!secretKey) {
+      return undefined;
+    }
+    const value = await this.context.secrets.get(secretKey);
+    return value ? Buffer.from(value, 'base64') : undefined;
+  }
+
+  /**
+   * Delete the encryption key from SecretStorage
+   */
+  async deleteEncryptionKey(): Promise<void> {
+    const secretKey = this.getEncryptionSecretKey();
+    if (secretKey) {
+      await this.context.secrets.delete(secretKey);
+    }
+  }
+
   /**
    * Store credentials in Git credential manager (per-repository)
    */
@@ -335,6 +561,40 @@ export class ConfigService {
       .update('repositoryUrl', url, vscode.ConfigurationTarget.Global);
   }
 
+  /**
+   * Select the storage backend and its location
+   */
+  async setBackend(backend: SyncBackendKind, options: { folderPath?: string; s3?: S3Location } = {}): Promise<void> {
+    const config = vscode.workspace.getConfiguration('antigravitySync');
+    await config.update('backend', backend, vscode.ConfigurationTarget.Global);
+    if (options.folderPath !== undefined) {
+      await config.update('folderPath', options.folderPath, vscode.ConfigurationTarget.Global);
+    }
+    if (options.s3) {
+      await config.update('s3Endpoint', options.s3.endpoint, vscode.ConfigurationTarget.Global);
+      await config.update('s3Region', options.s3.region, vscode.ConfigurationTarget.Global);
+      await config.update('s3Bucket', options.s3.bucket, vscode.ConfigurationTarget.Global);
+      await config.update('s3Prefix', options.s3.prefix, vscode.ConfigurationTarget.Global);
+    }
+  }
+
+  /**
+   * Set auth mode and, for ssh, the private key ('' = ssh-agent / default keys)
+   */
+  async setAuth(mode: AuthMode, sshKeyPath = ''): Promise<void> {
+    const config = vscode.workspace.getConfiguration('antigravitySync');
+    await config.update('authMode', mode, vscode.ConfigurationTarget.Global);
+    await config.update('sshKeyPath', mode === 'ssh' ? sshKeyPath : '', vscode.ConfigurationTarget.Global);
+  }
+
+  /**
+   * Enable or disable encryption
+   */
+  async setEncryptionEnabled(enabled: boolean): Promise<void> {
+    await vscode.workspace.getConfiguration('antigravitySync')
+      .update('encryption', enabled, vscode.ConfigurationTarget.Global);
+  }
+
   /**
    * Parse repository URL to get owner and repo name
    */
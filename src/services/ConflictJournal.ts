@@ -0,0 +1,189 @@
+/**
+ * ConflictJournal - Persistent record of every Smart Merge decision
+ *
+ * Each record keeps the git blob of both versions, so a decision can be
+ * flipped or the losing version restored later from the dashboard. Versions
+ * that only exist on this machine are copied next to the journal, because an
+ * unreferenced git blob is pruned by `git gc`.
+ */
+import * as fs from 'fs';
+import * as path from 'path';
+
+export type ConflictSide = 'local' | 'remote';
+export type ConflictChoice = ConflictSide | 'merged';
+export type ConflictRule =
+  | 'larger'
+  | 'newer'
+  | 'three-way-merge'
+  | 'three-way-overlap'
+  | 'more-messages'
+  | 'later-message'
+  | 'conversation-union';
+
+export interface ConflictVersion {
+  size: number;
+  mtime: string;
+  /** Git blob hash of this version (null if the file did not exist on that side) */
+  blob: string | null;
+}
+
+export interface ConflictRecord {
+  id: string;
+  file: string;
+  resolvedAt: string;
+  local: ConflictVersion;
+  remote: ConflictVersion;
+  chosen: ConflictChoice;
+  rule: ConflictRule;
+  /** Text merge kept for review (conflict markers, or a JSON merge that does not parse) */
+  conflictPath?: string;
+  reviewed: boolean;
+  /** Set when the user flipped the automatic decision */
+  flipped?: boolean;
+}
+
+interface JournalFile {
+  version: number;
+  records: ConflictRecord[];
+}
+
+const JOURNAL_VERSION = 1;
+const MAX_RECORDS = 200;
+
+export class ConflictJournal {
+  private journalPath: string;
+  private versionsPath: string;
+  private records: ConflictRecord[];
+
+  constructor(statePath: string) {
+    this.journalPath = path.join(statePath, 'conflict-journal.json');
+    this.versionsPath = path.join(statePath, 'conflict-versions');
+    this.records = this.load();
+  }
+
+  /**
+   * Load journal from disk
+   */
+  private load(): ConflictRecord[] {
+    if (!fs.existsSync(this.journalPath)) {
+      return [];
+    }
+
+    try {
+      const content = JSON.parse(fs.readFileSync(this.journalPath, 'utf-8')) as JournalFile;
+      return Array.isArray(content.records) ? content.records : [];
+    } catch {
+      return [];
+    }
+  }
+
+  /**
+   * Persist journal to disk (oldest records are dropped past MAX_RECORDS)
+   */
+  private save(): void {
+    const dir = path.dirname(this.journalPath);
+    if (!fs.existsSync(dir)) {
+      fs.mkdirSync(dir, { recursive: true });
+    }
+
+    this.records = this.records.slice(-MAX_RECORDS);
+    const content: JournalFile = { version: JOURNAL_VERSION, records: this.records };
+    fs.writeFileSync(this.journalPath, JSON.stringify(content, null, 2));
+    this.pruneVersions();
+  }
+
+  /**
+   * Remove copies no record refers to anymore
+   */
+  private pruneVersions(): void {
+    if (!fs.existsSync(this.versionsPath)) {
+      return;
+    }
+    const used = new Set(this.records.flatMap(r => [r.local.blob, r.remote.blob]));
+    for (const name of fs.readdirSync(this.versionsPath)) {
+      if (!used.has(name)) {
+        fs.rmSync(path.join(this.versionsPath, name), { force: true });
+      }
+    }
+  }
+
+  /**
+   * Record a new decision
+   * @param copies - content of versions to keep a copy of, stored under their blob hash
+   */
+  record(
+    entry: Omit<ConflictRecord, 'id' | 'resolvedAt' | 'reviewed'>,
+    copies: Partial<Record<ConflictSide, Buffer>> = {}
+  ): ConflictRecord {
+    for (const side of Object.keys(copies) as ConflictSide[]) {
+      const blob = entry[side].blob;
+      if (blob && /^[0-9a-f]+$/.test(blob)) {
+        fs.mkdirSync(this.versionsPath, { recursive: true });
+        fs.writeFileSync(path.join(this.versionsPath, blob), copies[side]!);
+      }
+    }
+
+    const resolvedAt = new Date().toISOString();
+    const record: ConflictRecord = {
+      ...entry,
+      id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+      resolvedAt,
+      reviewed: false
+    };
+
+    // A newer decision for the same file supersedes an unreviewed older one
+    this.records = this.records.filter(r => r.file !== entry.file || r.reviewed);
+    this.records.push(record);
+    this.save();
+    return record;
+  }
+
+  /**
+   * Get records, newest first
+   */
+  list(options: { includeReviewed?: boolean } = {}): ConflictRecord[] {
+    return this.records
+      .filter(r => options.includeReviewed || !r.reviewed)
+      .slice()
+      .reverse();
+  }
+
+  /**
+   * Get a record by id
+   */
+  get(id: string): ConflictRecord | undefined {
+    return this.records.find(r => r.id === id);
+  }
+
+  /**
+   * Read the copy of one side of a record (null if none was kept)
+   */
+  readVersion(id: string, side: ConflictSide): Buffer | null {
+    const blob = this.get(id)?.[side].blob;
+    if (!blob) {
+      return null;
+    }
+    const copyPath = path.join(this.versionsPath, blob);
+    return fs.existsSync(copyPath) ? fs.readFileSync(copyPath) : null;
+  }
+
+  /**
+   * Update a record
+   */
+  update(id: string, patch: Partial<Omit<ConflictRecord, 'id'>>): ConflictRecord | undefined {
+    const record = this.get(id);
+    if (!record) {
+      return undefined;
+    }
+    Object.assign(record, patch);
+    this.save();
+    return record;
+  }
+
+  /**
+   * Mark a record as reviewed (removes it from the queue, keeps it in history)
+   */
+  markReviewed(id: string): void {
+    this.update(id, { reviewed: true });
+  }
+}
@@ -0,0 +1,319 @@
+/**
+ * ConversationDecoder - Schema-less reader for Antigravity conversation .pb files
+ *
+ * The conversation schema is not published, so the file is read at the protobuf
+ * wire-format level: the message list is the most repeated top-level field whose
+ * entries are themselves messages, and timestamps are google.protobuf.Timestamp
+ * shaped sub-messages. Anything that does not decode cleanly returns null so the
+ * caller can fall back to size/mtime resolution.
+ */
+
+/** Protobuf wire types (groups are deprecated and not supported) */
+const WIRE_VARINT = 0;
+const WIRE_FIXED64 = 1;
+export const WIRE_LENGTH_DELIMITED = 2;
+const WIRE_FIXED32 = 5;
+
+// Plausible Timestamp.seconds range: 2017-07-14 .. 2100-01-01
+const MIN_TIMESTAMP_SECONDS = 1_500_000_000;
+const MAX_TIMESTAMP_SECONDS = 4_102_444_800;
+const MAX_TIMESTAMP_DEPTH = 4;
+
+export interface WireField {
+  field: number;
+  wireType: number;
+  /** Varint / fixed value (length-delimited fields use payload) */
+  value: number;
+  payload?: Buffer;
+  /** The full encoded field (tag + value), copied as-is when re-encoding */
+  raw: Buffer;
+}
+
+export interface ConversationMessage {
+  raw: Buffer;
+  /** Latest timestamp found inside the message (ms since epoch), null if none */
+  timestamp: number | null;
+}
+
+export interface DecodedConversation {
+  /** Top-level field number holding the messages */
+  messageField: number;
+  messages: ConversationMessage[];
+  /** Latest message timestamp (ms since epoch), null if no timestamps */
+  lastMessageAt: number | null;
+  fields: WireField[];
+}
+
+export type ConversationResolution =
+  | { winner: 'local' | 'remote'; rule: 'more-messages' | 'later-message' }
+  | { winner: 'merged'; rule: 'conversation-union'; content: Buffer };
+
+export class ConversationDecoder {
+  /**
+   * Decode a conversation file
+   * @returns null if the buffer is not a protobuf message with a message list
+   */
+  static decode(buffer: Buffer): DecodedConversation | null {
+    const fields = ConversationDecoder.parseFields(buffer);
+    if (!fields || fields.length === 0) {
+      return null;
+    }
+
+    // Candidate message lists: length-delimited fields where every entry is a message
+    const candidates = new Map<number, WireField[]>();
+    const rejected = new Set<number>();
+    for (const f of fields) {
+      if (rejected.has(f.field)) {
+        continue;
+      }
+      if (f.wireType !== WIRE_LENGTH_DELIMITED || !ConversationDecoder.parseFields(f.payload!)?.length) {
+        rejected.add(f.field);
+        candidates.delete(f.field);
+        continue;
+      }
+      candidates.set(f.field, [...(candidates.get(f.field) || []), f]);
+    }
+
+    let messageField = -1;
+    let entries: WireField[] = [];
+    for (const [field, list] of candidates) {
+      if (list.length > entries.length || (list.length === entries.length && field < messageField)) {
+        messageField = field;
+        entries = list;
+      }
+    }
+    if (messageField === -1) {
+      return null;
+    }
+
+    const messages = entries.map(entry => ({
+      raw: entry.raw,
+      timestamp: ConversationDecoder.findLatestTimestamp(entry.payload!, 0)
+    }));
+    const timestamps = messages.map(m => m.timestamp).filter((t): t is number => t !== null);
+
+    return {
+      messageField,
+      messages,
+      lastMessageAt: timestamps.length > 0 ? Math.max(...timestamps) : null,
+      fields
+    };
+  }
+
+  /**
+   * Resolve a conflict between two versions of a conversation:
+   * - both sides appended to the common base: union of both histories
+   * - otherwise more messages wins, then later last message
+   * @returns null if either side cannot be decoded (caller falls back to size/mtime)
+   */
+  static resolve(local: Buffer, remote: Buffer, base: Buffer | null): ConversationResolution | null {
+    const localConv = ConversationDecoder.decode(local);
+    const remoteConv = ConversationDecoder.decode(remote);
+    if (!localConv || !remoteConv || localConv.messageField !== remoteConv.messageField) {
+      return null;
+    }
+
+    const baseConv = base ? ConversationDecoder.decode(base) : null;
+    if (baseConv && baseConv.messageField === localConv.messageField) {
+      const union = ConversationDecoder.union(localConv, remoteConv, baseConv);
+      if (union) {
+        return { winner: 'merged', rule: 'conversation-union', content: union };
+      }
+    }
+
+    if (localConv.messages.length !== remoteConv.messages.length) {
+      return {
+        winner: localConv.messages.length > remoteConv.messages.length ? 'local' : 'remote',
+        rule: 'more-messages'
+      };
+    }
+
+    if (localConv.lastMessageAt !== remoteConv.lastMessageAt) {
+      return {
+        winner: (localConv.lastMessageAt ?? 0) >= (remoteConv.lastMessageAt ?? 0) ? 'local' : 'remote',
+        rule: 'later-message'
+      };
+    }
+
+    // Same count and same last message - nothing to tell them apart
+    return { winner: 'local', rule: 'later-message' };
+  }
+
+  /**
+   * Union two histories that both extend the base
+   * New messages from both sides are appended after the base, ordered by timestamp.
+   * Other top-level fields are taken from the local side.
+   * @returns null if a side rewrote base messages or only one side appended
+   */
+  private static union(
+    local: DecodedConversation,
+    remote: DecodedConversation,
+    base: DecodedConversation
+  ): Buffer | null {
+    const isPrefix = (conv: DecodedConversation) =>
+      base.messages.length <= conv.messages.length &&
+      base.messages.every((m, i) => m.raw.equals(conv.messages[i].raw));
+
+    if (!isPrefix(local) || !isPrefix(remote)) {
+      return null;
+    }
+
+    const localNew = local.messages.slice(base.messages.length);
+    const remoteNew = remote.messages
+      .slice(base.messages.length)
+      .filter(m => !localNew.some(l => l.raw.equals(m.raw)));
+    if (localNew.length === 0 || remoteNew.length === 0) {
+      return null;
+    }
+
+    // Stable sort keeps local-then-remote order for messages without timestamps
+    const appended = [...localNew, ...remoteNew]
+      .map((m, index) => ({ m, index }))
+      .sort((a, b) => {
+        if (a.m.timestamp === null || b.m.timestamp === null) {
+          return a.index - b.index;
+        }
+        return a.m.timestamp - b.m.timestamp || a.index - b.index;
+      })
+      .map(({ m }) => m);
+
+    const messages = [...base.messages, ...appended];
+    const parts: Buffer[] = [];
+    let written = false;
+    for (const f of local.fields) {
+      if (f.field !== local.messageField) {
+        parts.push(f.raw);
+      } else if (!written) {
+        // Emit the whole list where the first message was
+        parts.push(...messages.map(m => m.raw));
+        written = true;
+      }
+    }
+    return Buffer.concat(parts);
+  }
+
+  /**
+   * Find the latest Timestamp-shaped sub-message (ms since epoch)
+   */
+  private static findLatestTimestamp(payload: Buffer, depth: number): number | null {
+    const fields = ConversationDecoder.parseFields(payload);
+    if (!fields) {
+      return null;
+    }
+
+    const timestamp = ConversationDecoder.asTimestamp(fields);
+    if (timestamp !== null) {
+      return timestamp;
+    }
+    if (depth >= MAX_TIMESTAMP_DEPTH) {
+      return null;
+    }
+
+    let latest: number | null = null;
+    for (const f of fields) {
+      if (f.wireType !== WIRE_LENGTH_DELIMITED) {
+        continue;
+      }
+      const nested = ConversationDecoder.findLatestTimestamp(f.payload!, depth + 1);
+      if (nested !== null && (latest === null || nested > latest)) {
+        latest = nested;
+      }
+    }
+    return latest;
+  }
+
+  /**
+   * Read fields as google.protobuf.Timestamp { int64 seconds = 1; int32 nanos = 2; }
+   */
+  private static asTimestamp(fields: WireField[]): number | null {
+    const seconds = fields.find(f => f.field === 1);
+    const nanos = fields.find(f => f.field === 2);
+    const onlyKnown = fields.every(f => f.field === 1 || f.field === 2) && fields.length <= 2;
+    if (!onlyKnown || !seconds || seconds.wireType !== WIRE_VARINT) {
+      return null;
+    }
+    if (seconds.value < MIN_TIMESTAMP_SECONDS || seconds.value > MAX_TIMESTAMP_SECONDS) {
+      return null;
+    }
+    if (nanos && (nanos.wireType !== WIRE_VARINT || nanos.value >= 1e9)) {
+      return null;
+    }
+    return seconds.value * 1000 + Math.floor((nanos?.value || 0) / 1e6);
+  }
+
+  /**
+   * Parse one level of protobuf wire format
+   * @returns null unless the whole buffer is consumed by well-formed fields
+   */
+  static parseFields(buffer: Buffer): WireField[] | null {
+    const fields: WireField[] = [];
+    let offset = 0;
+
+    while (offset < buffer.length) {
+      const start = offset;
+      const tag = ConversationDecoder.readVarint(buffer, offset);
+      if (!tag) {
+        return null;
+      }
+      offset = tag.next;
+
+      const field = Math.floor(tag.value / 8);
+      const wireType = tag.value % 8;
+      if (field === 0) {
+        return null;
+      }
+
+      let value = 0;
+      let payload: Buffer | undefined;
+      if (wireType === WIRE_VARINT) {
+        const varint = ConversationDecoder.readVarint(buffer, offset);
+        if (!varint) {
+          return null;
+        }
+        value = varint.value;
+        offset = varint.next;
+      } else if (wireType === WIRE_FIXED64) {
+        if (offset + 8 > buffer.length) {
+          return null;
+        }
+        offset += 8;
+      } else if (wireType === WIRE_FIXED32) {
+        if (offset + 4 > buffer.length) {
+          return null;
+        }
+        offset += 4;
+      } else if (wireType === WIRE_LENGTH_DELIMITED) {
+        const length = ConversationDecoder.readVarint(buffer, offset);
+        if (!length || length.next + length.value > buffer.length) {
+          return null;
+        }
+        payload = buffer.subarray(length.next, length.next + length.value);
+        value = length.value;
+        offset = length.next + length.value;
+      } else {
+        return null;
+      }
+
+      fields.push({ field, wireType, value, payload, raw: buffer.subarray(start, offset) });
+    }
+
+    return fields;
+  }
+
+  /**
+   * Read a base-128 varint (values above 2^53 lose precision, which is fine here)
+   */
+  private static readVarint(buffer: Buffer, offset: number): { value: number; next: number } | null {
+    let value = 0;
+    let multiplier = 1;
+    for (let i = 0; i < 10 && offset + i < buffer.length; i++) {
+      const byte = buffer[offset + i];
+      value += (byte & 0x7f) * multiplier;
+      if ((byte & 0x80) === 0) {
+        return { value, next: offset + i + 1 };
+      }
+      multiplier *= 128;
+    }
+    return null;
+  }
+}
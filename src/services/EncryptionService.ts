@@ -0,0 +1,223 @@
+/**
+ * EncryptionService - Client-side encryption of files in the sync repo
+ *
+ * Key: scrypt(passphrase, salt). The salt and a key check live in the sync repo
+ * (`.antigravity-encryption.json`) so every machine derives the same key; the
+ * derived key itself is kept in SecretStorage, never in the repo.
+ *
+ * Files are stored as `<top-level folder>/<hmac(path)>.enc` with AES-256-GCM.
+ * IVs are derived from the path and content (SIV-style), so an unchanged file
+ * always encrypts to the same bytes and git only sees real changes.
+ *
+ * Layout of an encrypted file:
+ *   magic(4) version(1) | pathIv(12) pathTag(16) pathLen(2) path | dataIv(12) dataTag(16) data
+ */
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+
+export const ENCRYPTION_KEY_FILE = '.antigravity-encryption.json';
+export const ENCRYPTED_EXTENSION = '.enc';
+
+const MAGIC = Buffer.from('AGSE');
+const FORMAT_VERSION = 1;
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+const HEADER_LENGTH = MAGIC.length + 1 + IV_LENGTH + TAG_LENGTH + 2;
+const NAME_HASH_LENGTH = 40;
+const KEY_CHECK_LABEL = 'antigravity-sync-key-check';
+
+// scrypt cost: ~100ms and 32 MB on a laptop, once per passphrase entry
+const SCRYPT_OPTIONS: crypto.ScryptOptions = { N: 2 ** 15, r: 8, p: 1, maxmem: 64 * 1024 * 1024 };
+
+interface KeyFile {
+  version: number;
+  kdf: 'scrypt';
+  salt: string;
+  /** HMAC of a fixed label - tells a wrong passphrase apart from corrupted files */
+  keyCheck: string;
+}
+
+export class EncryptionService {
+  private encKey: Buffer;
+  private macKey: Buffer;
+
+  /**
+   * @param key - 64-byte derived key (see deriveKey)
+   */
+  constructor(key: Buffer) {
+    if (key.length !== 64) {
+      throw new Error('Invalid encryption key');
+    }
+    this.encKey = key.subarray(0, 32);
+    this.macKey = key.subarray(32);
+  }
+
+  /**
+   * Derive the key for a repo from the passphrase
+   * Creates the key file (new salt) if the repo has none yet.
+   * @throws if the passphrase does not match the one the repo was encrypted with
+   */
+  static deriveKeyForRepo(repoPath: string, passphrase: string): Buffer {
+    const keyFilePath = path.join(repoPath, ENCRYPTION_KEY_FILE);
+    const existing = EncryptionService.readKeyFile(repoPath);
+
+    if (existing) {
+      const key = crypto.scryptSync(passphrase, Buffer.from(existing.salt, 'base64'), 64, SCRYPT_OPTIONS);
+      if (new EncryptionService(key).getKeyCheck() !== existing.keyCheck) {
+        throw new Error('Wrong encryption passphrase for this repository');
+      }
+      return key;
+    }
+
+    const salt = crypto.randomBytes(16);
+    const key = crypto.scryptSync(passphrase, salt, 64, SCRYPT_OPTIONS);
+    const keyFile: KeyFile = {
+      version: FORMAT_VERSION,
+      kdf: 'scrypt',
+      salt: salt.toString('base64'),
+      keyCheck: new EncryptionService(key).getKeyCheck()
+    };
+    fs.writeFileSync(keyFilePath, JSON.stringify(keyFile, null, 2));
+    return key;
+  }
+
+  /**
+   * Check a stored key still matches the repo (e.g. another machine re-keyed it)
+   */
+  static matchesRepo(repoPath: string, key: Buffer): boolean {
+    const keyFile = EncryptionService.readKeyFile(repoPath);
+    return !!keyFile && new EncryptionService(key).getKeyCheck() === keyFile.keyCheck;
+  }
+
+  private static readKeyFile(repoPath: string): KeyFile | null {
+    const keyFilePath = path.join(repoPath, ENCRYPTION_KEY_FILE);
+    if (!fs.existsSync(keyFilePath)) {
+      return null;
+    }
+    try {
+      return JSON.parse(fs.readFileSync(keyFilePath, 'utf-8')) as KeyFile;
+    } catch {
+      throw new Error(`${ENCRYPTION_KEY_FILE} in the sync repo is corrupted`);
+    }
+  }
+
+  /**
+   * Check if a sync repo path is an encrypted file
+   */
+  static isEncryptedPath(relativePath: string): boolean {
+    return relativePath.endsWith(ENCRYPTED_EXTENSION);
+  }
+
+  private getKeyCheck(): string {
+    return this.hmac(KEY_CHECK_LABEL).toString('base64');
+  }
+
+  private hmac(...parts: (string | Buffer)[]): Buffer {
+    const mac = crypto.createHmac('sha256', this.macKey);
+    for (const part of parts) {
+      mac.update(part);
+      mac.update('\0');
+    }
+    return mac.digest();
+  }
+
+  /**
+   * Deterministic sync repo path for a file (top-level folder stays readable)
+   */
+  getStoragePath(relativePath: string): string {
+    const normalized = relativePath.split(path.sep).join('/');
+    const name = this.hmac('name', normalized).toString('hex').slice(0, NAME_HASH_LENGTH) + ENCRYPTED_EXTENSION;
+    const segments = normalized.split('/');
+    return segments.length > 1 ? path.join(segments[0], name) : name;
+  }
+
+  /**
+   * Encrypt a file (path + content)
+   */
+  encrypt(relativePath: string, content: Buffer): Buffer {
+    const normalized = relativePath.split(path.sep).join('/');
+    const pathBytes = Buffer.from(normalized, 'utf-8');
+
+    const pathIv = this.hmac('path-iv', normalized).subarray(0, IV_LENGTH);
+    const pathCipher = crypto.createCipheriv('aes-256-gcm', this.encKey, pathIv);
+    const pathCt = Buffer.concat([pathCipher.update(pathBytes), pathCipher.final()]);
+
+    // Path is authenticated with the data, so files cannot be swapped around
+    const dataIv = this.hmac('data-iv', normalized, content).subarray(0, IV_LENGTH);
+    const dataCipher = crypto.createCipheriv('aes-256-gcm', this.encKey, dataIv);
+    dataCipher.setAAD(pathBytes);
+    const dataCt = Buffer.concat([dataCipher.update(content), dataCipher.final()]);
+
+    const pathLen = Buffer.alloc(2);
+    pathLen.writeUInt16BE(pathCt.length);
+
+    return Buffer.concat([
+      MAGIC, Buffer.from([FORMAT_VERSION]),
+      pathIv, pathCipher.getAuthTag(), pathLen, pathCt,
+      dataIv, dataCipher.getAuthTag(), dataCt
+    ]);
+  }
+
+  /**
+   * Decrypt a file
+   * @throws if the file is not ours or was encrypted with another key
+   */
+  decrypt(buffer: Buffer): { relativePath: string; content: Buffer } {
+    const { relativePath, dataOffset } = this.decryptHeader(buffer);
+    const pathBytes = Buffer.from(relativePath, 'utf-8');
+
+    const dataIv = buffer.subarray(dataOffset, dataOffset + IV_LENGTH);
+    const dataTag = buffer.subarray(dataOffset + IV_LENGTH, dataOffset + IV_LENGTH + TAG_LENGTH);
+    const decipher = crypto.createDecipheriv('aes-256-gcm', this.encKey, dataIv);
+    decipher.setAAD(pathBytes);
+    decipher.setAuthTag(dataTag);
+    const content = Buffer.concat([
+      decipher.update(buffer.subarray(dataOffset + IV_LENGTH + TAG_LENGTH)),
+      decipher.final()
+    ]);
+
+    return { relativePath: relativePath.split('/').join(path.sep), content };
+  }
+
+  /**
+   * Read only the original path of an encrypted file (cheap, for listings)
+   */
+  readPath(filePath: string): string {
+    const fd = fs.openSync(filePath, 'r');
+    try {
+      const header = Buffer.alloc(HEADER_LENGTH);
+      fs.readSync(fd, header, 0, HEADER_LENGTH, 0);
+      const pathLen = header.readUInt16BE(HEADER_LENGTH - 2);
+      const buffer = Buffer.alloc(HEADER_LENGTH + pathLen);
+      header.copy(buffer);
+      fs.readSync(fd, buffer, HEADER_LENGTH, pathLen, HEADER_LENGTH);
+      return this.decryptHeader(buffer).relativePath.split('/').join(path.sep);
+    } finally {
+      fs.closeSync(fd);
+    }
+  }
+
+  private decryptHeader(buffer: Buffer): { relativePath: string; dataOffset: number } {
+    if (buffer.length < HEADER_LENGTH || !buffer.subarray(0, MAGIC.length).equals(MAGIC)) {
+      throw new Error('Not an encrypted sync file');
+    }
+    if (buffer[MAGIC.length] !== FORMAT_VERSION) {
+      throw new Error(`Unsupported encryption format version ${buffer[MAGIC.length]}`);
+    }
+
+    let offset = MAGIC.length + 1;
+    const pathIv = buffer.subarray(offset, offset + IV_LENGTH);
+    offset += IV_LENGTH;
+    const pathTag = buffer.subarray(offset, offset + TAG_LENGTH);
+    offset += TAG_LENGTH;
+    const pathLen = buffer.readUInt16BE(offset);
+    offset += 2;
+
+    const decipher = crypto.createDecipheriv('aes-256-gcm', this.encKey, pathIv);
+    decipher.setAuthTag(pathTag);
+    const pathBytes = Buffer.concat([decipher.update(buffer.subarray(offset, offset + pathLen)), decipher.final()]);
+
+    return { relativePath: pathBytes.toString('utf-8'), dataOffset: offset + pathLen };
+  }
+}
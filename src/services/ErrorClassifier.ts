@@ -0,0 +1,115 @@
+/**
+ * ErrorClassifier - Tells agent errors apart so each kind gets its own retry policy
+ *
+ * classifyError and parseResetDelay are injected into the IDE page as source
+ * (see CDPHandler.getInjectScript), so they must stay self-contained: no imports,
+ * no module-level references, plain JavaScript only.
+ */
+
+export type ErrorClass = 'quota' | 'overloaded' | 'network' | 'tool' | 'terminated' | 'unknown';
+
+export const ERROR_CLASSES: ErrorClass[] = ['quota', 'overloaded', 'network', 'tool', 'terminated', 'unknown'];
+
+export const ERROR_CLASS_LABELS: Record<ErrorClass, string> = {
+  quota: 'quota / rate limit',
+  overloaded: 'model overloaded',
+  network: 'network failure',
+  tool: 'tool failure',
+  terminated: 'agent terminated',
+  unknown: 'other error'
+};
+
+export type ErrorPolicyAction = 'retry' | 'wait' | 'waitForReset' | 'notify';
+
+/**
+ * What Auto Retry does with a Retry button for an error class
+ * - retry: click right away (budget and cooldown still apply)
+ * - wait: click once the error has been shown for `seconds`
+ * - waitForReset: click when the quota resets (time read from the message, `seconds` otherwise)
+ * - notify: never click, show a notification
+ */
+export interface ErrorPolicy {
+  action: ErrorPolicyAction;
+  seconds?: number;
+}
+
+export type ErrorPolicies = Record<ErrorClass, ErrorPolicy>;
+
+export const DEFAULT_ERROR_POLICIES: ErrorPolicies = {
+  quota: { action: 'waitForReset', seconds: 300 },
+  overloaded: { action: 'wait', seconds: 30 },
+  network: { action: 'wait', seconds: 10 },
+  tool: { action: 'notify' },
+  terminated: { action: 'retry' },
+  unknown: { action: 'retry' }
+};
+
+/**
+ * Classify an error message (most specific class first)
+ */
+/* istanbul ignore next -- injected via toString(), coverage counters would break it */
+export function classifyError(text: string): ErrorClass {
+  const patterns: Array<[ErrorClass, RegExp]> = [
+    ['quota', /quota|rate.?limit|too many requests|\b429\b|resource.?exhausted|usage limit/i],
+    ['overloaded', /overloaded|at capacity|\b50[23]\b|\b529\b|server is busy|temporarily unavailable|high demand/i],
+    ['network', /network|connection (?:error|lost|reset|refused|closed)|timed out|timeout|econn|etimedout|fetch failed|offline|socket hang up/i],
+    ['tool', /tool (?:call )?(?:failed|error)|failed to (?:run|execute|call)|command failed|exit(?:ed with)? code [1-9]/i],
+    ['terminated', /terminated/i]
+  ];
+  for (const [errorClass, pattern] of patterns) {
+    if (pattern.test(text || '')) {
+      return errorClass;
+    }
+  }
+  return 'unknown';
+}
+
+/**
+ * Milliseconds until a quota resets, read from messages such as "try again in 2h 30m",
+ * "retry after 45 seconds", "resets at 14:00 UTC" or an ISO timestamp. Null when absent.
+ */
+/* istanbul ignore next -- injected via toString(), coverage counters would break it */
+export function parseResetDelay(text: string, now: number): number | null {
+  const units: Record<string, number> = { h: 3600000, m: 60000, s: 1000 };
+  const duration = /(?:in|after)\s+((?:\d+(?:\.\d+)?\s*(?:hours?|hrs?|h|minutes?|mins?|m|seconds?|secs?|s)\b(?:\s*,?\s*(?:and\s+)?)?)+)/i.exec(text);
+  if (duration) {
+    let total = 0;
+    const part = /(\d+(?:\.\d+)?)\s*([hms])/gi;
+    let match;
+    while ((match = part.exec(duration[1])) !== null) {
+      total += parseFloat(match[1]) * units[match[2].toLowerCase()];
+    }
+    return Math.round(total);
+  }
+
+  const iso = /\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?(?:Z|[+-]\d{2}:?\d{2})?/.exec(text);
+  if (iso) {
+    const at = Date.parse(iso[0]);
+    if (!isNaN(at)) {
+      return Math.max(0, at - now);
+    }
+  }
+
+  const clock = /\bat\s+(\d{1,2}):(\d{2})\s*(am|pm)?\s*(utc|gmt)?/i.exec(text);
+  if (clock) {
+    let hours = parseInt(clock[1], 10) % 12;
+    if (!clock[3]) {
+      hours = parseInt(clock[1], 10);
+    } else if (clock[3].toLowerCase() === 'pm') {
+      hours += 12;
+    }
+    const at = new Date(now);
+    if (clock[4]) {
+      at.setUTCHours(hours, parseInt(clock[2], 10), 0, 0);
+    } else {
+      at.setHours(hours, parseInt(clock[2], 10), 0, 0);
+    }
+    let delay = at.getTime() - now;
+    if (delay < 0) {
+      delay += 24 * 3600000; // Tomorrow
+    }
+    return delay;
+  }
+
+  return null;
+}
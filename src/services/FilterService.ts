@@ -8,6 +8,7 @@ import ignore, { Ignore } from 'ignore';
 export class FilterService {
   private ig: Ignore;
   private geminiPath: string;
+  private syncFolders?: string[];
 
   // Default patterns that MUST always be excluded
   private static readonly DEFAULT_EXCLUDES = [
@@ -51,8 +52,12 @@ export class FilterService {
     '.git/'
   ];
 
-  constructor(geminiPath: string, customPatterns: string[] = []) {
+  /**
+   * @param syncFolders - top-level folders allowed to sync (undefined = all folders)
+   */
+  constructor(geminiPath: string, customPatterns: string[] = [], syncFolders?: string[]) {
     this.geminiPath = geminiPath;
+    this.syncFolders = syncFolders;
     this.ig = ignore();
 
     // Add default excludes
@@ -90,7 +95,30 @@ export class FilterService {
    * Check if a file should be ignored
    */
   shouldIgnore(relativePath: string): boolean {
-    return this.ig.ignores(relativePath);
+    return this.ig.ignores(relativePath) || !this.isInSyncFolder(relativePath);
+  }
+
+  /**
+   * Check if a path belongs to an enabled sync folder
+   * Root-level files are always allowed, root-level directories must be in the allow-list
+   */
+  isInSyncFolder(relativePath: string, isDirectory: boolean = false): boolean {
+    if (!this.syncFolders) {
+      return true;
+    }
+
+    const segments = relativePath.split(/[\\/]/);
+    if (segments.length === 1 && !isDirectory) {
+      return true;
+    }
+    return this.syncFolders.includes(segments[0]);
+  }
+
+  /**
+   * Get the enabled sync folders (undefined = all folders)
+   */
+  getSyncFolders(): string[] | undefined {
+    return this.syncFolders ? [...this.syncFolders] : undefined;
   }
 
   /**
@@ -104,8 +132,15 @@ export class FilterService {
    * Get all files that should be synced from the gemini directory
    */
   async getFilesToSync(): Promise<string[]> {
+    return await this.listFiles(this.geminiPath);
+  }
+
+  /**
+   * Get all non-ignored files under any root (e.g. the sync repo)
+   */
+  async listFiles(rootPath: string): Promise<string[]> {
     const files: string[] = [];
-    await this.walkDirectory(this.geminiPath, '', files);
+    await this.walkDirectory(rootPath, '', files);
     return files;
   }
 
@@ -125,7 +160,7 @@ export class FilterService {
       const entryRelativePath = relativePath ? path.join(relativePath, entry.name) : entry.name;
 
       // Check if should be ignored
-      if (this.shouldIgnore(entryRelativePath)) {
+      if (this.ig.ignores(entryRelativePath) || !this.isInSyncFolder(entryRelativePath, entry.isDirectory())) {
         continue;
       }
 
@@ -3,22 +3,109 @@
  */
 import simpleGit, { SimpleGit, SimpleGitOptions } from 'simple-git';
 import * as fs from 'fs';
+import * as os from 'os';
 import * as path from 'path';
-import { exec } from 'child_process';
+import { exec, execFile } from 'child_process';
 import { promisify } from 'util';
+import { BranchConfig, GitAuth } from './ConfigService';
+import { EncryptionService } from './EncryptionService';
+import { SecretScanner } from './SecretScanner';
+import { ConflictJournal, ConflictRecord, ConflictSide, ConflictVersion } from './ConflictJournal';
+import { BackendStatus, HistoryEntry, LoggerCallback, LogType, SyncBackend } from './SyncBackend';
+import { PlannedChange } from './SyncPlan';
+import { describeOutcome, MergeInput, resolveConflict } from './SmartMerge';
 
 const execAsync = promisify(exec);
+const execFileAsync = promisify(execFile);
 
-export type LogType = 'info' | 'success' | 'error';
-export type LoggerCallback = (message: string, type: LogType) => void;
+/**
+ * Resolved branch names used by every git call
+ */
+export interface BranchModel {
+  /** Branch all machines merge into */
+  shared: string;
+  /** Branch this machine commits to (same as shared unless per-machine mode) */
+  local: string;
+  perMachine: boolean;
+}
+
+/**
+ * A commit of the sync repo
+ */
+export interface SyncCommit {
+  hash: string;
+  /** ISO date */
+  date: string;
+  /** Subject line */
+  message: string;
+  /** Host that made the commit (Machine: trailer, author name for older commits) */
+  machine: string;
+  /** Paths changed by the commit */
+  files: string[];
+}
+
+const FALLBACK_BRANCH = 'main';
+
+// Smart Merge runs again when the remote moves during its push, this many times at most
+const MAX_SMART_MERGE_ATTEMPTS = 3;
+
+/**
+ * Whether a remote URL uses the SSH transport (git@host:path, ssh://...)
+ */
+export function isSshUrl(url: string): boolean {
+  return /^ssh:\/\//.test(url) || /^[\w.-]+@[^:/]+:/.test(url);
+}
+
+/**
+ * HTTPS address of an SSH remote (git@github.com:user/repo.git -> https://github.com/user/repo.git)
+ */
+export function sshToHttpsUrl(url: string): string {
+  const scp = url.match(/^[\w.-]+@([^:/]+):\/?(.+)$/);
+  if (scp) {
+    return `https://${scp[1]}/${scp[2]}`;
+  }
+  const ssh = url.match(/^ssh:\/\/(?:[^@/]+@)?([^:/]+)(?::\d+)?\/(.+)$/);
+  return ssh ? `https://${ssh[1]}/${ssh[2]}` : url;
+}
 
-export class GitService {
+/**
+ * GIT_SSH_COMMAND for the given private key ('' = ssh-agent / default keys).
+ * BatchMode fails instead of prompting, new hosts are trusted on first use.
+ */
+export function buildSshCommand(keyPath: string): string {
+  const args = ['ssh', '-o', 'BatchMode=yes', '-o', 'StrictHostKeyChecking=accept-new'];
+  if (keyPath) {
+    // Only this key, not whatever the agent offers first
+    args.push('-i', `'${keyPath.replace(/'/g, `'\\''`)}'`, '-o', 'IdentitiesOnly=yes');
+  }
+  return args.join(' ');
+}
+
+/**
+ * Get the per-machine branch name for this host
+ */
+export function getMachineBranchName(): string {
+  const host = os.hostname().toLowerCase().replace(/[^a-z0-9._-]+/g, '-').replace(/^[-.]+|[-.]+$/g, '');
+  return `machine/${host || 'unknown'}`;
+}
+
+export class GitService implements SyncBackend {
+  readonly kind = 'git';
   private git: SimpleGit;
   private repoPath: string;
   private logger?: LoggerCallback;
-
-  constructor(repoPath: string) {
+  private branchConfig: BranchConfig;
+  private branches: BranchModel;
+  private journal: ConflictJournal;
+  private secretScanner: SecretScanner | null = null;
+  private encryption: EncryptionService | null = null;
+  // Environment of every git process that talks to the remote (GIT_SSH_COMMAND in ssh mode)
+  private remoteEnv: NodeJS.ProcessEnv | null = null;
+
+  constructor(repoPath: string, branchConfig: BranchConfig = { name: '', perMachine: false }) {
     this.repoPath = repoPath;
+    this.branchConfig = branchConfig;
+    this.branches = this.buildBranchModel(branchConfig.name || FALLBACK_BRANCH);
 
     // CRITICAL: Ensure directory exists before simpleGit init
     if (!fs.existsSync(repoPath)) {
@@ -33,6 +120,7 @@ export class GitService {
     };
 
     this.git = simpleGit(options);
+    this.journal = new ConflictJournal(this.getStatePath());
   }
 
   /**
@@ -260,48 +348,172 @@ export class GitService {
     return null;
   }
 
+  /**
+   * Build branch model for a shared branch name
+   */
+  private buildBranchModel(shared: string): BranchModel {
+    const perMachine = this.branchConfig.perMachine;
+    return {
+      shared,
+      local: perMachine ? getMachineBranchName() : shared,
+      perMachine
+    };
+  }
+
+  /**
+   * Get the resolved branch model
+   */
+  getBranchModel(): BranchModel {
+    return { ...this.branches };
+  }
+
+  /**
+   * Remote-tracking ref of the shared branch
+   */
+  private getRemoteRef(): string {
+    return `origin/${this.branches.shared}`;
+  }
+
+  /**
+   * Resolve the shared branch: configured name, else the remote's default branch
+   */
+  private async resolveSharedBranch(remote: string): Promise<string> {
+    if (this.branchConfig.name) {
+      return this.branchConfig.name;
+    }
+
+    try {
+      // Output: "ref: refs/heads/master\tHEAD\n<sha>\tHEAD"
+      const output = await this.remoteGit().listRemote(['--symref', remote, 'HEAD']);
+      const match = output.match(/ref:\s+refs\/heads\/(\S+)\s+HEAD/);
+      if (match) {
+        return match[1];
+      }
+    } catch {
+      // Remote unreachable or empty, use fallback
+    }
+    return FALLBACK_BRANCH;
+  }
+
+  /**
+   * Make sure the local branch from the branch model is checked out
+   */
+  private async ensureLocalBranch(): Promise<void> {
+    const { local } = this.branches;
+    const current = await this.git.raw(['symbolic-ref', '--short', 'HEAD']).catch(() => '');
+    if (current.trim() === local) {
+      return;
+    }
+
+    const hasCommits = await this.git.raw(['rev-parse', '--verify', 'HEAD']).then(() => true).catch(() => false);
+    if (!hasCommits) {
+      // Unborn branch - just point HEAD at the right name
+      await this.git.raw(['symbolic-ref', 'HEAD', `refs/heads/${local}`]);
+      return;
+    }
+
+    const localBranches = await this.git.branchLocal();
+    if (localBranches.all.includes(local)) {
+      await this.git.checkout(local);
+    } else {
+      // Start from the remote copy of this branch, else the shared branch, else the current commit
+      const remoteBranches = await this.git.branch(['-r']);
+      const startPoint = [`origin/${local}`, this.getRemoteRef()].find(ref => remoteBranches.all.includes(ref));
+      await this.git.checkout(startPoint ? ['-b', local, startPoint] : ['-b', local]);
+    }
+    this.log(`[GitService] Switched to branch ${local}`);
+  }
+
+  /**
+   * Remote URL and git environment for an auth mode
+   * Token: credentials go in the HTTPS URL. SSH: the URL is kept and the key goes in GIT_SSH_COMMAND
+   */
+  private applyAuth(remoteUrl: string, auth: GitAuth): string {
+    if (auth.mode === 'ssh') {
+      if (!isSshUrl(remoteUrl)) {
+        throw new Error('SSH authentication needs an SSH remote (git@host:user/repo.git or ssh://...)');
+      }
+      this.remoteEnv = { ...process.env, GIT_SSH_COMMAND: buildSshCommand(auth.keyPath), GIT_TERMINAL_PROMPT: '0' };
+      this.git.env(this.remoteEnv);
+      return remoteUrl;
+    }
+
+    this.remoteEnv = null;
+    this.git.env(process.env);
+    return this.buildAuthenticatedUrl(remoteUrl, auth.token);
+  }
+
+  /**
+   * Git instance for commands that run outside the repo (clone, ls-remote)
+   */
+  private remoteGit(): SimpleGit {
+    const git = simpleGit();
+    return this.remoteEnv ? git.env(this.remoteEnv) : git;
+  }
+
+  /**
+   * Check the SSH private key before git uses it (missing file, public key selected...)
+   */
+  private checkSshKey(keyPath: string): void {
+    if (!keyPath) {
+      return; // ssh-agent / default keys
+    }
+    if (!fs.existsSync(keyPath) || !fs.statSync(keyPath).isFile()) {
+      throw new Error(`SSH key not found: ${keyPath}`);
+    }
+    const head = fs.readFileSync(keyPath, 'utf8').slice(0, 100);
+    if (/^(ssh-|ecdsa-)/.test(head)) {
+      throw new Error(`${keyPath} is a public key, select the private key instead`);
+    }
+    if (!/PRIVATE KEY/.test(head)) {
+      throw new Error(`${keyPath} is not an SSH private key`);
+    }
+  }
+
   /**
    * Initialize or clone the repository
    */
-  async initializeRepository(remoteUrl: string, pat: string): Promise<void> {
+  async initializeRepository(remoteUrl: string, auth: GitAuth): Promise<void> {
     // Create directory if not exists
     if (!fs.existsSync(this.repoPath)) {
       fs.mkdirSync(this.repoPath, { recursive: true });
     }
 
+    // Build authenticated URL and resolve branch names
+    const authUrl = this.applyAuth(remoteUrl, auth);
+    this.branches = this.buildBranchModel(await this.resolveSharedBranch(authUrl));
+    const { shared, local } = this.branches;
+
     // Check if already a git repo
     const isRepo = await this.isGitRepository();
 
     if (!isRepo) {
-      // Build authenticated URL
-      const authUrl = this.buildAuthenticatedUrl(remoteUrl, pat);
-
       // Check if directory has files (after disconnect)
       const hasFiles = fs.readdirSync(this.repoPath).length > 0;
 
       if (hasFiles) {
         // Directory has files but no .git - init and add remote
-        await this.git.init(['--initial-branch=main']);
+        await this.git.init([`--initial-branch=${local}`]);
         await this.git.addRemote('origin', authUrl);
 
         // Pull remote content (will merge with existing files)
         try {
           await this.git.fetch('origin');
           // Checkout remote branch without destroying local files
-          await this.git.checkout(['origin/main', '-B', 'main']);
+          await this.git.checkout([`origin/${shared}`, '-B', local]);
         } catch {
           // Remote might be empty, that's OK
         }
       } else {
         // Empty directory - try to clone
         try {
-          await simpleGit().clone(authUrl, this.repoPath);
+          await this.remoteGit().clone(authUrl, this.repoPath);
         } catch (error: unknown) {
           // If clone fails (empty repo), init locally
           const gitError = error as { message?: string };
           if (gitError.message?.includes('empty repository')) {
             // Init with initial branch name
-            await this.git.init(['--initial-branch=main']);
+            await this.git.init([`--initial-branch=${local}`]);
             await this.git.addRemote('origin', authUrl);
 
             // Create initial commit immediately to establish HEAD
@@ -314,8 +526,13 @@ export class GitService {
           }
         }
       }
+    } else if ((await this.git.remote(['get-url', 'origin']).catch(() => ''))?.trim() !== authUrl) {
+      // Auth mode, token or URL changed since the repo was set up
+      await this.git.remote(['set-url', 'origin', authUrl]).catch(() => this.git.addRemote('origin', authUrl));
     }
 
+    await this.ensureLocalBranch();
+
     // Configure git
     await this.git.addConfig('user.name', 'Antigravity Sync', false, 'local');
     await this.git.addConfig('user.email', 'sync@antigravity.local', false, 'local');
@@ -334,16 +551,33 @@ export class GitService {
   }
 
   /**
-   * Verify token has access to the repository
-   * Returns true if token can access repo, throws error otherwise
+   * Verify the token or SSH key has access to the repository
+   * Returns if it can access the repo, throws error otherwise
    */
-  async verifyAccess(remoteUrl: string, token: string): Promise<void> {
-    const authUrl = this.buildAuthenticatedUrl(remoteUrl, token);
+  async verifyAccess(remoteUrl: string, auth: GitAuth): Promise<void> {
+    if (auth.mode === 'ssh') {
+      this.checkSshKey(auth.keyPath);
+    }
+    const authUrl = this.applyAuth(remoteUrl, auth);
     try {
       // Use ls-remote to verify access without cloning
-      await simpleGit().listRemote([authUrl]);
+      await this.remoteGit().listRemote([authUrl]);
     } catch (error) {
       const gitError = error as { message?: string };
+      if (auth.mode === 'ssh') {
+        if (gitError.message?.includes('Permission denied')) {
+          throw new Error(auth.keyPath
+            ? `SSH key ${auth.keyPath} was rejected. Add its public key to the repository (deploy key) or your account`
+            : 'No SSH key was accepted. Load a key into ssh-agent or select a private key');
+        }
+        if (gitError.message?.includes('Host key verification failed')) {
+          throw new Error('SSH host key verification failed. The host key changed, check ~/.ssh/known_hosts');
+        }
+        if (gitError.message?.includes('Could not read from remote repository')) {
+          throw new Error('Repository not found or access denied with this SSH key');
+        }
+        throw new Error(`Cannot access repository over SSH: ${gitError.message || 'Unknown error'}`);
+      }
       if (gitError.message?.includes('401') || gitError.message?.includes('403')) {
         throw new Error('Invalid access token or no permission to access this repository');
       }
@@ -355,14 +589,65 @@ export class GitService {
   }
 
   /**
-   * Stage all changes
+   * Scan changed files before staging (null = no scanning)
+   */
+  setSecretScanner(scanner: SecretScanner | null): void {
+    this.secretScanner = scanner;
+  }
+
+  setEncryption(encryption: EncryptionService | null): void {
+    this.encryption = encryption;
+  }
+
+  /**
+   * Stage all changes (after secret scanning of changed files)
    */
   async stageAll(): Promise<void> {
+    if (this.secretScanner && this.secretScanner.getAction() !== 'off') {
+      await this.scanWorkingTree(this.secretScanner);
+    }
     await this.git.add('-A');
   }
 
   /**
-   * Commit changes
+   * Scan new and modified files in the working tree and apply the scanner action
+   * Encrypted files were scanned before encryption and are skipped here.
+   */
+  private async scanWorkingTree(scanner: SecretScanner): Promise<void> {
+    const status = await this.git.status();
+    const tracked = new Set([...status.modified, ...status.renamed.map(r => r.to)]);
+    const candidates = [...new Set([...status.not_added, ...status.created, ...tracked])]
+      .filter(f => !f.endsWith('.enc') && !path.basename(f).startsWith('.'));
+
+    const held: string[] = [];
+    for (const file of candidates) {
+      const filePath = path.join(this.repoPath, file);
+      if (!fs.existsSync(filePath) || !fs.statSync(filePath).isFile()) {
+        continue;
+      }
+
+      const content = fs.readFileSync(filePath);
+      const result = scanner.processStaged(file, content);
+      if (result.content === null) {
+        held.push(file);
+        // Keep the last committed version (or nothing) in the working tree
+        if (tracked.has(file)) {
+          await this.git.raw(['checkout', 'HEAD', '--', file]);
+        } else {
+          fs.unlinkSync(filePath);
+        }
+        this.log(`[SecretScan] ${file}: ${result.findings.length} secret(s) found, held back`, 'error');
+      } else if (result.findings.length > 0) {
+        fs.writeFileSync(filePath, result.content);
+        this.log(`[SecretScan] ${file}: ${result.findings.length} secret(s) redacted`, 'error');
+      }
+    }
+
+    scanner.assertNotBlocked(held);
+  }
+
+  /**
+   * Commit changes, recording this machine in a Machine: trailer
    */
   async commit(message: string): Promise<string | null> {
     const status = await this.git.status();
@@ -371,16 +656,55 @@ export class GitService {
       return null;
     }
 
-    const result = await this.git.commit(message);
+    const result = await this.git.commit([message, `Machine: ${os.hostname()}`]);
     return result.commit;
   }
 
+  /**
+   * Stage, commit and push everything in the sync repo
+   */
+  async push(message: string): Promise<boolean> {
+    await this.stageAll();
+    const commitHash = await this.commit(message);
+    if (commitHash) {
+      this.log(`Pushing commit ${commitHash.substring(0, 7)}...`);
+    } else {
+      // Commits made outside a push (restore, safety snapshots) still need to go out
+      const status = await this.git.status();
+      const ahead = this.branches.perMachine ? Math.max(status.ahead, await this.countUnpushedToShared()) : status.ahead;
+      if (ahead === 0 && status.tracking) {
+        return false;
+      }
+      this.log('Pushing local commits...');
+    }
+    await this.pushBranch();
+    return true;
+  }
+
+  /**
+   * Local commits the shared branch on the remote does not have yet
+   * The upstream of a machine branch is the machine branch, so its ahead count misses
+   * a shared branch push that failed after the machine branch went out.
+   */
+  private async countUnpushedToShared(): Promise<number> {
+    try {
+      return parseInt((await this.git.raw(['rev-list', '--count', `${this.getRemoteRef()}..HEAD`])).trim(), 10) || 0;
+    } catch {
+      // No shared branch on the remote yet
+      return 1;
+    }
+  }
+
   /**
    * Push to remote
+   * Per-machine mode pushes the machine branch, then fast-forwards the shared branch
    */
-  async push(): Promise<void> {
-    // Push to main
-    await this.git.push('origin', 'main', ['--set-upstream']);
+  private async pushBranch(): Promise<void> {
+    const { shared, local, perMachine } = this.branches;
+    await this.git.push('origin', local, ['--set-upstream']);
+    if (perMachine) {
+      await this.git.push('origin', `${local}:${shared}`);
+    }
   }
 
   /**
@@ -391,70 +715,211 @@ export class GitService {
   }
 
   /**
-   * Resolve binary file conflict using Smart Resolution:
-   * - If size difference > 20%: keep larger (more content)
-   * - Else: keep newer (more recent)
-   * @returns 'local' or 'remote' indicating which version was kept
+   * Read a file as it exists at a git ref (binary-safe)
+   * @returns null if the file does not exist at that ref
+   */
+  async readBlob(ref: string, relativePath: string): Promise<Buffer | null> {
+    try {
+      const { stdout } = await execFileAsync('git', ['show', `${ref}:${relativePath}`], {
+        cwd: this.repoPath,
+        encoding: 'buffer',
+        maxBuffer: 256 * 1024 * 1024
+      });
+      return stdout;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Versions of a file changed on both sides, as Smart Merge sees them
+   * @returns null when both sides made the same change
+   */
+  private async readMergeInput(file: string, mergeBase: string | null): Promise<MergeInput | null> {
+    const localVersion = await this.getLocalVersion(file);
+    const remoteVersion = await this.getRemoteVersion(file);
+    if (localVersion.blob === remoteVersion.blob) {
+      return null;
+    }
+
+    const localPath = path.join(this.repoPath, file);
+    return {
+      file,
+      local: fs.existsSync(localPath) ? fs.readFileSync(localPath) : null,
+      remote: await this.readBlob(this.getRemoteRef(), file),
+      base: mergeBase ? await this.readBlob(mergeBase, file) : null,
+      localVersion,
+      remoteVersion
+    };
+  }
+
+  /**
+   * Resolve a file changed on both sides in the working tree and journal the decision
+   * Overlapping text hunks keep the local side; the merge with conflict markers is
+   * saved as a conflict file for review.
    */
-  private async resolveBinaryConflict(relativePath: string): Promise<'local' | 'remote'> {
-    const SIZE_DIFF_THRESHOLD = 0.2; // 20%
+  private async resolveFile(file: string, mergeBase: string | null): Promise<void> {
+    const input = await this.readMergeInput(file, mergeBase);
+    if (!input) {
+      return; // Same change on both sides
+    }
+
+    const outcome = await resolveConflict(input, this.encryption);
+    const filePath = path.join(this.repoPath, file);
+    if (outcome.content) {
+      fs.mkdirSync(path.dirname(filePath), { recursive: true });
+      fs.writeFileSync(filePath, outcome.content);
+    } else {
+      fs.rmSync(filePath, { force: true });
+    }
 
-    // Get local file info from working directory
-    const localFilePath = path.join(this.repoPath, relativePath);
-    const localExists = fs.existsSync(localFilePath);
-    const localStats = localExists ? fs.statSync(localFilePath) : null;
-    const localSize = localStats?.size || 0;
-    const localMtime = localStats?.mtime || new Date(0);
+    let conflictPath: string | undefined;
+    if (outcome.markers) {
+      conflictPath = path.join(this.getConflictsPath(), file);
+      fs.mkdirSync(path.dirname(conflictPath), { recursive: true });
+      fs.writeFileSync(conflictPath, outcome.markers);
+    }
+    this.log(`[SmartSync] ${file}: ${describeOutcome(outcome)}`, outcome.markers ? 'error' : 'info');
+
+    this.journal.record({
+      file,
+      local: input.localVersion,
+      remote: input.remoteVersion,
+      chosen: outcome.chosen,
+      rule: outcome.rule,
+      ...(conflictPath ? { conflictPath } : {})
+    }, input.local ? { local: input.local } : {});
+  }
 
-    // Get remote file info from git
-    let remoteSize = 0;
-    let remoteMtime = new Date(0);
+  /**
+   * Per-machine state folder inside .git (never committed)
+   */
+  private getStatePath(): string {
+    return path.join(this.repoPath, '.git', 'antigravity-sync');
+  }
+
+  /**
+   * Folder holding text merge conflict files
+   */
+  private getConflictsPath(): string {
+    return path.join(this.getStatePath(), 'conflicts');
+  }
+
+  /**
+   * Describe the working tree version of a file
+   * The blob is not written to git: the journal keeps its own copy (see ConflictJournal.record).
+   */
+  private async getLocalVersion(relativePath: string): Promise<ConflictVersion> {
+    const filePath = path.join(this.repoPath, relativePath);
+    if (!fs.existsSync(filePath)) {
+      return { size: 0, mtime: new Date(0).toISOString(), blob: null };
+    }
+
+    const stats = fs.statSync(filePath);
+    const blob = await this.git.raw(['hash-object', '--', relativePath])
+      .then(out => out.trim() || null)
+      .catch(() => null);
+    return { size: stats.size, mtime: stats.mtime.toISOString(), blob };
+  }
+
+  /**
+   * Describe the remote version of a file (size, last commit time, blob)
+   */
+  private async getRemoteVersion(relativePath: string): Promise<ConflictVersion> {
+    const ref = this.getRemoteRef();
     try {
-      // Get remote file content to determine size
-      const content = await this.git.show([`origin/main:${relativePath}`]);
-      remoteSize = Buffer.byteLength(content, 'binary');
-
-      // Get remote commit time for this file
-      const log = await this.git.log({ file: relativePath, maxCount: 1 });
-      if (log.latest?.date) {
-        remoteMtime = new Date(log.latest.date);
-      }
+      const blob = (await this.git.raw(['rev-parse', `${ref}:${relativePath}`])).trim();
+      const size = parseInt(await this.git.raw(['cat-file', '-s', blob]), 10) || 0;
+      const date = (await this.git.raw(['log', '-1', '--format=%cI', ref, '--', relativePath])).trim();
+      return { size, mtime: date ? new Date(date).toISOString() : new Date(0).toISOString(), blob };
     } catch {
-      // File might not exist in remote, that's OK
+      // Remote does not have the file
+      return { size: 0, mtime: new Date(0).toISOString(), blob: null };
     }
+  }
+
+  /**
+   * Get conflict decisions waiting for review (newest first)
+   */
+  getConflictRecords(): ConflictRecord[] {
+    return this.journal.list();
+  }
 
-    // Calculate size difference ratio
-    const maxSize = Math.max(localSize, remoteSize);
-    const sizeDiffRatio = maxSize > 0 ? Math.abs(localSize - remoteSize) / maxSize : 0;
+  /**
+   * Read one side of a recorded conflict from the journal copy or git history
+   * @returns null if that side did not exist or the blob is gone
+   */
+  async readConflictVersion(id: string, side: ConflictSide): Promise<Buffer | null> {
+    const record = this.journal.get(id);
+    const blob = record?.[side].blob;
+    if (!blob) {
+      return null;
+    }
+    const copy = this.journal.readVersion(id, side);
+    if (copy) {
+      return copy;
+    }
 
-    let keepLocal: boolean;
+    try {
+      const { stdout } = await execFileAsync('git', ['cat-file', 'blob', blob], {
+        cwd: this.repoPath,
+        encoding: 'buffer',
+        maxBuffer: 256 * 1024 * 1024
+      });
+      return stdout;
+    } catch {
+      return null;
+    }
+  }
 
-    if (sizeDiffRatio > SIZE_DIFF_THRESHOLD) {
-      // Large size difference → keep larger file (more content = more important)
-      keepLocal = localSize >= remoteSize;
-      this.log(`[Conflict] ${relativePath}: size diff ${(sizeDiffRatio * 100).toFixed(0)}% (local: ${localSize}, remote: ${remoteSize}) → keep ${keepLocal ? 'local' : 'remote'} (larger)`);
-    } else {
-      // Similar size → keep newer file
-      keepLocal = localMtime >= remoteMtime;
-      this.log(`[Conflict] ${relativePath}: similar size → keep ${keepLocal ? 'local' : 'remote'} (newer: ${keepLocal ? localMtime.toISOString() : remoteMtime.toISOString()})`);
+  /**
+   * Replace the sync repo file with one side of a recorded conflict
+   * (e.g. flip a decision). The change is committed by the next push.
+   */
+  async applyConflictVersion(id: string, side: ConflictSide): Promise<ConflictRecord> {
+    const record = this.journal.get(id);
+    if (!record) {
+      throw new Error('Conflict record not found');
     }
 
-    // Resolve conflict by checking out the chosen version
-    if (keepLocal) {
-      await this.git.raw(['checkout', '--ours', relativePath]);
+    const content = await this.readConflictVersion(id, side);
+    const filePath = path.join(this.repoPath, record.file);
+    if (content) {
+      fs.mkdirSync(path.dirname(filePath), { recursive: true });
+      fs.writeFileSync(filePath, content);
+    } else if (record[side].blob === null) {
+      // That side had deleted the file
+      if (fs.existsSync(filePath)) {
+        fs.unlinkSync(filePath);
+      }
     } else {
-      await this.git.raw(['checkout', '--theirs', relativePath]);
+      throw new Error(`The ${side} version of ${record.file} is no longer in git history`);
     }
-    await this.git.add(relativePath);
 
-    return keepLocal ? 'local' : 'remote';
+    this.log(`[Conflict] ${record.file}: applied ${side.toUpperCase()} version (was ${record.chosen})`, 'success');
+    return this.journal.update(id, { chosen: side, flipped: true, reviewed: true })!;
+  }
+
+  /**
+   * Mark a conflict decision as reviewed (and drop its conflict file)
+   */
+  markConflictReviewed(id: string): void {
+    const record = this.journal.get(id);
+    if (record?.conflictPath && fs.existsSync(record.conflictPath)) {
+      fs.unlinkSync(record.conflictPath);
+    }
+    this.journal.markReviewed(id);
   }
 
   /**
-   * Handle Smart Merge - resolve conflicts using larger/newer wins strategy
+   * Handle Smart Merge - three-way merge for text files, larger/newer wins for binaries
+   * The resolved working tree is committed as a merge with the remote head it was
+   * resolved against. If the remote moved meanwhile, the push fails and Smart Merge
+   * runs again against the new commits.
    * @param hasStash - whether there's a stash to pop
+   * @param attempt - 1 for the first run
    */
-  private async handleSmartMerge(hasStash: boolean): Promise<void> {
+  private async handleSmartMerge(hasStash: boolean, attempt = 1): Promise<void> {
     this.log('[SmartSync] === SMART MERGE STARTED ===');
 
     // Step 1: Cleanup stale git state
@@ -482,65 +947,41 @@ export class GitService {
     await this.git.fetch('origin');
     this.log('[SmartSync] Fetch complete');
 
-    // Step 5: Get files that differ between local and remote
-    this.log('[SmartSync] Step 5: Getting differing files...');
-    let differingFiles: string[] = [];
-    try {
-      const diffOutput = await this.git.raw(['diff', '--name-only', 'HEAD', 'origin/main']);
-      differingFiles = diffOutput.split('\n').filter(f => f.trim().length > 0);
-      this.log(`[SmartSync] Diff output (${differingFiles.length} files): ${differingFiles.slice(0, 10).join(', ')}${differingFiles.length > 10 ? '...' : ''}`);
-    } catch (diffError) {
-      this.log(`[SmartSync] Diff failed: ${(diffError as Error).message}`);
-      differingFiles = [];
+    // Step 5: Get files changed on both sides since the merge base
+    // (files changed on one side only are taken as they are by the merge)
+    this.log('[SmartSync] Step 5: Getting files changed on both sides...');
+    const remoteHead = (await this.git.raw(['rev-parse', this.getRemoteRef()])).trim();
+    const mergeBase = await this.git.raw(['merge-base', 'HEAD', remoteHead])
+      .then(out => out.trim() || null)
+      .catch(() => null);
+    const { remoteChanges, localChanged } = await this.getChangesSince(mergeBase);
+    const conflictingFiles = [...remoteChanges.keys()].filter(f => localChanged.has(f));
+    this.log(`[SmartSync] Changed on both sides (${conflictingFiles.length} files): ${conflictingFiles.slice(0, 10).join(', ')}${conflictingFiles.length > 10 ? '...' : ''}`);
+
+    // Step 5a: Start a merge with the remote head that keeps our tree (-s ours), then bring
+    // in the files only the remote changed. With the files resolved below, the working tree
+    // is the whole merge result.
+    this.log(`[SmartSync] Step 5a: Merging ${remoteHead.substring(0, 7)}, taking remote-only changes...`);
+    if (mergeBase !== remoteHead) {
+      await this.git.raw(['merge', '-s', 'ours', '--no-commit', '--no-ff', '--allow-unrelated-histories', remoteHead]);
+    }
+    for (const [file, status] of remoteChanges) {
+      if (localChanged.has(file)) {
+        continue;
+      }
+      if (status === 'D') {
+        fs.rmSync(path.join(this.repoPath, file), { force: true });
+      } else {
+        await this.git.raw(['checkout', remoteHead, '--', file]);
+      }
     }
 
-    const binaryExtensions = ['.pb', '.pbtxt', '.png', '.jpg', '.webp', '.gif'];
-    const binaryFiles = differingFiles.filter(f => binaryExtensions.some(ext => f.endsWith(ext)));
-    this.log(`[SmartSync] Found ${binaryFiles.length} binary files to resolve`);
-
-    // Step 6: For binary files, apply Smart Resolution
-    this.log('[SmartSync] Step 6: Applying Smart Resolution to binary files...');
-    for (const file of binaryFiles) {
+    // Step 6: Resolve files changed on both sides (three-way text merge, conversation
+    // history, larger/newer for the rest)
+    this.log('[SmartSync] Step 6: Applying Smart Resolution...');
+    for (const file of conflictingFiles) {
       try {
-        // Get local file info
-        const localFilePath = path.join(this.repoPath, file);
-        const localExists = fs.existsSync(localFilePath);
-        const localStats = localExists ? fs.statSync(localFilePath) : null;
-        const localSize = localStats?.size || 0;
-        const localMtime = localStats?.mtime || new Date(0);
-
-        // Get remote file info
-        let remoteSize = 0;
-        let remoteMtime = new Date(0);
-        try {
-          const content = await this.git.show([`origin/main:${file}`]);
-          remoteSize = Buffer.byteLength(content, 'binary');
-          const log = await this.git.log({ file, maxCount: 1 });
-          if (log.latest?.date) remoteMtime = new Date(log.latest.date);
-        } catch { /* remote might not have file */ }
-
-        // Decide: larger wins if diff > 20%, else newer wins
-        const sizeDiffRatio = Math.max(localSize, remoteSize) > 0
-          ? Math.abs(localSize - remoteSize) / Math.max(localSize, remoteSize)
-          : 0;
-
-        let keepLocal: boolean;
-        if (sizeDiffRatio > 0.2) {
-          keepLocal = localSize >= remoteSize;
-          this.log(`[SmartSync] ${file}: size ${localSize} vs ${remoteSize} (${(sizeDiffRatio * 100).toFixed(0)}%) → keep ${keepLocal ? 'LOCAL' : 'REMOTE'} (larger)`);
-        } else {
-          keepLocal = localMtime >= remoteMtime;
-          this.log(`[SmartSync] ${file}: similar size → keep ${keepLocal ? 'LOCAL' : 'REMOTE'} (newer)`);
-        }
-
-        // If remote wins, checkout remote version
-        if (!keepLocal) {
-          this.log(`[SmartSync] Checking out remote version of ${file}...`);
-          await this.git.raw(['checkout', 'origin/main', '--', file]).catch(e =>
-            this.log(`[SmartSync] Checkout failed: ${e.message}`)
-          );
-        }
-        // If local wins, keep current file (do nothing)
+        await this.resolveFile(file, mergeBase);
       } catch (err) {
         this.log(`[SmartSync] Error processing ${file}: ${(err as Error).message}`);
       }
@@ -554,22 +995,111 @@ export class GitService {
 
     // Step 8: Commit merged result
     this.log('[SmartSync] Step 8: Committing...');
-    const commitResult = await this.git.commit('Sync: smart merge (larger/newer wins)').catch(e => `commit failed: ${e.message}`);
+    const commitResult = await this.git.commit([
+      'Sync: smart merge (three-way text, conversation history, larger/newer binary)',
+      `Machine: ${os.hostname()}`
+    ]).catch(e => `commit failed: ${e.message}`);
     this.log(`[SmartSync] Commit result: ${JSON.stringify(commitResult)}`);
 
-    // Step 9: Push (no force - safer, will fail if diverged)
+    // Step 9: Push (no force - fails if the remote moved since the fetch)
     this.log('[SmartSync] Step 9: Pushing...');
-    const pushResult = await this.git.push('origin', 'main').catch(async (e) => {
-      this.log(`[SmartSync] Push failed, trying pull then push: ${e.message}`);
-      // If push fails, pull and retry
-      await this.git.pull('origin', 'main', { '--rebase': 'false' }).catch(() => { });
-      return await this.git.push('origin', 'main').catch(e2 => `push retry failed: ${e2.message}`);
-    });
-    this.log(`[SmartSync] Push result: ${JSON.stringify(pushResult)}`);
+    const pushError = await this.pushBranch().then(() => null).catch((e: Error) => e.message);
+    if (pushError) {
+      if (attempt < MAX_SMART_MERGE_ATTEMPTS) {
+        this.log(`[SmartSync] Push failed, merging the new remote commits: ${pushError}`);
+        await this.handleSmartMerge(false, attempt + 1);
+        return;
+      }
+      this.log(`[SmartSync] Push failed after ${attempt} attempts, the merge is pushed by the next sync: ${pushError}`, 'error');
+    }
 
     this.log('[SmartSync] === SMART MERGE COMPLETE ===');
   }
 
+  /**
+   * What pull() would change in the sync repo, without touching the working tree
+   * Remote changes apply as they are, except files also changed here: those go
+   * through the Smart Merge rules.
+   */
+  async previewPull(): Promise<PlannedChange[]> {
+    await this.git.fetch('origin');
+    const remoteRef = this.getRemoteRef();
+    const remoteHead = await this.git.raw(['rev-parse', '--verify', '--quiet', remoteRef])
+      .then(out => out.trim())
+      .catch(() => '');
+    if (!remoteHead) {
+      return []; // Empty remote
+    }
+
+    const mergeBase = await this.git.raw(['merge-base', 'HEAD', remoteRef])
+      .then(out => out.trim() || null)
+      .catch(() => null);
+    if (mergeBase === remoteHead) {
+      return []; // Nothing new remotely
+    }
+
+    const { remoteChanges, localChanged } = await this.getChangesSince(mergeBase);
+
+    // Smart Merge only decides files changed on both sides; the final merge with the
+    // remote brings the rest as they are
+    const changes: PlannedChange[] = [];
+    for (const [file, status] of remoteChanges) {
+      if (localChanged.has(file)) {
+        const change = await this.previewSmartMerge(file, mergeBase);
+        if (change) {
+          changes.push(change);
+        }
+      } else if (status === 'D') {
+        changes.push({ file, action: 'delete-local', rule: 'deleted remotely' });
+      } else {
+        changes.push({ file, action: fs.existsSync(path.join(this.repoPath, file)) ? 'overwrite' : 'create', rule: 'changed remotely' });
+      }
+    }
+    return changes;
+  }
+
+  /**
+   * Files changed remotely since the merge base (with their diff status letter) and
+   * files changed here: commits not pushed yet, uncommitted and untracked files
+   */
+  private async getChangesSince(mergeBase: string | null): Promise<{ remoteChanges: Map<string, string>; localChanged: Set<string> }> {
+    const remoteRef = this.getRemoteRef();
+    const remoteChanges = new Map<string, string>();
+    if (mergeBase) {
+      const output = await this.git.raw(['-c', 'core.quotePath=false', 'diff', '--name-status', '--no-renames', mergeBase, remoteRef]);
+      for (const line of output.split('\n').filter(l => l.trim())) {
+        const [status, file] = line.split('\t');
+        remoteChanges.set(file, status.charAt(0));
+      }
+    } else {
+      for (const file of await this.listFilesAt(remoteRef)) {
+        remoteChanges.set(file, 'A');
+      }
+    }
+
+    const localChanged = new Set((await this.git.raw(
+      mergeBase
+        ? ['-c', 'core.quotePath=false', 'diff', '--name-only', '--no-renames', mergeBase]
+        : ['-c', 'core.quotePath=false', 'ls-files', '--cached']
+    )).split('\n').filter(f => f.trim()));
+    const untracked = await this.git.raw(['-c', 'core.quotePath=false', 'ls-files', '--others', '--exclude-standard']);
+    untracked.split('\n').filter(f => f.trim()).forEach(f => localChanged.add(f));
+
+    return { remoteChanges, localChanged };
+  }
+
+  /**
+   * Smart Merge decision for one file, as handleSmartMerge() would take it
+   */
+  private async previewSmartMerge(file: string, mergeBase: string | null): Promise<PlannedChange | null> {
+    const input = await this.readMergeInput(file, mergeBase);
+    if (!input) {
+      return null; // Same change on both sides
+    }
+    const outcome = await resolveConflict(input, this.encryption);
+    return { file, action: 'conflict', rule: outcome.rule, winner: outcome.chosen };
+  }
+
   /**
    * Pull from remote (handles divergent branches with rebase)
    */
@@ -598,8 +1128,10 @@ export class GitService {
 
       try {
         // Try pull with rebase to handle divergent branches
-        this.log('[GitService.pull] Attempting pull --rebase...');
-        await this.git.pull('origin', 'main', { '--rebase': 'true' });
+        // Machine branches are already pushed, so they merge instead of rebasing
+        const rebase = this.branches.perMachine ? 'false' : 'true';
+        this.log(`[GitService.pull] Attempting pull ${this.getRemoteRef()} (rebase=${rebase})...`);
+        await this.git.pull('origin', this.branches.shared, { '--rebase': rebase });
         this.log('[GitService.pull] Pull successful!');
       } catch (error: unknown) {
         const gitError = error as { message?: string };
@@ -667,17 +1199,30 @@ export class GitService {
     };
   }
 
+  /**
+   * Files changed in the working tree or in commits not pushed yet
+   */
+  async listPendingChanges(): Promise<string[]> {
+    const files = new Set((await this.git.status()).files.map(f => f.path));
+    try {
+      const output = await this.git.raw(['-c', 'core.quotePath=false', 'diff', '--name-only', `${this.getRemoteRef()}...HEAD`]);
+      output.split('\n').map(f => f.trim()).filter(Boolean).forEach(f => files.add(f));
+    } catch {
+      // Nothing pushed yet
+    }
+    return [...files].sort();
+  }
+
   /**
    * Get ahead/behind counts compared to remote
    */
   async getAheadBehind(): Promise<{ ahead: number; behind: number }> {
     try {
       await this.git.fetch('origin');
-      const status = await this.git.status();
-      return {
-        ahead: status.ahead || 0,
-        behind: status.behind || 0
-      };
+      // Compare against the shared branch (the upstream may be a machine branch)
+      const output = await this.git.raw(['rev-list', '--left-right', '--count', `HEAD...${this.getRemoteRef()}`]);
+      const [ahead, behind] = output.trim().split(/\s+/).map(n => parseInt(n, 10) || 0);
+      return { ahead: ahead || 0, behind: behind || 0 };
     } catch {
       return { ahead: 0, behind: 0 };
     }
@@ -695,6 +1240,79 @@ export class GitService {
     }
   }
 
+  /**
+   * Uncommitted changes and, with refresh, commits ahead/behind the remote
+   */
+  async status(refresh = false): Promise<BackendStatus> {
+    const { ahead, behind } = refresh ? await this.getAheadBehind() : { ahead: 0, behind: 0 };
+    const changed = await this.getChangedFiles(10);
+    return {
+      ahead,
+      behind,
+      files: changed.files,
+      totalFiles: changed.total,
+      lastSync: await this.getLastCommitDate()
+    };
+  }
+
+  /**
+   * Recent commits of the current branch
+   */
+  async history(limit = 20): Promise<HistoryEntry[]> {
+    return (await this.getCommits(limit)).map(c => ({
+      id: c.hash,
+      date: c.date,
+      message: c.message,
+      machine: c.machine,
+      files: c.files.length
+    }));
+  }
+
+  /**
+   * Recent commits with the files they changed, newest first
+   */
+  async getCommits(limit = 30): Promise<SyncCommit[]> {
+    let output: string;
+    try {
+      output = await this.git.raw([
+        '-c', 'core.quotePath=false', 'log', `--max-count=${limit}`, '--name-only',
+        '--format=%x1e%H%x1f%aI%x1f%an%x1f%s%x1f%(trailers:key=Machine,valueonly,separator=)%x1f'
+      ]);
+    } catch {
+      return []; // No commits yet
+    }
+
+    return output.split('\x1e').filter(chunk => chunk.trim()).map(chunk => {
+      const [hash, date, author, message, machine, files = ''] = chunk.split('\x1f');
+      return {
+        hash: hash.trim(),
+        date,
+        message,
+        machine: machine.trim() || author,
+        files: files.split('\n').map(f => f.trim()).filter(Boolean)
+      };
+    });
+  }
+
+  /**
+   * Every file of a commit
+   */
+  async listFilesAt(ref: string): Promise<string[]> {
+    const output = await this.git.raw(['-c', 'core.quotePath=false', 'ls-tree', '-r', '--name-only', ref]);
+    return output.split('\n').map(f => f.trim()).filter(Boolean);
+  }
+
+  /**
+   * Hash of the current commit (null before the first commit)
+   */
+  async getHeadCommit(): Promise<string | null> {
+    try {
+      return (await this.git.revparse(['HEAD'])).trim();
+    } catch {
+      return null;
+    }
+  }
+
   /**
    * Build authenticated URL for Git operations
    * Supports any Git provider: GitHub, GitLab, Bitbucket, etc.
@@ -0,0 +1,95 @@
+/**
+ * LocalFolderBackend - Sync through a plain folder
+ *
+ * For a network share, a Syncthing/Dropbox directory or an external drive.
+ * The folder must already exist: a missing share is an error, not an empty remote.
+ */
+import * as fs from 'fs';
+import * as path from 'path';
+import { ObjectStoreBackend, resolveKey } from './ObjectStoreBackend';
+
+export class LocalFolderBackend extends ObjectStoreBackend {
+  readonly kind = 'folder';
+  private readonly folderPath: string;
+
+  constructor(repoPath: string, folderPath: string) {
+    super(repoPath);
+    this.folderPath = path.resolve(folderPath);
+  }
+
+  describe(): string {
+    return `folder ${this.folderPath}`;
+  }
+
+  protected async getObject(key: string): Promise<Buffer | null> {
+    try {
+      return fs.readFileSync(this.resolve(key));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  protected async putObject(key: string, data: Buffer): Promise<void> {
+    const target = this.resolve(key);
+    fs.mkdirSync(path.dirname(target), { recursive: true });
+    // Write then rename, so other machines never read a half-written file
+    const temp = `${target}.${process.pid}.tmp`;
+    fs.writeFileSync(temp, data);
+    fs.renameSync(temp, target);
+  }
+
+  protected async createObject(key: string, data: Buffer): Promise<boolean> {
+    const target = this.resolve(key);
+    fs.mkdirSync(path.dirname(target), { recursive: true });
+    // Link a written file in place: fails if the key exists, never shows a half-written file
+    const temp = `${target}.${process.pid}.tmp`;
+    fs.writeFileSync(temp, data);
+    try {
+      fs.linkSync(temp, target);
+      return true;
+    } catch (error) {
+      const code = (error as NodeJS.ErrnoException).code;
+      if (code === 'EEXIST') {
+        return false;
+      }
+      if (code !== 'EPERM' && code !== 'ENOTSUP') {
+        throw error;
+      }
+    } finally {
+      fs.rmSync(temp, { force: true });
+    }
+
+    // No hard links (FAT drives, some shares): exclusive create
+    try {
+      fs.writeFileSync(target, data, { flag: 'wx' });
+      return true;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'EEXIST') {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  protected async deleteObject(key: string): Promise<void> {
+    const target = this.resolve(key);
+    fs.rmSync(target, { force: true });
+
+    // Remove folders left empty, up to the sync folder
+    let dir = path.dirname(target);
+    while (dir !== this.folderPath && dir.startsWith(this.folderPath) && fs.existsSync(dir) && fs.readdirSync(dir).length === 0) {
+      fs.rmdirSync(dir);
+      dir = path.dirname(dir);
+    }
+  }
+
+  private resolve(key: string): string {
+    if (!fs.existsSync(this.folderPath) || !fs.statSync(this.folderPath).isDirectory()) {
+      throw new Error(`Sync folder not found: ${this.folderPath}`);
+    }
+    return resolveKey(this.folderPath, key);
+  }
+}
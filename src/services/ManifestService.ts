@@ -0,0 +1,121 @@
+/**
+ * ManifestService - Remembers which files were in sync after the last copy
+ *
+ * A file missing on one side is only treated as deleted when the manifest
+ * says both sides had it before. Otherwise it is simply "not synced yet".
+ */
+import * as fs from 'fs';
+import * as path from 'path';
+
+export interface DeletionPlan {
+  /** Known to both sides, still in the sync repo, gone from the Gemini folder */
+  deletedLocally: string[];
+  /** Known to both sides, still in the Gemini folder, gone from the sync repo */
+  deletedRemotely: string[];
+}
+
+interface ManifestFile {
+  version: number;
+  updatedAt: string;
+  files: string[];
+}
+
+const MANIFEST_VERSION = 1;
+
+export class ManifestService {
+  private manifestPath: string;
+  private entries: Set<string>;
+
+  constructor(statePath: string) {
+    this.manifestPath = path.join(statePath, 'manifest.json');
+    this.entries = this.load();
+  }
+
+  /**
+   * Load manifest from disk (missing or corrupt manifest = nothing synced yet)
+   */
+  private load(): Set<string> {
+    if (!fs.existsSync(this.manifestPath)) {
+      return new Set();
+    }
+
+    try {
+      const content = JSON.parse(fs.readFileSync(this.manifestPath, 'utf-8')) as ManifestFile;
+      return new Set(Array.isArray(content.files) ? content.files : []);
+    } catch {
+      return new Set();
+    }
+  }
+
+  /**
+   * Persist manifest to disk
+   */
+  private save(): void {
+    const dir = path.dirname(this.manifestPath);
+    if (!fs.existsSync(dir)) {
+      fs.mkdirSync(dir, { recursive: true });
+    }
+
+    const content: ManifestFile = {
+      version: MANIFEST_VERSION,
+      updatedAt: new Date().toISOString(),
+      files: [...this.entries].sort()
+    };
+    fs.writeFileSync(this.manifestPath, JSON.stringify(content, null, 2));
+  }
+
+  /**
+   * Work out which side deleted which files since the last sync
+   */
+  reconcile(localFiles: string[], repoFiles: string[]): DeletionPlan {
+    const local = new Set(localFiles);
+    const repo = new Set(repoFiles);
+    const deletedLocally: string[] = [];
+    const deletedRemotely: string[] = [];
+
+    for (const file of this.entries) {
+      const inLocal = local.has(file);
+      const inRepo = repo.has(file);
+
+      if (inRepo && !inLocal) {
+        deletedLocally.push(file);
+      } else if (inLocal && !inRepo) {
+        deletedRemotely.push(file);
+      }
+    }
+
+    return { deletedLocally, deletedRemotely };
+  }
+
+  /**
+   * Record the state after a copy
+   * Files present on both sides are in sync. Entries present on only one side
+   * are kept so the pending deletion still propagates on the next copy.
+   */
+  update(localFiles: string[], repoFiles: string[]): void {
+    const local = new Set(localFiles);
+    const repo = new Set(repoFiles);
+    const next = new Set<string>();
+
+    for (const file of local) {
+      if (repo.has(file)) {
+        next.add(file);
+      }
+    }
+    for (const file of this.entries) {
+      if (local.has(file) || repo.has(file)) {
+        next.add(file);
+      }
+    }
+
+    this.entries = next;
+    this.save();
+  }
+
+  /**
+   * Check if a file was in sync after the last copy
+   */
+  has(relativePath: string): boolean {
+    return this.entries.has(relativePath);
+  }
+}
@@ -109,6 +109,13 @@ export class NotificationService {
           { title: 'Configure', action: () => void vscode.commands.executeCommand('antigravitySync.configure') }
         ]
       });
+    } else if (error.message.includes('Secrets detected')) {
+      void this.warning('Push blocked: secrets detected', {
+        detail: error.message,
+        actions: [
+          { title: 'Review', action: () => void vscode.commands.executeCommand('antigravitySync.openPanel') }
+        ]
+      });
     } else if (error.message.includes('404')) {
       void this.error('Repository not found', {
         detail: 'Please check the repository URL and ensure your token has access.',
@@ -0,0 +1,208 @@
+/**
+ * Notifier - Tells you when unattended automation needs attention
+ *
+ * Events from AutoRetryService and SyncService are sent to the configured sinks
+ * (VS Code toast, OS notification, HTTP webhook), at most one per trigger per
+ * rate-limit window. Settings are read on every event, so changes apply at once.
+ */
+import * as vscode from 'vscode';
+import * as os from 'os';
+import * as http from 'http';
+import * as https from 'https';
+import { execFile } from 'child_process';
+
+export type NotificationTrigger = 'retryExhausted' | 'agentStalled' | 'commandBlocked' | 'actionNeeded' | 'syncFailed';
+
+export const NOTIFICATION_TRIGGERS: NotificationTrigger[] = ['retryExhausted', 'agentStalled', 'commandBlocked', 'actionNeeded', 'syncFailed'];
+
+export type NotificationSinkName = 'toast' | 'desktop' | 'webhook';
+
+export interface NotifierEvent {
+  trigger: NotificationTrigger;
+  title: string;
+  message: string;
+  /** ISO timestamp */
+  timestamp: string;
+  /** Events of the same trigger dropped by the rate limit since the last one sent */
+  suppressed: number;
+}
+
+export interface NotificationSink {
+  readonly name: NotificationSinkName;
+  send(event: NotifierEvent): Promise<void>;
+}
+
+export interface NotifierSettings {
+  sinks: NotificationSinkName[];
+  triggers: NotificationTrigger[];
+  webhookUrl: string;
+  rateLimitSeconds: number;
+}
+
+const WEBHOOK_TIMEOUT_MS = 10000;
+
+function describe(event: NotifierEvent): string {
+  return event.suppressed > 0
+    ? `${event.message} (+${event.suppressed} more since the last notification)`
+    : event.message;
+}
+
+/**
+ * VS Code warning toast
+ */
+export class ToastSink implements NotificationSink {
+  readonly name = 'toast';
+
+  async send(event: NotifierEvent): Promise<void> {
+    void vscode.window.showWarningMessage(`${event.title}: ${describe(event)}`);
+  }
+}
+
+/**
+ * OS notification through notify-send (Linux desktops)
+ */
+export class DesktopSink implements NotificationSink {
+  readonly name = 'desktop';
+
+  send(event: NotifierEvent): Promise<void> {
+    return new Promise((resolve, reject) => {
+      execFile('notify-send', ['--app-name=Antigravity Sync', event.title, describe(event)], { timeout: 5000 }, err => {
+        if (err) {
+          reject(new Error((err as NodeJS.ErrnoException).code === 'ENOENT'
+            ? 'notify-send is not installed'
+            : err.message));
+        } else {
+          resolve();
+        }
+      });
+    });
+  }
+}
+
+/**
+ * JSON POST to a URL. `text` makes the payload readable by Slack-style incoming webhooks
+ */
+export class WebhookSink implements NotificationSink {
+  readonly name = 'webhook';
+  private url: URL;
+
+  constructor(url: string) {
+    this.url = new URL(url);
+    if (this.url.protocol !== 'http:' && this.url.protocol !== 'https:') {
+      throw new Error(`Webhook URL must be http or https: ${url}`);
+    }
+  }
+
+  send(event: NotifierEvent): Promise<void> {
+    const body = JSON.stringify({
+      text: `${event.title}: ${describe(event)}`,
+      source: 'antigravity-sync',
+      machine: os.hostname(),
+      ...event
+    });
+    const client = this.url.protocol === 'https:' ? https : http;
+
+    return new Promise((resolve, reject) => {
+      const req = client.request(this.url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', 'Content-Length': Buffer.byteLength(body) },
+        timeout: WEBHOOK_TIMEOUT_MS
+      }, res => {
+        res.resume();
+        if (res.statusCode && res.statusCode >= 200 && res.statusCode < 300) {
+          resolve();
+        } else {
+          reject(new Error(`Webhook returned ${res.statusCode}`));
+        }
+      });
+      req.on('timeout', () => req.destroy(new Error('Webhook timed out')));
+      req.on('error', reject);
+      req.end(body);
+    });
+  }
+}
+
+export class Notifier {
+  private lastSent: Map<NotificationTrigger, number> = new Map();
+  private suppressed: Map<NotificationTrigger, number> = new Map();
+
+  /**
+   * Read notification settings
+   */
+  getSettings(): NotifierSettings {
+    const config = vscode.workspace.getConfiguration('antigravitySync');
+    return {
+      sinks: config.get<NotificationSinkName[]>('notificationSinks', ['toast']),
+      triggers: config.get<NotificationTrigger[]>('notificationTriggers', NOTIFICATION_TRIGGERS),
+      webhookUrl: config.get<string>('notificationWebhookUrl', '').trim(),
+      rateLimitSeconds: config.get<number>('notificationRateLimitSeconds', 600)
+    };
+  }
+
+  /**
+   * Send an event to every configured sink unless its trigger is off or rate-limited
+   * @returns true if it was sent
+   */
+  async notify(trigger: NotificationTrigger, title: string, message: string): Promise<boolean> {
+    const settings = this.getSettings();
+    if (!settings.triggers.includes(trigger)) {
+      return false;
+    }
+
+    const now = Date.now();
+    const last = this.lastSent.get(trigger);
+    if (last !== undefined && now - last < settings.rateLimitSeconds * 1000) {
+      this.suppressed.set(trigger, (this.suppressed.get(trigger) || 0) + 1);
+      console.log(`[Notifier] Rate-limited ${trigger}: ${message}`);
+      return false;
+    }
+
+    const event: NotifierEvent = {
+      trigger,
+      title,
+      message,
+      timestamp: new Date(now).toISOString(),
+      suppressed: this.suppressed.get(trigger) || 0
+    };
+    this.lastSent.set(trigger, now);
+    this.suppressed.delete(trigger);
+
+    // One failing sink (no notify-send, webhook down) must not stop the others
+    await Promise.all(this.createSinks(settings).map(async sink => {
+      try {
+        await sink.send(event);
+      } catch (e: any) {
+        console.log(`[Notifier] ${sink.name} failed: ${e.message}`);
+      }
+    }));
+    return true;
+  }
+
+  private createSinks(settings: NotifierSettings): NotificationSink[] {
+    const sinks: NotificationSink[] = [];
+    for (const name of new Set(settings.sinks)) {
+      switch (name) {
+        case 'toast':
+          sinks.push(new ToastSink());
+          break;
+        case 'desktop':
+          sinks.push(new DesktopSink());
+          break;
+        case 'webhook':
+          if (!settings.webhookUrl) {
+            console.log('[Notifier] webhook sink enabled but notificationWebhookUrl is empty');
+            break;
+          }
+          try {
+            sinks.push(new WebhookSink(settings.webhookUrl));
+          } catch (e: any) {
+            console.log(`[Notifier] ${e.message}`);
+          }
+          break;
+        default:
+          console.log(`[Notifier] Unknown sink: ${name}`);
+      }
+    }
+    return sinks;
+  }
+}
@@ -0,0 +1,786 @@
+/**
+ * ObjectStoreBackend - Sync the local sync folder through plain file storage
+ *
+ * Base of the backends without version control (shared folder, S3 bucket).
+ * File contents are stored once under `.antigravity-sync/objects/<sha256>` and
+ * never rewritten; an index maps every path to its hash. Each push creates the
+ * next index version `.antigravity-sync/indexes/<generation>.json` with a
+ * create-only write, which commits the push and fails if another machine
+ * published that version first; `.antigravity-sync/index.json` is a copy of the
+ * latest version. A pull only downloads what changed. The index seen at the last
+ * sync is kept locally as the merge base: a file changed on both sides goes
+ * through Smart Merge and the decision is kept in the conflict journal, as with Git.
+ */
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ConflictJournal, ConflictRecord, ConflictSide } from './ConflictJournal';
+import { EncryptionService } from './EncryptionService';
+import { SecretScanner } from './SecretScanner';
+import { describeOutcome, MergeInput, MergeOutcome, resolveConflict, TEXT_MERGE_EXTENSIONS } from './SmartMerge';
+import { BackendStatus, HistoryEntry, LoggerCallback, LogType, SyncBackend, SyncBackendKind } from './SyncBackend';
+import { PlannedChange } from './SyncPlan';
+
+export const REMOTE_META_DIR = '.antigravity-sync';
+const INDEX_KEY = `${REMOTE_META_DIR}/index.json`;
+const OBJECTS_DIR = `${REMOTE_META_DIR}/objects`;
+const INDEXES_DIR = `${REMOTE_META_DIR}/indexes`;
+const HISTORY_KEY = `${REMOTE_META_DIR}/history.json`;
+const PROBE_KEY = `${REMOTE_META_DIR}/probe`;
+const MAX_HISTORY = 200;
+// Index versions kept in the storage, an object is removed once none of them uses it
+export const KEEP_INDEXES = 10;
+
+// Never uploaded: git metadata and sync state (.git/antigravity-sync), the cross-window lock
+const LOCAL_ONLY = ['.git', '.sync.lock', REMOTE_META_DIR];
+
+export interface RemoteFile {
+  /** sha256 of the content */
+  hash: string;
+  size: number;
+  /** mtime (ms) of the copy that was pushed, restored on download */
+  mtime: number;
+}
+
+export interface RemoteIndex {
+  version: 2;
+  /** Changes on every push */
+  id: string;
+  /** Number of the version, one more than the index it was pushed on (absent in older indexes) */
+  generation?: number;
+  /** ISO date of the push */
+  date: string;
+  machine: string;
+  files: Record<string, RemoteFile>;
+}
+
+/**
+ * A change pull() makes, with the Smart Merge decision for files changed on both sides
+ */
+interface PullStep {
+  change: PlannedChange;
+  merge?: { input: MergeInput; outcome: MergeOutcome };
+}
+
+const EMPTY_INDEX: RemoteIndex = { version: 2, id: '', date: '', machine: '', files: {} };
+
+/**
+ * Path of a storage key under a folder
+ * Keys come from a shared index, so anything that could leave the folder is refused:
+ * absolute paths, backslashes, empty, `.` and `..` segments.
+ */
+export function resolveKey(root: string, key: string): string {
+  const parts = key.split('/');
+  const resolved = path.resolve(root, ...parts);
+  const inside = resolved.startsWith(path.resolve(root) + path.sep);
+  if (!inside || key.includes('\\') || parts.some(part => part === '' || part === '.' || part === '..')) {
+    throw new Error(`Invalid path in sync storage: ${key}`);
+  }
+  return resolved;
+}
+
+function sha256(content: Buffer): string {
+  return crypto.createHash('sha256').update(content).digest('hex');
+}
+
+function objectKey(hash: string): string {
+  return `${OBJECTS_DIR}/${hash}`;
+}
+
+function indexKey(generation: number): string {
+  return `${INDEXES_DIR}/${generation}.json`;
+}
+
+export abstract class ObjectStoreBackend implements SyncBackend {
+  abstract readonly kind: SyncBackendKind;
+  protected readonly repoPath: string;
+  private logger?: LoggerCallback;
+  private secretScanner: SecretScanner | null = null;
+  private encryption: EncryptionService | null = null;
+  private journal: ConflictJournal;
+
+  constructor(repoPath: string) {
+    this.repoPath = repoPath;
+    this.journal = new ConflictJournal(this.getStatePath());
+  }
+
+  /**
+   * Read an object (null = does not exist)
+   */
+  protected abstract getObject(key: string): Promise<Buffer | null>;
+
+  protected abstract putObject(key: string, data: Buffer): Promise<void>;
+
+  /**
+   * Write an object only if the key does not exist yet, in one atomic step
+   * @returns false if the key already exists
+   */
+  protected abstract createObject(key: string, data: Buffer): Promise<boolean>;
+
+  /**
+   * Delete an object (no error if it does not exist)
+   */
+  protected abstract deleteObject(key: string): Promise<void>;
+
+  /**
+   * Where the files are stored, for messages
+   */
+  abstract describe(): string;
+
+  setLogger(logger: LoggerCallback): void {
+    this.logger = logger;
+  }
+
+  setSecretScanner(scanner: SecretScanner | null): void {
+    this.secretScanner = scanner;
+  }
+
+  setEncryption(encryption: EncryptionService | null): void {
+    this.encryption = encryption;
+  }
+
+  private log(message: string, type: LogType = 'info'): void {
+    const now = new Date();
+    const timestamp = `${now.getHours().toString().padStart(2, '0')}:${now.getMinutes().toString().padStart(2, '0')}`;
+    const formattedMessage = `[${timestamp}] ${message}`;
+    console.log(formattedMessage);
+    if (this.logger) {
+      this.logger(formattedMessage, type);
+    }
+  }
+
+  /**
+   * Create the local sync folder
+   */
+  async initialize(): Promise<void> {
+    fs.mkdirSync(this.getStatePath(), { recursive: true });
+  }
+
+  /**
+   * Check the storage can be written, read and deleted
+   */
+  async verifyAccess(): Promise<void> {
+    const probe = Buffer.from(`${os.hostname()} ${new Date().toISOString()}`);
+    try {
+      await this.putObject(PROBE_KEY, probe);
+      const read = await this.getObject(PROBE_KEY);
+      if (!read || !read.equals(probe)) {
+        throw new Error('a file written could not be read back');
+      }
+      await this.deleteObject(PROBE_KEY);
+    } catch (error) {
+      throw new Error(`Cannot access ${this.describe()}: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Download files changed remotely since the last sync and apply remote deletions
+   */
+  async pull(): Promise<void> {
+    const remote = await this.readRemoteIndex();
+    const base = await this.readSyncedIndex();
+    if (remote.id === base.id) {
+      this.log('Already up to date');
+      return;
+    }
+
+    this.log(`Pulling from ${this.describe()}...`);
+    let downloaded = 0;
+    let removed = 0;
+    let merged = 0;
+
+    for (const { change, merge } of await this.planPull(remote, base)) {
+      if (change.action === 'delete-local') {
+        fs.rmSync(this.localPath(change.file), { force: true });
+        removed++;
+      } else if (merge) {
+        this.applyMerge(merge.input, merge.outcome, remote.files[change.file]);
+        merged++;
+      } else if (change.action === 'conflict') {
+        this.log(`${change.file}: deleted remotely but changed here, keeping local copy`);
+      } else {
+        await this.download(change.file, remote.files[change.file]);
+        downloaded++;
+      }
+    }
+
+    this.writeBaseIndex(remote);
+    this.log(`Pulled ${downloaded} file(s), removed ${removed}` +
+      (merged > 0 ? `, resolved ${merged} conflict(s)` : ''), 'success');
+  }
+
+  /**
+   * Write the result of a Smart Merge decision and journal it
+   * Both versions are copied to the journal, so the decision can be flipped later.
+   */
+  private applyMerge(input: MergeInput, outcome: MergeOutcome, remoteFile: RemoteFile): void {
+    if (outcome.chosen === 'remote' && input.remote) {
+      this.writeLocal(input.file, input.remote, remoteFile.mtime);
+    } else if (outcome.chosen === 'merged' && outcome.content) {
+      this.writeLocal(input.file, outcome.content);
+    }
+
+    let conflictPath: string | undefined;
+    if (outcome.markers) {
+      conflictPath = path.join(this.getStatePath(), 'conflicts', ...input.file.split('/'));
+      fs.mkdirSync(path.dirname(conflictPath), { recursive: true });
+      fs.writeFileSync(conflictPath, outcome.markers);
+    }
+    this.log(`${input.file}: changed on both sides, ${describeOutcome(outcome)}`, outcome.markers ? 'error' : 'info');
+
+    const copies: Partial<Record<ConflictSide, Buffer>> = {};
+    if (input.local) {
+      copies.local = input.local;
+    }
+    if (input.remote) {
+      copies.remote = input.remote;
+    }
+    this.journal.record({
+      file: input.file,
+      local: input.localVersion,
+      remote: input.remoteVersion,
+      chosen: outcome.chosen,
+      rule: outcome.rule,
+      ...(conflictPath ? { conflictPath } : {})
+    }, copies);
+  }
+
+  /**
+   * What pull() would do, without downloading anything
+   */
+  async previewPull(): Promise<PlannedChange[]> {
+    const remote = await this.readRemoteIndex();
+    const base = await this.readSyncedIndex();
+    return remote.id === base.id ? [] : (await this.planPull(remote, base)).map(step => step.change);
+  }
+
+  /**
+   * Compare the remote index with the index of the last sync and the local files
+   * A file changed on both sides goes through Smart Merge (its remote version is
+   * downloaded to decide), a file deleted remotely but changed here is kept.
+   */
+  private async planPull(remote: RemoteIndex, base: RemoteIndex): Promise<PullStep[]> {
+    const local = this.scanLocal(base);
+    const steps: PullStep[] = [];
+
+    for (const file of new Set([...Object.keys(remote.files), ...Object.keys(base.files)])) {
+      const remoteFile = remote.files[file];
+      const baseFile = base.files[file];
+      const localFile = local.get(file);
+      if (remoteFile?.hash === baseFile?.hash) {
+        continue;
+      }
+      const localChanged = localFile?.hash !== baseFile?.hash;
+
+      if (!remoteFile) {
+        if (localFile) {
+          steps.push({
+            change: localChanged
+              ? { file, action: 'conflict', rule: 'deleted remotely, changed here', winner: 'local' }
+              : { file, action: 'delete-local', rule: 'deleted remotely' }
+          });
+        }
+        continue;
+      }
+
+      if (localFile?.hash === remoteFile.hash) {
+        continue;
+      }
+      if (localChanged && localFile) {
+        const input: MergeInput = {
+          file,
+          local: fs.readFileSync(this.localPath(file)),
+          remote: await this.fetchObject(file, remoteFile),
+          base: baseFile ? await this.readBaseContent(baseFile.hash) : null,
+          localVersion: { size: localFile.size, mtime: new Date(localFile.mtime).toISOString(), blob: localFile.hash },
+          remoteVersion: { size: remoteFile.size, mtime: new Date(remoteFile.mtime).toISOString(), blob: remoteFile.hash }
+        };
+        const outcome = await resolveConflict(input, this.encryption);
+        steps.push({ change: { file, action: 'conflict', rule: outcome.rule, winner: outcome.chosen }, merge: { input, outcome } });
+        continue;
+      }
+      steps.push({ change: { file, action: localFile ? 'overwrite' : 'create', rule: 'changed remotely' } });
+    }
+    return steps;
+  }
+
+  /**
+   * Upload new contents, then publish the next index version
+   * Objects the expired index version used are removed once the new one is published.
+   */
+  async push(message: string): Promise<boolean> {
+    let remote = await this.readRemoteIndex();
+    if (remote.id !== this.readBaseIndex().id) {
+      // Someone pushed since our last sync
+      await this.pull();
+      remote = this.readBaseIndex();
+    }
+
+    if (this.secretScanner && this.secretScanner.getAction() !== 'off') {
+      await this.scanChanges(this.secretScanner, remote);
+    }
+
+    const local = this.scanLocal(remote);
+    const changed = [...local].filter(([file, entry]) => remote.files[file]?.hash !== entry.hash);
+    const deletes = Object.keys(remote.files).filter(file => !local.has(file));
+    if (changed.length === 0 && deletes.length === 0) {
+      return false;
+    }
+
+    this.log(`Pushing ${changed.length} file(s), deleting ${deletes.length} on ${this.describe()}...`);
+    const stored = new Set(Object.values(remote.files).map(entry => entry.hash));
+    for (const [file, entry] of changed) {
+      // Hash the bytes sent, in case the file changed since the scan
+      const content = fs.readFileSync(this.localPath(file));
+      entry.hash = sha256(content);
+      entry.size = content.length;
+      if (!stored.has(entry.hash)) {
+        await this.putObject(objectKey(entry.hash), content);
+        stored.add(entry.hash);
+      }
+    }
+
+    const index: RemoteIndex = {
+      version: 2,
+      id: crypto.randomBytes(8).toString('hex'),
+      generation: (remote.generation || 0) + 1,
+      date: new Date().toISOString(),
+      machine: os.hostname(),
+      files: Object.fromEntries(local)
+    };
+    const data = Buffer.from(JSON.stringify(index));
+    if (!await this.createObject(indexKey(index.generation!), data)) {
+      // Lost the race: the other index stays, our changes are pushed again by the next sync
+      const latest = await this.readRemoteIndex();
+      throw new Error(`${this.describe()} was updated by ${latest.machine || 'another machine'} during the push, sync again`);
+    }
+    // Readers look for newer versions, so a stale copy only costs a request
+    await this.putObject(INDEX_KEY, data);
+
+    this.writeBaseIndex(index);
+    await this.appendHistory({
+      id: index.id,
+      date: index.date,
+      message,
+      machine: index.machine,
+      files: changed.length + deletes.length
+    });
+    await this.removeExpiredIndex(index);
+    this.log(`Pushed to ${this.describe()}`, 'success');
+    return true;
+  }
+
+  /**
+   * Delete the index version that fell out of the kept ones, and the objects only it used
+   * Machines that have not pulled the newest versions yet, or whose push raced this
+   * one, still find the objects of every kept version. Failures only leave unused
+   * objects behind.
+   */
+  private async removeExpiredIndex(current: RemoteIndex): Promise<void> {
+    const expired = current.generation! - KEEP_INDEXES;
+    if (expired < 1) {
+      return;
+    }
+
+    try {
+      const old = await this.readIndexVersion(expired);
+      if (!old) {
+        return;
+      }
+      const used = new Set<string>();
+      for (let generation = expired + 1; generation <= current.generation!; generation++) {
+        const kept = generation === current.generation ? current : await this.readIndexVersion(generation);
+        if (!kept) {
+          // Cannot tell what is still used
+          return;
+        }
+        Object.values(kept.files).forEach(entry => used.add(entry.hash));
+      }
+
+      for (const hash of new Set(Object.values(old.files).map(entry => entry.hash))) {
+        if (!used.has(hash)) {
+          await this.deleteObject(objectKey(hash));
+        }
+      }
+      await this.deleteObject(indexKey(expired));
+    } catch (error) {
+      this.log(`Could not remove unused objects: ${(error as Error).message}`, 'error');
+    }
+  }
+
+  /**
+   * Local changes since the last sync and, with refresh, remote changes not pulled yet
+   */
+  async listPendingChanges(): Promise<string[]> {
+    const base = this.readBaseIndex();
+    const local = this.scanLocal(base);
+    return [
+      ...[...local].filter(([file, entry]) => base.files[file]?.hash !== entry.hash).map(([file]) => file),
+      ...Object.keys(base.files).filter(file => !local.has(file))
+    ];
+  }
+
+  async status(refresh = false): Promise<BackendStatus> {
+    const base = this.readBaseIndex();
+    const changed = await this.listPendingChanges();
+
+    let behind = 0;
+    if (refresh) {
+      try {
+        const remote = await this.readRemoteIndex();
+        if (remote.id !== base.id) {
+          behind = new Set([...Object.keys(remote.files), ...Object.keys(base.files)]
+            .filter(file => remote.files[file]?.hash !== base.files[file]?.hash)).size;
+        }
+      } catch {
+        // Offline - report local changes only
+      }
+    }
+
+    return {
+      ahead: 0,
+      behind,
+      files: changed.slice(0, 10),
+      totalFiles: changed.length,
+      lastSync: base.date || null
+    };
+  }
+
+  /**
+   * Pushes recorded in `.antigravity-sync/history.json`, newest first
+   */
+  async history(limit = 20): Promise<HistoryEntry[]> {
+    return (await this.readHistory()).slice(-limit).reverse();
+  }
+
+  /**
+   * Get conflict decisions waiting for review (newest first)
+   */
+  getConflictRecords(): ConflictRecord[] {
+    return this.journal.list();
+  }
+
+  /**
+   * Read one side of a recorded conflict (both sides are copied to the journal)
+   */
+  async readConflictVersion(id: string, side: ConflictSide): Promise<Buffer | null> {
+    return this.journal.readVersion(id, side);
+  }
+
+  /**
+   * Replace the sync folder file with one side of a recorded conflict
+   * The change is uploaded by the next push.
+   */
+  async applyConflictVersion(id: string, side: ConflictSide): Promise<ConflictRecord> {
+    const record = this.journal.get(id);
+    if (!record) {
+      throw new Error('Conflict record not found');
+    }
+
+    const content = this.journal.readVersion(id, side);
+    if (content) {
+      this.writeLocal(record.file, content);
+    } else if (record[side].blob === null) {
+      fs.rmSync(this.localPath(record.file), { force: true });
+    } else {
+      throw new Error(`The ${side} version of ${record.file} is no longer available`);
+    }
+
+    this.log(`[Conflict] ${record.file}: applied ${side.toUpperCase()} version (was ${record.chosen})`, 'success');
+    return this.journal.update(id, { chosen: side, flipped: true, reviewed: true })!;
+  }
+
+  markConflictReviewed(id: string): void {
+    const record = this.journal.get(id);
+    if (record?.conflictPath && fs.existsSync(record.conflictPath)) {
+      fs.unlinkSync(record.conflictPath);
+    }
+    this.journal.markReviewed(id);
+  }
+
+  /**
+   * Apply the secret scanner to files changed since the last sync
+   * Held files go back to their synced version (or are removed if new).
+   */
+  private async scanChanges(scanner: SecretScanner, base: RemoteIndex): Promise<void> {
+    const held: string[] = [];
+    for (const [file, entry] of this.scanLocal(base)) {
+      const baseFile = base.files[file];
+      if (baseFile?.hash === entry.hash || file.endsWith('.enc') || path.posix.basename(file).startsWith('.')) {
+        continue;
+      }
+
+      const filePath = this.localPath(file);
+      const result = scanner.processStaged(file, fs.readFileSync(filePath));
+      if (result.content === null) {
+        held.push(file);
+        if (baseFile) {
+          await this.download(file, baseFile);
+        } else {
+          fs.unlinkSync(filePath);
+        }
+        this.log(`[SecretScan] ${file}: ${result.findings.length} secret(s) found, held back`, 'error');
+      } else if (result.findings.length > 0) {
+        fs.writeFileSync(filePath, result.content);
+        this.log(`[SecretScan] ${file}: ${result.findings.length} secret(s) redacted`, 'error');
+      }
+    }
+
+    scanner.assertNotBlocked(held);
+  }
+
+  private async download(file: string, entry: RemoteFile): Promise<void> {
+    this.writeLocal(file, await this.fetchObject(file, entry), entry.mtime);
+  }
+
+  /**
+   * Read the stored content of an index entry
+   * The index hash is trusted by later scans, so a damaged copy is refused.
+   */
+  private async fetchObject(file: string, entry: RemoteFile): Promise<Buffer> {
+    const content = await this.getObject(objectKey(entry.hash));
+    if (!content) {
+      throw new Error(`${file} is listed in the index but missing from ${this.describe()}`);
+    }
+    if (sha256(content) !== entry.hash) {
+      throw new Error(`${file} does not match its hash in the index of ${this.describe()}`);
+    }
+    return content;
+  }
+
+  /**
+   * @param mtime - mtime of the pushed copy, so the next scan can skip hashing it
+   */
+  private writeLocal(file: string, content: Buffer, mtime?: number): void {
+    const filePath = this.localPath(file);
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, content);
+    if (mtime !== undefined) {
+      fs.utimesSync(filePath, new Date(), new Date(mtime));
+    }
+  }
+
+  /**
+   * Content of a file at the last sync, the merge base of a conflict
+   * Text files and conversations are kept in the state folder; older contents
+   * may still be in the storage.
+   */
+  private async readBaseContent(hash: string): Promise<Buffer | null> {
+    const copyPath = path.join(this.getBaseContentPath(), hash);
+    if (fs.existsSync(copyPath)) {
+      return fs.readFileSync(copyPath);
+    }
+    try {
+      const content = await this.getObject(objectKey(hash));
+      return content && sha256(content) === hash ? content : null;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Keep the synced content of text files and conversations for the next merge
+   */
+  private saveBaseContents(index: RemoteIndex): void {
+    const wanted = new Map<string, string>();
+    for (const [file, entry] of Object.entries(index.files)) {
+      if (this.isMergeable(file)) {
+        wanted.set(entry.hash, file);
+      }
+    }
+
+    const dir = this.getBaseContentPath();
+    fs.mkdirSync(dir, { recursive: true });
+    for (const name of fs.readdirSync(dir)) {
+      if (!wanted.has(name)) {
+        fs.rmSync(path.join(dir, name), { force: true });
+      }
+    }
+    for (const [hash, file] of wanted) {
+      const filePath = this.localPath(file);
+      if (fs.existsSync(path.join(dir, hash)) || !fs.existsSync(filePath)) {
+        continue;
+      }
+      // Files kept or merged locally differ from the index, their base stays in the storage
+      const content = fs.readFileSync(filePath);
+      if (sha256(content) === hash) {
+        fs.writeFileSync(path.join(dir, hash), content);
+      }
+    }
+  }
+
+  /**
+   * Hash every file of the local sync folder
+   * Files with the size and mtime recorded in `known` reuse its hash.
+   */
+  private scanLocal(known: RemoteIndex): Map<string, RemoteFile> {
+    const files = new Map<string, RemoteFile>();
+    const walk = (dir: string, prefix: string): void => {
+      for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+        const relativePath = prefix ? `${prefix}/${entry.name}` : entry.name;
+        if (!prefix && LOCAL_ONLY.includes(entry.name)) {
+          continue;
+        }
+        const fullPath = path.join(dir, entry.name);
+        if (entry.isDirectory()) {
+          walk(fullPath, relativePath);
+        } else if (entry.isFile()) {
+          const stats = fs.statSync(fullPath);
+          const mtime = Math.floor(stats.mtimeMs);
+          const previous = known.files[relativePath];
+          const hash = previous && previous.size === stats.size && previous.mtime === mtime
+            ? previous.hash
+            : sha256(fs.readFileSync(fullPath));
+          files.set(relativePath, { hash, size: stats.size, mtime });
+        }
+      }
+    };
+
+    if (fs.existsSync(this.repoPath)) {
+      walk(this.repoPath, '');
+    }
+    return files;
+  }
+
+  /**
+   * Latest index version
+   * `index.json` is written after the version is created, so a push that stopped in
+   * between leaves it behind, and on a synced folder it may come from a push that lost.
+   * The versions are what counts: the one it names, then any newer one.
+   */
+  private async readRemoteIndex(): Promise<RemoteIndex> {
+    const data = await this.getObject(INDEX_KEY);
+    let index = data ? this.parseIndex(data) : EMPTY_INDEX;
+    if (index.generation) {
+      index = await this.readIndexVersion(index.generation) || index;
+    }
+    for (let next = await this.readIndexVersion((index.generation || 0) + 1); next;
+      next = await this.readIndexVersion(next.generation! + 1)) {
+      index = next;
+    }
+
+    // An unmounted share or wrong prefix must not look like "everything was deleted"
+    if (!index.id && this.readBaseIndex().id) {
+      throw new Error(`No sync index found in ${this.describe()}, but this machine has synced there before. ` +
+        'Check the location is available, or disconnect and connect again to start over.');
+    }
+    return index;
+  }
+
+  /**
+   * One index version (null = not stored, or already expired)
+   */
+  private async readIndexVersion(generation: number): Promise<RemoteIndex | null> {
+    const data = await this.getObject(indexKey(generation));
+    if (!data) {
+      return null;
+    }
+    const index = this.parseIndex(data);
+    if (index.generation !== generation) {
+      throw new Error(`Invalid sync index version in ${this.describe()}: ${generation}`);
+    }
+    return index;
+  }
+
+  private parseIndex(data: Buffer): RemoteIndex {
+    const index = JSON.parse(data.toString('utf8')) as RemoteIndex;
+    if (index.version !== 2 || !index.files) {
+      throw new Error(`Unsupported sync index in ${this.describe()}`);
+    }
+    for (const [file, entry] of Object.entries(index.files)) {
+      resolveKey(this.repoPath, file);
+      if (LOCAL_ONLY.includes(file.split('/')[0]) || !/^[0-9a-f]{64}$/.test(entry?.hash)) {
+        throw new Error(`Invalid entry in the sync index of ${this.describe()}: ${file}`);
+      }
+    }
+    return index;
+  }
+
+  /**
+   * Index of the last sync, the merge base of the next pull
+   * Racing pushes through a synced folder (Syncthing, Dropbox) can both create the
+   * same version before the folders sync; one of them is dropped. When that was the
+   * push of this machine, its parent is the base instead: the changes of the lost
+   * push count as local changes again, are merged and pushed by the next push.
+   */
+  private async readSyncedIndex(): Promise<RemoteIndex> {
+    const base = this.readBaseIndex();
+    if (!base.generation) {
+      return base;
+    }
+    const published = await this.readIndexVersion(base.generation);
+    if (!published || published.id === base.id) {
+      return base;
+    }
+
+    this.log(`The push of ${base.date} was replaced by ${published.machine || 'another machine'}, merging its changes again`, 'error');
+    return (base.generation > 1 ? await this.readIndexVersion(base.generation - 1) : null) || EMPTY_INDEX;
+  }
+
+  private async readHistory(): Promise<HistoryEntry[]> {
+    const data = await this.getObject(HISTORY_KEY);
+    if (!data) {
+      return [];
+    }
+    try {
+      const history = JSON.parse(data.toString('utf8'));
+      return Array.isArray(history) ? history : [];
+    } catch {
+      return [];
+    }
+  }
+
+  private async appendHistory(entry: HistoryEntry): Promise<void> {
+    const history = [...await this.readHistory(), entry].slice(-MAX_HISTORY);
+    await this.putObject(HISTORY_KEY, Buffer.from(JSON.stringify(history, null, 2)));
+  }
+
+  /**
+   * Per-machine state, next to the other sync state so disconnect resets it
+   */
+  private getStatePath(): string {
+    return path.join(this.repoPath, '.git', 'antigravity-sync');
+  }
+
+  private readBaseIndex(): RemoteIndex {
+    try {
+      return JSON.parse(fs.readFileSync(path.join(this.getStatePath(), 'backend-index.json'), 'utf8'));
+    } catch {
+      return EMPTY_INDEX;
+    }
+  }
+
+  private writeBaseIndex(index: RemoteIndex): void {
+    fs.mkdirSync(this.getStatePath(), { recursive: true });
+    fs.writeFileSync(path.join(this.getStatePath(), 'backend-index.json'), JSON.stringify(index));
+    this.saveBaseContents(index);
+  }
+
+  /**
+   * Whether Smart Merge uses the merge base of a file (text files and conversations)
+   * Encrypted files are told apart by the path in their header.
+   */
+  private isMergeable(file: string): boolean {
+    let mergePath = file;
+    if (EncryptionService.isEncryptedPath(file)) {
+      if (!this.encryption) {
+        return false;
+      }
+      try {
+        mergePath = this.encryption.readPath(this.localPath(file));
+      } catch {
+        return false;
+      }
+    }
+    return TEXT_MERGE_EXTENSIONS.includes(path.posix.extname(mergePath).toLowerCase()) || mergePath.endsWith('.pb');
+  }
+
+  private getBaseContentPath(): string {
+    return path.join(this.getStatePath(), 'base');
+  }
+
+  private localPath(file: string): string {
+    return resolveKey(this.repoPath, file);
+  }
+}
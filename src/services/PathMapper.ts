@@ -0,0 +1,194 @@
+/**
+ * PathMapper - Rewrites absolute workspace paths between machines
+ *
+ * Antigravity keys conversation history by absolute workspace path. With a
+ * mapping like `/Users/alice/src` (remote form) <-> `/home/alice/code` (this
+ * machine), files are normalized to the remote form on push and rewritten to
+ * the local form on pull:
+ * - path-keyed directory names (URI-encoded paths)
+ * - text files (.json, .md, .txt, .yaml...) - plain paths and file:// URIs
+ * - protobuf files (.pb) - string fields are rewritten and lengths re-encoded
+ */
+import * as path from 'path';
+import { PathMapping } from './ConfigService';
+import { ConversationDecoder, WIRE_LENGTH_DELIMITED } from './ConversationDecoder';
+
+const TEXT_EXTENSIONS = ['.json', '.md', '.txt', '.yaml', '.yml', '.pbtxt'];
+const PROTOBUF_EXTENSIONS = ['.pb'];
+
+// Stop a replacement from matching a longer path (/home/a/code vs /home/a/code2)
+const PATH_CONTINUATION = /[A-Za-z0-9._~-]/;
+
+interface Replacement {
+  from: string;
+  to: string;
+}
+
+export class PathMapper {
+  private toLocalReplacements: Replacement[];
+  private toRemoteReplacements: Replacement[];
+
+  constructor(mappings: PathMapping[]) {
+    // Longest prefix first, so nested mappings win over their parents
+    const sorted = (key: 'local' | 'remote') => [...mappings].sort((a, b) => b[key].length - a[key].length);
+    this.toLocalReplacements = PathMapper.expand(sorted('remote').map(m => ({ from: m.remote, to: m.local })));
+    this.toRemoteReplacements = PathMapper.expand(sorted('local').map(m => ({ from: m.local, to: m.remote })));
+  }
+
+  /**
+   * Add the encoded forms a path can take in files (file:// URIs, URI components)
+   */
+  private static expand(replacements: Replacement[]): Replacement[] {
+    const expanded: Replacement[] = [];
+    for (const { from, to } of replacements) {
+      expanded.push({ from: encodeURIComponent(from), to: encodeURIComponent(to) });
+      expanded.push({ from: 'file://' + encodeURI(from), to: 'file://' + encodeURI(to) });
+      expanded.push({ from, to });
+    }
+    return expanded;
+  }
+
+  isEmpty(): boolean {
+    return this.toLocalReplacements.length === 0;
+  }
+
+  /**
+   * Gemini-relative path on this machine -> path in the sync repo
+   */
+  toRemotePath(relativePath: string): string {
+    return this.mapPath(relativePath, this.toRemoteReplacements);
+  }
+
+  /**
+   * Path in the sync repo -> Gemini-relative path on this machine
+   */
+  toLocalPath(relativePath: string): string {
+    return this.mapPath(relativePath, this.toLocalReplacements);
+  }
+
+  /**
+   * Normalize file content for the sync repo
+   */
+  toRemoteContent(relativePath: string, content: Buffer): Buffer {
+    return this.mapContent(relativePath, content, this.toRemoteReplacements);
+  }
+
+  /**
+   * Rewrite file content from the sync repo for this machine
+   */
+  toLocalContent(relativePath: string, content: Buffer): Buffer {
+    return this.mapContent(relativePath, content, this.toLocalReplacements);
+  }
+
+  /**
+   * Only directory names holding a whole URI-encoded path are rewritten
+   */
+  private mapPath(relativePath: string, replacements: Replacement[]): string {
+    if (replacements.length === 0) {
+      return relativePath;
+    }
+    return relativePath
+      .split(path.sep)
+      .map(segment => segment.includes('%2F') || segment.includes('%5C')
+        ? PathMapper.replaceAll(segment, replacements)
+        : segment)
+      .join(path.sep);
+  }
+
+  private mapContent(relativePath: string, content: Buffer, replacements: Replacement[]): Buffer {
+    if (replacements.length === 0) {
+      return content;
+    }
+
+    const ext = path.extname(relativePath).toLowerCase();
+    if (TEXT_EXTENSIONS.includes(ext)) {
+      const text = content.toString('utf-8');
+      // Not valid UTF-8 - leave it alone rather than corrupt it
+      if (!Buffer.from(text, 'utf-8').equals(content)) {
+        return content;
+      }
+      const mapped = PathMapper.replaceAll(text, replacements);
+      return mapped === text ? content : Buffer.from(mapped, 'utf-8');
+    }
+
+    if (PROTOBUF_EXTENSIONS.includes(ext)) {
+      return PathMapper.mapProtobuf(content, replacements) || content;
+    }
+
+    return content;
+  }
+
+  /**
+   * Rewrite string fields of a protobuf message, re-encoding lengths
+   * @returns null if the buffer is not a protobuf message
+   */
+  private static mapProtobuf(buffer: Buffer, replacements: Replacement[]): Buffer | null {
+    const fields = ConversationDecoder.parseFields(buffer);
+    if (!fields) {
+      return null;
+    }
+
+    let changed = false;
+    const parts = fields.map(f => {
+      if (f.wireType !== WIRE_LENGTH_DELIMITED || !PathMapper.containsAny(f.payload!, replacements)) {
+        return f.raw;
+      }
+
+      // Nested message first; strings that happen to parse as messages keep the path unreplaced
+      let payload = PathMapper.mapProtobuf(f.payload!, replacements);
+      if (!payload || PathMapper.containsAny(payload, replacements)) {
+        payload = PathMapper.mapString(f.payload!, replacements);
+      }
+      if (!payload || payload.equals(f.payload!)) {
+        return f.raw;
+      }
+
+      changed = true;
+      return Buffer.concat([
+        PathMapper.encodeVarint(f.field * 8 + WIRE_LENGTH_DELIMITED),
+        PathMapper.encodeVarint(payload.length),
+        payload
+      ]);
+    });
+
+    return changed ? Buffer.concat(parts) : buffer;
+  }
+
+  private static mapString(payload: Buffer, replacements: Replacement[]): Buffer | null {
+    const text = payload.toString('utf-8');
+    if (!Buffer.from(text, 'utf-8').equals(payload)) {
+      return null;
+    }
+    return Buffer.from(PathMapper.replaceAll(text, replacements), 'utf-8');
+  }
+
+  private static containsAny(buffer: Buffer, replacements: Replacement[]): boolean {
+    return replacements.some(r => buffer.includes(r.from));
+  }
+
+  private static replaceAll(text: string, replacements: Replacement[]): string {
+    for (const { from, to } of replacements) {
+      let index = text.indexOf(from);
+      while (index !== -1) {
+        const next = text[index + from.length];
+        if (next !== undefined && PATH_CONTINUATION.test(next)) {
+          index = text.indexOf(from, index + from.length);
+          continue;
+        }
+        text = text.slice(0, index) + to + text.slice(index + from.length);
+        index = text.indexOf(from, index + to.length);
+      }
+    }
+    return text;
+  }
+
+  private static encodeVarint(value: number): Buffer {
+    const bytes: number[] = [];
+    while (value >= 0x80) {
+      bytes.push((value % 128) | 0x80);
+      value = Math.floor(value / 128);
+    }
+    bytes.push(value);
+    return Buffer.from(bytes);
+  }
+}
@@ -0,0 +1,201 @@
+/**
+ * S3Backend - Sync through an S3-compatible bucket (AWS S3, MinIO, R2, B2...)
+ *
+ * Plain HTTP requests signed with AWS Signature Version 4, no SDK.
+ * A custom endpoint uses path-style URLs (http://localhost:9000/bucket/key),
+ * as MinIO and most self-hosted stores expect; AWS uses virtual-hosted URLs.
+ */
+import * as crypto from 'crypto';
+import * as http from 'http';
+import * as https from 'https';
+import { ObjectStoreBackend } from './ObjectStoreBackend';
+
+export interface S3Location {
+  /** '' = AWS (https://<bucket>.s3.<region>.amazonaws.com) */
+  endpoint: string;
+  region: string;
+  bucket: string;
+  /** Folder inside the bucket ('' = bucket root) */
+  prefix: string;
+}
+
+export interface S3Credentials {
+  accessKeyId: string;
+  secretAccessKey: string;
+}
+
+export interface SignableRequest {
+  method: string;
+  url: URL;
+  headers: Record<string, string>;
+  /** Hex sha256 of the body */
+  payloadHash: string;
+}
+
+const REQUEST_TIMEOUT_MS = 30000;
+
+function sha256(data: string | Buffer): string {
+  return crypto.createHash('sha256').update(data).digest('hex');
+}
+
+function hmac(key: string | Buffer, data: string): Buffer {
+  return crypto.createHmac('sha256', key).update(data).digest();
+}
+
+/**
+ * RFC 3986 encoding required by SigV4 (encodeURIComponent leaves !'()* alone)
+ */
+function uriEncode(value: string): string {
+  return encodeURIComponent(value).replace(/[!'()*]/g, c => `%${c.charCodeAt(0).toString(16).toUpperCase()}`);
+}
+
+/**
+ * Sign a request with AWS Signature Version 4
+ * @returns the headers to send, including Authorization
+ */
+export function signRequest(
+  request: SignableRequest,
+  region: string,
+  credentials: S3Credentials,
+  date: Date = new Date()
+): Record<string, string> {
+  const amzDate = date.toISOString().replace(/[:-]|\.\d{3}/g, '');
+  const dateStamp = amzDate.slice(0, 8);
+  const headers: Record<string, string> = {
+    ...request.headers,
+    host: request.url.host,
+    'x-amz-date': amzDate,
+    'x-amz-content-sha256': request.payloadHash
+  };
+
+  const names = Object.keys(headers).map(name => name.toLowerCase()).sort();
+  const values = Object.fromEntries(Object.entries(headers).map(([name, value]) => [name.toLowerCase(), value.trim()]));
+  const signedHeaders = names.join(';');
+  const query = [...request.url.searchParams]
+    .map(([name, value]) => `${uriEncode(name)}=${uriEncode(value)}`)
+    .sort()
+    .join('&');
+  const canonicalRequest = [
+    request.method,
+    request.url.pathname,
+    query,
+    names.map(name => `${name}:${values[name]}\n`).join(''),
+    signedHeaders,
+    request.payloadHash
+  ].join('\n');
+
+  const scope = `${dateStamp}/${region}/s3/aws4_request`;
+  const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, sha256(canonicalRequest)].join('\n');
+  const signingKey = hmac(hmac(hmac(hmac(`AWS4${credentials.secretAccessKey}`, dateStamp), region), 's3'), 'aws4_request');
+  const signature = crypto.createHmac('sha256', signingKey).update(stringToSign).digest('hex');
+
+  return {
+    ...headers,
+    Authorization: `AWS4-HMAC-SHA256 Credential=${credentials.accessKeyId}/${scope}, ` +
+      `SignedHeaders=${signedHeaders}, Signature=${signature}`
+  };
+}
+
+export class S3Backend extends ObjectStoreBackend {
+  readonly kind = 's3';
+  private readonly location: S3Location;
+  private readonly credentials: S3Credentials;
+  private readonly prefix: string;
+
+  constructor(repoPath: string, location: S3Location, credentials: S3Credentials) {
+    super(repoPath);
+    this.location = location;
+    this.credentials = credentials;
+    const prefix = location.prefix.replace(/^\/+|\/+$/g, '');
+    this.prefix = prefix ? `${prefix}/` : '';
+  }
+
+  describe(): string {
+    return `s3://${this.location.bucket}/${this.prefix}`;
+  }
+
+  protected async getObject(key: string): Promise<Buffer | null> {
+    const response = await this.request('GET', key);
+    return response.status === 404 ? null : response.body;
+  }
+
+  protected async putObject(key: string, data: Buffer): Promise<void> {
+    await this.request('PUT', key, data);
+  }
+
+  /**
+   * Conditional PUT (If-None-Match: *). Stores that ignore the header overwrite,
+   * as an unconditional push would.
+   */
+  protected async createObject(key: string, data: Buffer): Promise<boolean> {
+    const response = await this.request('PUT', key, data, { 'if-none-match': '*' });
+    return response.status < 300;
+  }
+
+  protected async deleteObject(key: string): Promise<void> {
+    await this.request('DELETE', key);
+  }
+
+  private objectUrl(key: string): URL {
+    const objectPath = `${this.prefix}${key}`.split('/').map(uriEncode).join('/');
+    if (!this.location.endpoint) {
+      return new URL(`https://${this.location.bucket}.s3.${this.location.region}.amazonaws.com/${objectPath}`);
+    }
+    const endpoint = new URL(this.location.endpoint);
+    endpoint.pathname = `${endpoint.pathname.replace(/\/+$/, '')}/${uriEncode(this.location.bucket)}/${objectPath}`;
+    return endpoint;
+  }
+
+  /**
+   * Send a signed request. GET may return 404 for a missing key, a conditional PUT
+   * 412 or 409 for a key that exists or is being written, any other non-2xx status throws
+   */
+  private request(
+    method: string,
+    key: string,
+    body: Buffer = Buffer.alloc(0),
+    extraHeaders: Record<string, string> = {}
+  ): Promise<{ status: number; body: Buffer }> {
+    const url = this.objectUrl(key);
+    const headers = signRequest(
+      { method, url, headers: { ...extraHeaders, 'content-length': String(body.length) }, payloadHash: sha256(body) },
+      this.location.region,
+      this.credentials
+    );
+    const client = url.protocol === 'https:' ? https : http;
+
+    return new Promise((resolve, reject) => {
+      const req = client.request(url, { method, headers, timeout: REQUEST_TIMEOUT_MS }, res => {
+        const chunks: Buffer[] = [];
+        res.on('data', chunk => chunks.push(chunk));
+        res.on('error', reject);
+        res.on('end', () => {
+          const status = res.statusCode || 0;
+          const content = Buffer.concat(chunks);
+          if (status >= 200 && status < 300) {
+            resolve({ status, body: content });
+            return;
+          }
+          // S3 errors are XML: <Error><Code>AccessDenied</Code><Message>...</Message></Error>
+          const xml = content.toString('utf8');
+          const code = xml.match(/<Code>([^<]*)<\/Code>/)?.[1] || `HTTP ${status}`;
+          const message = xml.match(/<Message>([^<]*)<\/Message>/)?.[1];
+          // A missing object, not a missing bucket (that must not look like an empty remote)
+          if (status === 404 && method === 'GET' && code !== 'NoSuchBucket') {
+            resolve({ status, body: content });
+            return;
+          }
+          // The precondition failed, or a concurrent conditional write is in progress
+          if ((status === 412 || (status === 409 && code === 'ConditionalRequestConflict')) && extraHeaders['if-none-match']) {
+            resolve({ status, body: content });
+            return;
+          }
+          reject(new Error(`S3 ${method} ${key} failed: ${code}${message ? ` (${message})` : ''}`));
+        });
+      });
+      req.on('timeout', () => req.destroy(new Error(`S3 ${method} ${key} timed out`)));
+      req.on('error', reject);
+      req.end(body);
+    });
+  }
+}
@@ -0,0 +1,347 @@
+/**
+ * SecretScanner - Content scanning of files before they are committed
+ *
+ * Detects common token formats and high-entropy strings, then applies the
+ * configured action:
+ * - block: abort the push
+ * - redact: mask the secret in the sync repo copy (same length, so binary
+ *   .pb files keep their structure). The local file is left untouched.
+ * - quarantine: hold the file back from sync until it is clean or allowed
+ *
+ * Findings are persisted so the dashboard can show them. Allowed secrets are
+ * remembered by hash only.
+ */
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+
+export type SecretAction = 'off' | 'block' | 'redact' | 'quarantine';
+
+export interface SecretFinding {
+  file: string;
+  rule: string;
+  line: number;
+  /** Masked preview, never the secret itself */
+  preview: string;
+  /** sha256 of the secret (used to allow false positives) */
+  fingerprint: string;
+}
+
+export interface SecretScanResult {
+  /** Content to commit (redacted when needed), null = do not commit this file */
+  content: Buffer | null;
+  findings: SecretFinding[];
+}
+
+interface SecretRule {
+  name: string;
+  pattern: RegExp;
+  /** Capture group holding the secret (default: whole match) */
+  group?: number;
+}
+
+interface ScannerState {
+  version: number;
+  findings: Record<string, SecretFinding[]>;
+  allowed: string[];
+  /** sha256 of redacted repo copies, so a pull does not overwrite the local original */
+  redacted: Record<string, string>;
+}
+
+const STATE_VERSION = 1;
+const MASK_CHAR = '*';
+const VISIBLE_PREFIX = 4;
+
+const RULES: SecretRule[] = [
+  { name: 'private-key', pattern: /-----BEGIN [A-Z ]*PRIVATE KEY-----[\s\S]{0,8192}?-----END [A-Z ]*PRIVATE KEY-----/g },
+  { name: 'aws-access-key', pattern: /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/g },
+  { name: 'github-token', pattern: /\b(?:gh[pousr]_[A-Za-z0-9]{36,}|github_pat_[A-Za-z0-9_]{60,})\b/g },
+  { name: 'gitlab-token', pattern: /\bglpat-[A-Za-z0-9_-]{20,}\b/g },
+  { name: 'slack-token', pattern: /\bxox[abposr]-[A-Za-z0-9-]{10,}\b/g },
+  { name: 'google-api-key', pattern: /\bAIza[0-9A-Za-z_-]{35}\b/g },
+  { name: 'anthropic-api-key', pattern: /\bsk-ant-[A-Za-z0-9_-]{32,}\b/g },
+  { name: 'openai-api-key', pattern: /\bsk-(?:proj-)?[A-Za-z0-9_-]{32,}\b/g },
+  { name: 'stripe-key', pattern: /\b[rs]k_live_[A-Za-z0-9]{24,}\b/g },
+  { name: 'jwt', pattern: /\beyJ[A-Za-z0-9_-]{10,}\.eyJ[A-Za-z0-9_-]{10,}\.[A-Za-z0-9_-]{10,}\b/g },
+  {
+    name: 'secret-assignment',
+    pattern: /\b(?:api[_-]?key|secret|token|password|passwd)["']?\s*[:=]\s*["']?([A-Za-z0-9+/_.-]{16,})/gi,
+    group: 1
+  }
+];
+
+// High-entropy candidates: mixed-case base64-ish words of token length
+const ENTROPY_CANDIDATE = /[A-Za-z0-9+/_-]{32,100}/g;
+const MIN_ENTROPY_BITS = 4.3;
+// Longer runs are encoded data (images, protobuf blobs), not credentials
+const MAX_ENCODED_RUN = 100;
+
+export class SecretScanner {
+  private statePath: string;
+  private action: SecretAction;
+  private state: ScannerState;
+  // file -> "size:mtime" of the last scan, to skip unchanged files
+  private cache = new Map<string, { key: string; findings: SecretFinding[] }>();
+
+  constructor(statePath: string, action: SecretAction) {
+    this.statePath = path.join(statePath, 'secret-scan.json');
+    this.action = action;
+    this.state = this.load();
+  }
+
+  private load(): ScannerState {
+    const empty: ScannerState = { version: STATE_VERSION, findings: {}, allowed: [], redacted: {} };
+    if (!fs.existsSync(this.statePath)) {
+      return empty;
+    }
+    try {
+      return { ...empty, ...JSON.parse(fs.readFileSync(this.statePath, 'utf-8')) };
+    } catch {
+      return empty;
+    }
+  }
+
+  private save(): void {
+    fs.mkdirSync(path.dirname(this.statePath), { recursive: true });
+    fs.writeFileSync(this.statePath, JSON.stringify(this.state, null, 2));
+  }
+
+  getAction(): SecretAction {
+    return this.action;
+  }
+
+  /**
+   * Find secrets in a file's content (allowed fingerprints are skipped)
+   */
+  scan(relativePath: string, content: Buffer): SecretFinding[] {
+    if (this.action === 'off') {
+      return [];
+    }
+
+    // latin1 keeps a 1:1 byte/char mapping, so offsets stay valid for binary files
+    const text = content.toString('latin1');
+    const findings: SecretFinding[] = [];
+    const seen = new Set<string>();
+
+    const add = (rule: string, secret: string, index: number) => {
+      const fingerprint = crypto.createHash('sha256').update(secret).digest('hex');
+      if (seen.has(`${index}:${secret.length}`) || this.state.allowed.includes(fingerprint)) {
+        return;
+      }
+      seen.add(`${index}:${secret.length}`);
+      findings.push({
+        file: relativePath,
+        rule,
+        line: text.slice(0, index).split('\n').length,
+        preview: SecretScanner.mask(secret).slice(0, 24),
+        fingerprint
+      });
+    };
+
+    const covered: Array<[number, number]> = [];
+    for (const rule of RULES) {
+      for (const match of text.matchAll(rule.pattern)) {
+        const secret = rule.group ? match[rule.group] : match[0];
+        const index = match.index! + match[0].indexOf(secret);
+        covered.push([index, index + secret.length]);
+        add(rule.name, secret, index);
+      }
+    }
+
+    for (const match of text.matchAll(ENTROPY_CANDIDATE)) {
+      const start = match.index!;
+      const end = start + match[0].length;
+      const before = text[start - 1];
+      const after = text[end];
+      // Part of a longer encoded run
+      if ((before && /[A-Za-z0-9+/_-]/.test(before)) || (after && /[A-Za-z0-9+/_-]/.test(after)) ||
+        match[0].length >= MAX_ENCODED_RUN) {
+        continue;
+      }
+      if (covered.some(([s, e]) => start < e && end > s)) {
+        continue;
+      }
+      if (SecretScanner.looksRandom(match[0])) {
+        add('high-entropy', match[0], start);
+      }
+    }
+
+    return findings;
+  }
+
+  /**
+   * Scan a local file on its way into the sync repo and apply the configured action
+   * Findings of the file are replaced (a clean scan clears them).
+   * @param cacheKey - e.g. size + mtime, unchanged files are not rescanned
+   */
+  process(relativePath: string, content: Buffer, cacheKey?: string): SecretScanResult {
+    const cached = cacheKey ? this.cache.get(relativePath) : undefined;
+    const findings = cached && cached.key === cacheKey
+      ? cached.findings
+      : this.scan(relativePath, content);
+    if (cacheKey) {
+      this.cache.set(relativePath, { key: cacheKey, findings });
+    }
+
+    this.setFindings(relativePath, findings);
+    return this.apply(relativePath, content, findings);
+  }
+
+  /**
+   * Scan a file already in the sync repo working tree, right before staging
+   * Only adds findings: the repo copy may be the redacted one.
+   */
+  processStaged(relativePath: string, content: Buffer): SecretScanResult {
+    const findings = this.scan(relativePath, content);
+    if (findings.length > 0) {
+      this.setFindings(relativePath, findings);
+    }
+    return this.apply(relativePath, content, findings);
+  }
+
+  private apply(relativePath: string, content: Buffer, findings: SecretFinding[]): SecretScanResult {
+    if (findings.length === 0) {
+      return { content, findings };
+    }
+    if (this.action === 'redact') {
+      return { content: this.redact(relativePath, content, findings), findings };
+    }
+    // block and quarantine: keep the file out of the commit
+    return { content: null, findings };
+  }
+
+  /**
+   * Forget findings of files that no longer exist
+   */
+  prune(existingFiles: string[]): void {
+    const existing = new Set(existingFiles);
+    const stale = Object.keys(this.state.findings).filter(f => !existing.has(f));
+    if (stale.length === 0) {
+      return;
+    }
+    for (const file of stale) {
+      delete this.state.findings[file];
+    }
+    this.save();
+  }
+
+  /**
+   * Throw if files were held back in block mode
+   * @param files - files to check (default: every file with findings)
+   */
+  assertNotBlocked(files: string[] = Object.keys(this.state.findings)): void {
+    if (this.action !== 'block') {
+      return;
+    }
+    const blocked = files.filter(f => (this.state.findings[f] || []).length > 0);
+    if (blocked.length > 0) {
+      throw new Error(
+        `Secrets detected in ${blocked.length} file(s), push blocked: ${blocked.slice(0, 3).join(', ')}` +
+        `${blocked.length > 3 ? '...' : ''}. Review them in the Sync Dashboard.`
+      );
+    }
+  }
+
+  /**
+   * Mask findings in place (same length)
+   */
+  private redact(relativePath: string, content: Buffer, findings: SecretFinding[]): Buffer {
+    const text = content.toString('latin1');
+    let redacted = text;
+    for (const rule of RULES) {
+      redacted = redacted.replace(rule.pattern, (match: string, ...groups: unknown[]) => {
+        const secret = rule.group ? String(groups[rule.group - 1]) : match;
+        const fingerprint = crypto.createHash('sha256').update(secret).digest('hex');
+        if (!findings.some(f => f.fingerprint === fingerprint)) {
+          return match;
+        }
+        return match.replace(secret, SecretScanner.mask(secret));
+      });
+    }
+    for (const finding of findings.filter(f => f.rule === 'high-entropy')) {
+      redacted = redacted.replace(ENTROPY_CANDIDATE, (match: string) =>
+        crypto.createHash('sha256').update(match).digest('hex') === finding.fingerprint
+          ? SecretScanner.mask(match)
+          : match
+      );
+    }
+
+    const result = Buffer.from(redacted, 'latin1');
+    this.state.redacted[relativePath] = crypto.createHash('sha256').update(result).digest('hex');
+    this.save();
+    return result;
+  }
+
+  /**
+   * Check if a sync repo file is our own redacted copy (the local file has the original)
+   */
+  isRedactedCopy(relativePath: string, content: Buffer): boolean {
+    const hash = this.state.redacted[relativePath];
+    return !!hash && crypto.createHash('sha256').update(content).digest('hex') === hash;
+  }
+
+  /**
+   * Check if a file is held back from sync
+   */
+  isQuarantined(relativePath: string): boolean {
+    return this.action === 'quarantine' && (this.state.findings[relativePath] || []).length > 0;
+  }
+
+  /**
+   * Current findings, all files
+   */
+  getFindings(): SecretFinding[] {
+    return Object.values(this.state.findings).flat();
+  }
+
+  /**
+   * Mark the findings of a file as false positives
+   */
+  allow(relativePath: string): void {
+    const findings = this.state.findings[relativePath] || [];
+    this.state.allowed.push(...findings.map(f => f.fingerprint).filter(f => !this.state.allowed.includes(f)));
+    delete this.state.findings[relativePath];
+    this.cache.delete(relativePath);
+    this.save();
+  }
+
+  private setFindings(relativePath: string, findings: SecretFinding[]): void {
+    const previous = this.state.findings[relativePath];
+    if (findings.length === 0 && !previous) {
+      return;
+    }
+    if (findings.length === 0) {
+      delete this.state.findings[relativePath];
+    } else {
+      this.state.findings[relativePath] = findings;
+    }
+    this.save();
+  }
+
+  /**
+   * Same-length mask, keeping a short prefix so the token type stays recognizable
+   */
+  static mask(secret: string): string {
+    const visible = secret.length > VISIBLE_PREFIX * 2 ? VISIBLE_PREFIX : 0;
+    return secret.slice(0, visible) + MASK_CHAR.repeat(secret.length - visible);
+  }
+
+  /**
+   * Mixed case + digits and high Shannon entropy (bits per char)
+   */
+  private static looksRandom(word: string): boolean {
+    if (!/[a-z]/.test(word) || !/[A-Z]/.test(word) || !/[0-9]/.test(word)) {
+      return false;
+    }
+    const counts = new Map<string, number>();
+    for (const ch of word) {
+      counts.set(ch, (counts.get(ch) || 0) + 1);
+    }
+    let entropy = 0;
+    for (const count of counts.values()) {
+      const p = count / word.length;
+      entropy -= p * Math.log2(p);
+    }
+    return entropy >= MIN_ENTROPY_BITS;
+  }
+}
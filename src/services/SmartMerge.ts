@@ -0,0 +1,213 @@
+/**
+ * SmartMerge - Resolution of a file changed on both sides, shared by every backend
+ *
+ * Text artifacts get a three-way merge against the merge base, conversations are
+ * resolved on their decoded history, anything else keeps the larger copy (or the
+ * newer one when the sizes are close). Encrypted files are decided on their
+ * decrypted content.
+ */
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import { ConflictChoice, ConflictRule, ConflictVersion } from './ConflictJournal';
+import { ConversationDecoder } from './ConversationDecoder';
+import { EncryptionService } from './EncryptionService';
+
+const execFileAsync = promisify(execFile);
+
+// Text artifacts that get a real three-way merge instead of a whole-file winner
+export const TEXT_MERGE_EXTENSIONS = ['.md', '.json', '.txt', '.yaml', '.yml'];
+
+export interface MergeInput {
+  /** Path of the file, picks the strategy */
+  file: string;
+  /** Content on each side (null = deleted on that side) */
+  local: Buffer | null;
+  remote: Buffer | null;
+  /** Content at the merge base (null = unknown or added on both sides) */
+  base: Buffer | null;
+  localVersion: ConflictVersion;
+  remoteVersion: ConflictVersion;
+}
+
+export interface MergeOutcome {
+  chosen: ConflictChoice;
+  rule: ConflictRule;
+  /** Content of the file after the merge (null = deleted) */
+  content: Buffer | null;
+  /** Text merge kept for review (conflict markers, or a JSON merge that does not parse) */
+  markers?: Buffer;
+}
+
+/**
+ * Run git merge-file on three versions (needs no repository)
+ * @returns merged content and number of conflicting hunks
+ */
+export async function runMergeFile(
+  local: Buffer,
+  base: Buffer,
+  remote: Buffer,
+  favorLocal: boolean
+): Promise<{ content: Buffer; conflicts: number }> {
+  const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'antigravity-merge-'));
+  try {
+    const localPath = path.join(tmpDir, 'local');
+    const basePath = path.join(tmpDir, 'base');
+    const remotePath = path.join(tmpDir, 'remote');
+    fs.writeFileSync(localPath, local);
+    fs.writeFileSync(basePath, base);
+    fs.writeFileSync(remotePath, remote);
+
+    const args = ['merge-file', '-p', '-L', 'local', '-L', 'base', '-L', 'remote'];
+    if (favorLocal) {
+      args.push('--ours');
+    }
+    args.push(localPath, basePath, remotePath);
+
+    try {
+      const { stdout } = await execFileAsync('git', args, { encoding: 'buffer', maxBuffer: 64 * 1024 * 1024 });
+      return { content: stdout, conflicts: 0 };
+    } catch (error) {
+      // Exit code = number of conflicts (positive), still prints the merge to stdout
+      const mergeError = error as { code?: number; stdout?: Buffer };
+      if (typeof mergeError.code === 'number' && mergeError.code > 0 && mergeError.code < 128 && mergeError.stdout) {
+        return { content: mergeError.stdout, conflicts: mergeError.code };
+      }
+      throw error;
+    }
+  } finally {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  }
+}
+
+/**
+ * Smart Resolution of a file resolved as a whole:
+ * larger wins if the sizes differ by more than 20%, else newer wins
+ */
+export function chooseBinaryWinner(local: ConflictVersion, remote: ConflictVersion): { keepLocal: boolean; rule: ConflictRule } {
+  const maxSize = Math.max(local.size, remote.size);
+  const sizeDiffRatio = maxSize > 0 ? Math.abs(local.size - remote.size) / maxSize : 0;
+  if (sizeDiffRatio > 0.2) {
+    return { keepLocal: local.size >= remote.size, rule: 'larger' };
+  }
+  return { keepLocal: new Date(local.mtime) >= new Date(remote.mtime), rule: 'newer' };
+}
+
+/**
+ * Decide a file changed on both sides
+ * Edits from both sides of a text file are kept; overlapping hunks keep the local
+ * side and the full merge with conflict markers is returned for review. A JSON
+ * merge that does not parse keeps a whole side instead, like a binary file.
+ * @param encryption - key of `.enc` files: they are merged decrypted and the
+ *   result is encrypted again (conflict markers stay decrypted, they never leave
+ *   this machine). Without it they are resolved as a whole.
+ */
+export async function resolveConflict(input: MergeInput, encryption?: EncryptionService | null): Promise<MergeOutcome> {
+  const decrypted = encryption && EncryptionService.isEncryptedPath(input.file) ? decryptInput(input, encryption) : null;
+  if (!decrypted) {
+    return resolvePlain(input);
+  }
+
+  const outcome = await resolvePlain(decrypted.input);
+  let content = outcome.content;
+  if (outcome.chosen === 'local') {
+    content = input.local;
+  } else if (outcome.chosen === 'remote') {
+    content = input.remote;
+  } else if (content) {
+    content = encryption!.encrypt(decrypted.relativePath, content);
+  }
+  return { ...outcome, content };
+}
+
+/**
+ * Decrypt every side of an encrypted conflict
+ * @returns null if a side cannot be decrypted (other key or damaged file)
+ */
+function decryptInput(input: MergeInput, encryption: EncryptionService): { relativePath: string; input: MergeInput } | null {
+  try {
+    const local = input.local ? encryption.decrypt(input.local) : null;
+    const remote = input.remote ? encryption.decrypt(input.remote) : null;
+    const base = input.base ? encryption.decrypt(input.base) : null;
+    const relativePath = (local || remote)?.relativePath;
+    if (!relativePath) {
+      return null;
+    }
+    return {
+      relativePath,
+      input: {
+        file: relativePath,
+        local: local ? local.content : null,
+        remote: remote ? remote.content : null,
+        base: base ? base.content : null,
+        localVersion: { ...input.localVersion, size: local ? local.content.length : 0 },
+        remoteVersion: { ...input.remoteVersion, size: remote ? remote.content.length : 0 }
+      }
+    };
+  } catch {
+    return null;
+  }
+}
+
+async function resolvePlain(input: MergeInput): Promise<MergeOutcome> {
+  const { file, local, remote, base } = input;
+
+  const extension = path.extname(file).toLowerCase();
+  if (local && remote && TEXT_MERGE_EXTENSIONS.includes(extension)) {
+    // No common ancestor = both sides added the file independently, merge against empty base
+    const merged = await runMergeFile(local, base || Buffer.alloc(0), remote, false);
+    const content = merged.conflicts === 0
+      ? merged.content
+      : (await runMergeFile(local, base || Buffer.alloc(0), remote, true)).content;
+
+    if (extension !== '.json' || isValidJson(content)) {
+      return merged.conflicts === 0
+        ? { chosen: 'merged', rule: 'three-way-merge', content }
+        : { chosen: 'merged', rule: 'three-way-overlap', content, markers: merged.content };
+    }
+
+    // Both sides parse but the line merge does not: keep a whole side, save the merge for review
+    const { keepLocal, rule } = chooseBinaryWinner(input.localVersion, input.remoteVersion);
+    return { chosen: keepLocal ? 'local' : 'remote', rule, content: keepLocal ? local : remote, markers: merged.content };
+  }
+
+  if (local && remote && file.endsWith('.pb')) {
+    const resolution = ConversationDecoder.resolve(local, remote, base);
+    if (resolution) {
+      const content = resolution.winner === 'merged' ? resolution.content : resolution.winner === 'local' ? local : remote;
+      return { chosen: resolution.winner, rule: resolution.rule, content };
+    }
+  }
+
+  const { keepLocal, rule } = chooseBinaryWinner(input.localVersion, input.remoteVersion);
+  return { chosen: keepLocal ? 'local' : 'remote', rule, content: keepLocal ? local : remote };
+}
+
+function isValidJson(content: Buffer): boolean {
+  try {
+    JSON.parse(content.toString('utf8'));
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Log line for a decision, e.g. "three-way merged cleanly", "keep REMOTE (larger)"
+ */
+export function describeOutcome(outcome: MergeOutcome): string {
+  switch (outcome.rule) {
+    case 'three-way-merge':
+      return 'three-way merged cleanly';
+    case 'three-way-overlap':
+      return 'overlapping hunks → kept LOCAL for those hunks, saved conflict file';
+    case 'conversation-union':
+      return 'both sides appended → merged histories';
+    default:
+      return outcome.markers
+        ? `merge is not valid JSON → keep ${outcome.chosen.toUpperCase()} (${outcome.rule}), saved conflict file`
+        : `keep ${outcome.chosen.toUpperCase()} (${outcome.rule})`;
+  }
+}
@@ -0,0 +1,98 @@
+/**
+ * Snapshot - Points in the sync history and what a restore covers
+ *
+ * A snapshot is a sync commit (or a push for non-git backends). Paths are
+ * Gemini-relative paths on this machine (decrypted and remapped).
+ */
+
+export interface SyncSnapshot {
+  /** Commit hash (or push id) */
+  id: string;
+  /** ISO date */
+  date: string;
+  message: string;
+  machine: string;
+  /** Files changed by this snapshot */
+  files: string[];
+  /** Conversations changed by this snapshot */
+  conversations: string[];
+  /** Files can be previewed and restored (git only) */
+  restorable: boolean;
+}
+
+export type RestoreTarget =
+  | { scope: 'all' }
+  | { scope: 'folder'; path: string }
+  | { scope: 'conversation'; id: string }
+  | { scope: 'file'; path: string };
+
+export interface RestoreResult {
+  /** Files written from the snapshot */
+  restored: number;
+  /** Files removed because they did not exist at that point */
+  removed: number;
+  /** Commit holding the state before the restore */
+  safetySnapshot: string | null;
+}
+
+/**
+ * Conversation a file belongs to: conversations/<id>.pb and brain/<id>/...
+ */
+export function getConversationId(file: string): string | null {
+  const conversation = file.match(/^conversations\/([^/]+)\.pb$/);
+  if (conversation) {
+    return conversation[1];
+  }
+  const brain = file.match(/^brain\/([^/]+)\//);
+  return brain ? brain[1] : null;
+}
+
+/**
+ * Distinct conversations touched by a list of files, in order of appearance
+ */
+export function getConversationIds(files: string[]): string[] {
+  return [...new Set(files.map(getConversationId).filter((id): id is string => !!id))];
+}
+
+export function isInRestoreScope(file: string, target: RestoreTarget): boolean {
+  switch (target.scope) {
+    case 'all':
+      return true;
+    case 'folder':
+      return file.startsWith(`${target.path.replace(/\/+$/, '')}/`);
+    case 'conversation':
+      return getConversationId(file) === target.id;
+    case 'file':
+      return file === target.path;
+  }
+}
+
+export function describeRestoreTarget(target: RestoreTarget): string {
+  switch (target.scope) {
+    case 'all':
+      return 'all synced files';
+    case 'folder':
+      return `${target.path.replace(/\/+$/, '')}/`;
+    case 'conversation':
+      return `conversation ${target.id}`;
+    case 'file':
+      return target.path;
+  }
+}
+
+/**
+ * Folders that can be restored on their own: top-level folders and their direct children
+ */
+export function listRestoreFolders(files: string[]): string[] {
+  const folders = new Set<string>();
+  for (const file of files) {
+    const parts = file.split('/');
+    if (parts.length > 1) {
+      folders.add(parts[0]);
+    }
+    if (parts.length > 2) {
+      folders.add(`${parts[0]}/${parts[1]}`);
+    }
+  }
+  return [...folders].sort();
+}
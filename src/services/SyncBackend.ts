@@ -0,0 +1,110 @@
+/**
+ * SyncBackend - Storage the sync folder is mirrored to
+ *
+ * SyncService copies the Gemini folder into the local sync folder
+ * (~/.gemini-sync-repo), then a backend moves that folder to and from its
+ * storage: a Git remote (GitService), a plain folder or an S3-compatible bucket.
+ */
+import { ConflictRecord, ConflictSide } from './ConflictJournal';
+import { EncryptionService } from './EncryptionService';
+import { SecretScanner } from './SecretScanner';
+import { PlannedChange } from './SyncPlan';
+
+export type SyncBackendKind = 'git' | 'folder' | 's3';
+
+export const SYNC_BACKENDS: SyncBackendKind[] = ['git', 'folder', 's3'];
+
+export type LogType = 'info' | 'success' | 'error';
+export type LoggerCallback = (message: string, type: LogType) => void;
+
+export interface BackendStatus {
+  /** Local commits not pushed yet (git only) */
+  ahead: number;
+  /** Remote changes not pulled yet (commits for git, files otherwise) */
+  behind: number;
+  /** Local changes not pushed yet, first few */
+  files: string[];
+  totalFiles: number;
+  /** ISO date of the last push, null if never */
+  lastSync: string | null;
+}
+
+export interface HistoryEntry {
+  /** Commit hash or push id */
+  id: string;
+  /** ISO date */
+  date: string;
+  message: string;
+  /** Machine that pushed it, when known */
+  machine?: string;
+  /** Number of files changed, when known */
+  files?: number;
+}
+
+export interface SyncBackend {
+  readonly kind: SyncBackendKind;
+
+  /**
+   * Bring remote changes into the sync folder
+   */
+  pull(): Promise<void>;
+
+  /**
+   * What pull() would change in the sync folder, without changing anything
+   * Paths are sync folder paths. Uses the same decisions as pull().
+   */
+  previewPull(): Promise<PlannedChange[]>;
+
+  /**
+   * Sync folder files changed since the last push, sent by the next push()
+   * (for git also files committed but not pushed yet)
+   */
+  listPendingChanges(): Promise<string[]>;
+
+  /**
+   * Send changes of the sync folder to the remote
+   * @returns false when there was nothing to push
+   */
+  push(message: string): Promise<boolean>;
+
+  /**
+   * @param refresh - check the remote first (slower, needed for `behind`)
+   */
+  status(refresh?: boolean): Promise<BackendStatus>;
+
+  /**
+   * Past pushes, newest first
+   */
+  history(limit?: number): Promise<HistoryEntry[]>;
+
+  /**
+   * Smart Merge decisions from the conflict journal, newest first
+   * Paths are sync folder paths.
+   */
+  getConflictRecords(): ConflictRecord[];
+
+  /**
+   * Read one side of a recorded conflict
+   * @returns null if that side did not exist or is no longer available
+   */
+  readConflictVersion(id: string, side: ConflictSide): Promise<Buffer | null>;
+
+  /**
+   * Write one side of a recorded conflict to the sync folder and mark it reviewed
+   */
+  applyConflictVersion(id: string, side: ConflictSide): Promise<ConflictRecord>;
+
+  markConflictReviewed(id: string): void;
+
+  setLogger(logger: LoggerCallback): void;
+
+  /**
+   * Scan changed files before they are pushed (null = no scanning)
+   */
+  setSecretScanner(scanner: SecretScanner | null): void;
+
+  /**
+   * Key of `.enc` files, so Smart Merge can merge their content (null = resolved as a whole)
+   */
+  setEncryption(encryption: EncryptionService | null): void;
+}
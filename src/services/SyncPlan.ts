@@ -0,0 +1,82 @@
+/**
+ * SyncPlan - What a sync, push or pull would do to each file
+ *
+ * The same plans drive the real copy steps of SyncService and the dry-run
+ * preview, so the preview cannot drift from what a sync really does.
+ */
+import { ConflictChoice } from './ConflictJournal';
+
+export type SyncMode = 'sync' | 'push' | 'pull';
+
+export type PlanAction =
+  /** Local file copied to the sync repo and pushed */
+  | 'push'
+  /** Removed from the remote (deleted on this machine) */
+  | 'delete-remote'
+  /** Local file replaced by the synced version */
+  | 'overwrite'
+  /** New file written to the Gemini folder */
+  | 'create'
+  /** Removed from the Gemini folder (deleted on another machine) */
+  | 'delete-local'
+  /** Changed on both sides, resolved by a rule */
+  | 'conflict'
+  /** Kept out of the push by the secret scanner */
+  | 'held-back';
+
+export interface PlannedChange {
+  /** Gemini-relative path (backends use sync folder paths) */
+  file: string;
+  action: PlanAction;
+  /** What decided it: "changed remotely", "larger", "three-way-merge"... */
+  rule: string;
+  /** Side that is kept (conflicts only) */
+  winner?: ConflictChoice;
+}
+
+export interface SyncPreview {
+  mode: SyncMode;
+  /** ISO date */
+  createdAt: string;
+  changes: PlannedChange[];
+}
+
+export const PLAN_ACTION_LABELS: Record<PlanAction, string> = {
+  'push': 'to push',
+  'delete-remote': 'deleted remotely',
+  'overwrite': 'overwritten locally',
+  'create': 'created locally',
+  'delete-local': 'deleted locally',
+  'conflict': 'conflict',
+  'held-back': 'held back'
+};
+
+/**
+ * Whether the remote version ends up in the sync folder (or a merge of both sides)
+ */
+export function bringsRemoteContent(change: PlannedChange): boolean {
+  if (change.action === 'conflict') {
+    return change.winner === 'remote' || change.winner === 'merged';
+  }
+  return change.action === 'overwrite' || change.action === 'create';
+}
+
+/**
+ * One-line summary, e.g. "3 to push, 1 overwritten locally, 1 conflict"
+ */
+export function summarizePlan(changes: PlannedChange[]): string {
+  if (changes.length === 0) {
+    return 'Nothing to do';
+  }
+  const counts = new Map<PlanAction, number>();
+  for (const change of changes) {
+    counts.set(change.action, (counts.get(change.action) || 0) + 1);
+  }
+  return (Object.keys(PLAN_ACTION_LABELS) as PlanAction[])
+    .filter(action => counts.has(action))
+    .map(action => {
+      const count = counts.get(action)!;
+      return `${count} ${PLAN_ACTION_LABELS[action]}${action === 'conflict' && count > 1 ? 's' : ''}`;
+    })
+    .join(', ');
+}
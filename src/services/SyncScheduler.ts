@@ -0,0 +1,196 @@
+/**
+ * SyncScheduler - Timing for automatic sync
+ *
+ * - Periodic sync every `syncIntervalMinutes` (pulls remote changes)
+ * - Push shortly after local edits settle (`pushDebounceSeconds`)
+ * - Exponential backoff after failures, reset on the next success
+ *
+ * Timing is read from a callback on every reschedule, so setting changes
+ * apply live via reschedule().
+ */
+
+export interface SchedulerTiming {
+  /** Periodic sync interval */
+  syncIntervalMs: number;
+  /** Quiet period after the last local change before pushing */
+  pushDebounceMs: number;
+}
+
+export interface SchedulerTasks {
+  sync: () => Promise<void>;
+  push: () => Promise<void>;
+}
+
+// Backoff: 30s, 1m, 2m, 4m ... capped at 30 minutes
+const BACKOFF_BASE_MS = 30 * 1000;
+const BACKOFF_MAX_MS = 30 * 60 * 1000;
+
+// A timer that fires while a task is still running is retried after this delay
+const BUSY_RETRY_MS = 5 * 1000;
+
+export class SyncScheduler {
+  private tasks: SchedulerTasks;
+  private getTiming: () => SchedulerTiming;
+  private syncTimer: NodeJS.Timeout | null = null;
+  private pushTimer: NodeJS.Timeout | null = null;
+  private nextSyncTime = 0;
+  private running = false;
+  private busy = false;
+  private pushPending = false;
+  private failures = 0;
+
+  constructor(tasks: SchedulerTasks, getTiming: () => SchedulerTiming) {
+    this.tasks = tasks;
+    this.getTiming = getTiming;
+  }
+
+  /**
+   * Start the periodic sync timer
+   */
+  start(): void {
+    this.running = true;
+    this.scheduleSync(this.getTiming().syncIntervalMs);
+  }
+
+  /**
+   * Stop all timers (pending pushes are dropped)
+   */
+  stop(): void {
+    this.running = false;
+    this.clearTimer('sync');
+    this.clearTimer('push');
+    this.pushPending = false;
+    this.nextSyncTime = 0;
+  }
+
+  isRunning(): boolean {
+    return this.running;
+  }
+
+  /**
+   * Re-read timing after a configuration change
+   * Keeps the elapsed part of the current interval (never waits longer than the new interval)
+   */
+  reschedule(): void {
+    if (!this.running || this.failures > 0) {
+      return;
+    }
+
+    const { syncIntervalMs } = this.getTiming();
+    const remaining = Math.max(0, Math.min(this.nextSyncTime - Date.now(), syncIntervalMs));
+    this.scheduleSync(remaining);
+
+    if (this.pushTimer) {
+      this.schedulePush(this.getTiming().pushDebounceMs);
+    }
+  }
+
+  /**
+   * Local files changed - push once edits settle
+   * Works without start() (watcher-only setups), backoff needs the periodic timer
+   */
+  notifyLocalChange(): void {
+    this.pushPending = true;
+
+    // While backing off, the retry picks up pending pushes
+    if (this.running && this.failures > 0) {
+      return;
+    }
+    this.schedulePush(this.getTiming().pushDebounceMs);
+  }
+
+  /**
+   * Time of the next periodic sync (ms since epoch, 0 = not scheduled)
+   */
+  getNextSyncTime(): number {
+    return this.nextSyncTime;
+  }
+
+  /**
+   * Consecutive failed runs (0 = healthy)
+   */
+  getFailureCount(): number {
+    return this.failures;
+  }
+
+  private scheduleSync(delayMs: number): void {
+    this.clearTimer('sync');
+    this.nextSyncTime = Date.now() + delayMs;
+    this.syncTimer = setTimeout(() => {
+      this.syncTimer = null;
+      void this.run('sync');
+    }, delayMs);
+  }
+
+  private schedulePush(delayMs: number): void {
+    this.clearTimer('push');
+    this.pushTimer = setTimeout(() => {
+      this.pushTimer = null;
+      void this.run('push');
+    }, delayMs);
+  }
+
+  private clearTimer(kind: 'sync' | 'push'): void {
+    const timer = kind === 'sync' ? this.syncTimer : this.pushTimer;
+    if (timer) {
+      clearTimeout(timer);
+    }
+    if (kind === 'sync') {
+      this.syncTimer = null;
+    } else {
+      this.pushTimer = null;
+    }
+  }
+
+  /**
+   * Run a task, then schedule the next periodic sync (or a backoff retry)
+   */
+  private async run(kind: 'sync' | 'push'): Promise<void> {
+    if (this.busy) {
+      if (kind === 'sync') {
+        this.scheduleSync(BUSY_RETRY_MS);
+      } else {
+        this.schedulePush(BUSY_RETRY_MS);
+      }
+      return;
+    }
+
+    // A full sync also pushes, so it covers pending local changes
+    const task = kind === 'sync' || this.failures > 0 ? 'sync' : 'push';
+    this.pushPending = false;
+    if (task === 'sync') {
+      this.clearTimer('push');
+    }
+
+    this.busy = true;
+    try {
+      await this.tasks[task]();
+      this.failures = 0;
+    } catch (error) {
+      this.failures++;
+      console.error(`[SyncScheduler] Auto ${task} failed (attempt ${this.failures}):`, error);
+    } finally {
+      this.busy = false;
+    }
+
+    if (!this.running) {
+      return;
+    }
+
+    if (this.failures > 0) {
+      this.clearTimer('push');
+      const backoffMs = Math.min(BACKOFF_BASE_MS * 2 ** (this.failures - 1), BACKOFF_MAX_MS);
+      console.log(`[SyncScheduler] Retrying in ${Math.round(backoffMs / 1000)}s`);
+      this.scheduleSync(backoffMs);
+      return;
+    }
+
+    if (task === 'sync') {
+      this.scheduleSync(this.getTiming().syncIntervalMs);
+    }
+    // Changes made while the task was running
+    if (this.pushPending && !this.pushTimer) {
+      this.schedulePush(this.getTiming().pushDebounceMs);
+    }
+  }
+}
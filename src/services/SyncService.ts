@@ -1,14 +1,34 @@
 /**
  * SyncService - Core sync orchestration
- * Provider-agnostic: works with any Git remote (GitHub, GitLab, Bitbucket, etc.)
+ * Backend-agnostic: any Git remote (GitHub, GitLab, Bitbucket, etc.), a plain folder or an S3 bucket
  */
 import * as vscode from 'vscode';
 import * as fs from 'fs';
 import * as path from 'path';
 import { ConfigService } from './ConfigService';
 import { GitService } from './GitService';
+import { HistoryEntry, SyncBackend } from './SyncBackend';
+import { BackupCheck, BackupFile, BackupInfo, BackupService } from './BackupService';
+import { bringsRemoteContent, PlannedChange, summarizePlan, SyncMode, SyncPreview } from './SyncPlan';
+import {
+  describeRestoreTarget,
+  getConversationIds,
+  isInRestoreScope,
+  RestoreResult,
+  RestoreTarget,
+  SyncSnapshot
+} from './Snapshot';
+import { LocalFolderBackend } from './LocalFolderBackend';
+import { S3Backend } from './S3Backend';
+import { ConflictRecord, ConflictSide } from './ConflictJournal';
 import { FilterService } from './FilterService';
+import { ManifestService } from './ManifestService';
+import { PathMapper } from './PathMapper';
+import { EncryptionService, ENCRYPTION_KEY_FILE } from './EncryptionService';
+import { SecretScanner, SecretFinding } from './SecretScanner';
 import { StatusBarService, SyncState } from './StatusBarService';
+import { SyncScheduler, SchedulerTiming } from './SyncScheduler';
+import { Notifier } from './Notifier';
 
 export interface SyncStatus {
   syncStatus: string;
@@ -23,64 +43,270 @@ function ts(): string {
   return `[${now.getHours().toString().padStart(2, '0')}:${now.getMinutes().toString().padStart(2, '0')}]`;
 }
 
-// Default auto-sync interval: 5 minutes
-const AUTO_SYNC_INTERVAL_MS = 5 * 60 * 1000;
-
 // Lock file settings - prevent multiple VS Code windows from syncing simultaneously
 const LOCK_TIMEOUT_MS = 5 * 60 * 1000; // 5 minutes - stale lock timeout
 
+// Files that live in the sync repo root but are never mirrored to the Gemini folder
+const SYNC_REPO_INTERNAL_FILES = ['.sync.lock', ENCRYPTION_KEY_FILE];
+
+/**
+ * @param hasKey - a passphrase is set on this machine, but not the repo's
+ */
+function encryptionKeyError(hasKey: boolean): Error {
+  return new Error(
+    (hasKey ? 'The encryption passphrase changed on another machine. ' : 'The sync repository is encrypted but no passphrase is set. ') +
+    'Run "Antigravity Sync: Set Encryption Passphrase".'
+  );
+}
+
 export class SyncService {
   private context: vscode.ExtensionContext;
   private configService: ConfigService;
   private statusBar: StatusBarService;
+  private backend: SyncBackend | null = null;
+  // Same object as backend when syncing through git (Smart Merge conflict review)
   private gitService: GitService | null = null;
   private filterService: FilterService | null = null;
+  private manifestService: ManifestService | null = null;
+  private encryption: EncryptionService | null = null;
+  private secretScanner: SecretScanner | null = null;
+  private pathMapper: PathMapper = new PathMapper([]);
+  // Gemini-relative path -> path of its copy in the sync repo (differs for encrypted files)
+  private repoIndex: Map<string, string> = new Map();
+  // Commit -> (Gemini-relative path -> path in that commit), commits never change
+  private snapshotTrees: Map<string, Map<string, string>> = new Map();
   private isSyncing = false;
 
-  // Auto-sync timer
-  private autoSyncTimer: NodeJS.Timeout | null = null;
-  private nextSyncTime: number = 0;
+  // Auto-sync timers
+  private scheduler: SyncScheduler;
   private countdownCallback: ((seconds: number) => void) | null = null;
   private countdownInterval: NodeJS.Timeout | null = null;
+  private notifier: Notifier | null;
 
   constructor(
     context: vscode.ExtensionContext,
     configService: ConfigService,
-    statusBar: StatusBarService
+    statusBar: StatusBarService,
+    notifier?: Notifier
   ) {
     this.context = context;
     this.configService = configService;
     this.statusBar = statusBar;
+    this.notifier = notifier || null;
+    this.scheduler = new SyncScheduler(
+      { sync: () => this.sync(), push: () => this.syncLocalChanges() },
+      () => this.getSchedulerTiming()
+    );
   }
 
   /**
-   * Initialize sync - setup git and filter services
-   * Works with any Git provider (GitHub, GitLab, Bitbucket, etc.)
+   * Initialize sync - setup the storage backend and filter services
+   * Works with any Git provider (GitHub, GitLab, Bitbucket, etc.), a folder or an S3 bucket
    */
   async initialize(): Promise<void> {
+    this.backend = await this.createBackend();
+    this.snapshotTrees.clear();
+
+    // Load encryption key (required when enabled or when the repo is already encrypted)
+    this.encryption = await this.loadEncryption();
+    this.backend.setEncryption(this.encryption);
+
+    // Initialize filter service, secret scanner and workspace path mappings
+    this.filterService = this.createFilterService();
+    this.reloadSecretScanner();
+    this.reloadPathMappings();
+
+    // Load manifest of files known to be in sync (used to propagate deletions)
+    this.manifestService = new ManifestService(this.configService.getSyncStatePath());
+
+    // Copy initial files
+    await this.copyFilesToSyncRepo();
+
+    // Status is Pending until first push
+    this.statusBar.update(SyncState.Pending);
+  }
+
+  /**
+   * Connect the configured backend (clones or updates the repo for git)
+   */
+  private async createBackend(): Promise<SyncBackend> {
+    const config = this.configService.getConfig();
+    const syncRepoPath = this.configService.getSyncRepoPath();
+    this.gitService = null;
+
+    switch (config.backend) {
+      case 'folder': {
+        if (!config.folderPath) {
+          throw new Error('Sync folder not configured');
+        }
+        const backend = new LocalFolderBackend(syncRepoPath, config.folderPath);
+        await backend.initialize();
+        return backend;
+      }
+      case 's3': {
+        const credentials = await this.configService.getS3Credentials();
+        if (!config.s3.bucket || !credentials) {
+          throw new Error('S3 bucket or access keys not configured');
+        }
+        const backend = new S3Backend(syncRepoPath, config.s3, credentials);
+        await backend.initialize();
+        return backend;
+      }
+      default: {
+        const auth = await this.configService.getGitAuth();
+        if (!config.repositoryUrl || !auth) {
+          throw new Error('Repository or access token not configured');
+        }
+        const gitService = new GitService(syncRepoPath, config.branch);
+        await gitService.initializeRepository(config.repositoryUrl, auth);
+        this.gitService = gitService;
+        return gitService;
+      }
+    }
+  }
+
+  /**
+   * Load the encryption key from SecretStorage and check it against the repo
+   */
+  private async loadEncryption(): Promise<EncryptionService | null> {
     const config = this.configService.getConfig();
-    const token = await this.configService.getCredentials();
+    const syncRepoPath = this.configService.getSyncRepoPath();
+    const key = await this.configService.getEncryptionKey();
+    const repoEncrypted = fs.existsSync(path.join(syncRepoPath, ENCRYPTION_KEY_FILE));
+
+    if (key && EncryptionService.matchesRepo(syncRepoPath, key)) {
+      return new EncryptionService(key);
+    }
 
-    if (!config.repositoryUrl || !token) {
-      throw new Error('Repository or access token not configured');
+    if (config.encryption || repoEncrypted) {
+      throw encryptionKeyError(!!key);
     }
+    return null;
+  }
+
+  /**
+   * Pull through the backend, then check the encryption key again
+   * Another machine may have turned encryption on or changed the passphrase: files
+   * this machine cannot read must never be taken for remote deletions.
+   */
+  private async pullBackend(): Promise<void> {
+    await this.backend!.pull();
+    await this.checkEncryption();
+  }
+
+  /**
+   * Reload the encryption key, throws if it does not match the sync repo's
+   */
+  private async checkEncryption(): Promise<void> {
+    this.encryption = await this.loadEncryption();
+    this.backend?.setEncryption(this.encryption);
+  }
 
-    // Initialize Git service
+  /**
+   * Check if the sync repo already has an encryption key file (passphrase was set before)
+   */
+  isRepoEncrypted(): boolean {
+    return fs.existsSync(path.join(this.configService.getSyncRepoPath(), ENCRYPTION_KEY_FILE));
+  }
+
+  /**
+   * Derive the encryption key from a passphrase and store it in SecretStorage
+   * The first machine creates the salt, the others must enter the same passphrase.
+   */
+  async setEncryptionPassphrase(passphrase: string): Promise<void> {
     const syncRepoPath = this.configService.getSyncRepoPath();
-    this.gitService = new GitService(syncRepoPath);
-    await this.gitService.initializeRepository(config.repositoryUrl, token);
+    if (!this.backend) {
+      throw new Error('Connect a repository before setting an encryption passphrase');
+    }
+
+    // Pick up a key file created on another machine
+    await this.backend.pull();
+
+    const key = EncryptionService.deriveKeyForRepo(syncRepoPath, passphrase);
+    await this.configService.saveEncryptionKey(key);
+    this.encryption = new EncryptionService(key);
+    this.backend.setEncryption(this.encryption);
+  }
 
-    // Initialize filter service
-    this.filterService = new FilterService(
+  /**
+   * Build the filter from current settings (exclude patterns + enabled folders)
+   */
+  private createFilterService(): FilterService {
+    const config = this.configService.getConfig();
+    return new FilterService(
       config.geminiPath,
-      config.excludePatterns
+      config.excludePatterns,
+      config.syncFolders
     );
+  }
 
-    // Copy initial files
-    await this.copyFilesToSyncRepo();
+  /**
+   * Rebuild the filter after folder or exclude settings changed
+   */
+  reloadFilter(): void {
+    if (!this.filterService) {
+      return; // Not initialized yet, initialize() will pick up the settings
+    }
+    this.filterService = this.createFilterService();
+  }
 
-    // Status is Pending until first push
-    this.statusBar.update(SyncState.Pending);
+  /**
+   * Recreate the secret scanner after the secretScanning setting changed
+   */
+  reloadSecretScanner(): void {
+    const config = this.configService.getConfig();
+    this.secretScanner = new SecretScanner(this.configService.getSyncStatePath(), config.secretScanning);
+    this.backend?.setSecretScanner(this.secretScanner);
+  }
+
+  /**
+   * Rebuild the workspace path mapper after the pathMappings setting changed
+   */
+  reloadPathMappings(): void {
+    this.pathMapper = new PathMapper(this.configService.getConfig().pathMappings);
+  }
+
+  /**
+   * Get secrets found in files waiting to be synced
+   */
+  getSecretFindings(): SecretFinding[] {
+    return this.secretScanner ? this.secretScanner.getFindings() : [];
+  }
+
+  /**
+   * Mark the findings of a file as false positives (it syncs again on the next push)
+   */
+  allowSecretFindings(relativePath: string): void {
+    this.secretScanner?.allow(relativePath);
+  }
+
+  /**
+   * Remove a folder from the sync repo and push the removal
+   * Used when the user stops syncing a folder and does not want it kept on the remote
+   */
+  async removeFolderFromRemote(folder: string): Promise<void> {
+    if (!this.backend) {
+      throw new Error('Sync not initialized');
+    }
+
+    if (!this.acquireLock()) {
+      throw new Error('Another sync is in progress, please try again');
+    }
+
+    try {
+      await this.pullBackend();
+
+      const folderPath = path.join(this.configService.getSyncRepoPath(), folder);
+      if (!fs.existsSync(folderPath)) {
+        return;
+      }
+
+      console.log(`[SyncService] Removing ${folder}/ from sync repo...`);
+      fs.rmSync(folderPath, { recursive: true, force: true });
+      await this.backend.push(`Sync: stop syncing ${folder}/`);
+    } finally {
+      this.releaseLock();
+    }
   }
 
   /**
@@ -147,6 +373,23 @@ export class SyncService {
    * Full sync (push + pull)
    */
   async sync(): Promise<void> {
+    await this.runSync(false);
+  }
+
+  /**
+   * Full sync after local edits (debounced auto push)
+   * Local edits reach the sync repo before the pull, so the backend merges them with
+   * remote changes: a bare push would replace remote changes this machine has not
+   * applied yet with its stale local copies.
+   */
+  private async syncLocalChanges(): Promise<void> {
+    await this.runSync(true);
+  }
+
+  /**
+   * @param copyLocalFirst - copy local edits to the sync repo before pulling
+   */
+  private async runSync(copyLocalFirst: boolean): Promise<void> {
     if (this.isSyncing) {
       console.log(ts() + ' [SyncService.sync] Already syncing in this window, skipping...');
       return;
@@ -162,6 +405,11 @@ export class SyncService {
     console.log(ts() + ' [SyncService.sync] === SYNC STARTED ===');
 
     try {
+      if (copyLocalFirst) {
+        console.log(ts() + ' [SyncService.sync] Copying local changes to sync repo...');
+        await this.copyFilesToSyncRepo();
+      }
+
       // Pull remote changes first
       console.log(ts() + ' [SyncService.sync] Step 1: Pulling remote changes...');
       await this.pull();
@@ -175,6 +423,7 @@ export class SyncService {
     } catch (error) {
       console.log(ts() + ` [SyncService.sync] Sync failed: ${(error as Error).message}`);
       this.statusBar.update(SyncState.Error);
+      void this.notifier?.notify('syncFailed', 'Sync failed', (error as Error).message);
       throw error;
     } finally {
       this.isSyncing = false;
@@ -186,36 +435,41 @@ export class SyncService {
    * Push local changes to remote
    */
   async push(): Promise<void> {
-    if (!this.gitService) {
+    if (!this.backend) {
       throw new Error('Sync not initialized');
     }
 
+    if (this.isSyncing) {
+      console.log(ts() + ' [SyncService.push] Already syncing in this window, skipping...');
+      return;
+    }
+
+    // Try to acquire cross-window lock
+    if (!this.acquireLock()) {
+      return;
+    }
+
+    this.isSyncing = true;
     this.statusBar.update(SyncState.Pushing);
     console.log('[SyncService.push] === PUSH STARTED ===');
 
     try {
       // Pull first to avoid divergent branches (when called standalone)
       console.log('[SyncService.push] Step 1: Pulling to avoid divergence...');
-      await this.gitService.pull();
+      await this.pullBackend();
 
       // Copy filtered files to sync repo
       console.log('[SyncService.push] Step 2: Copying local files to sync repo...');
       const filesCopied = await this.copyFilesToSyncRepo();
       console.log(`[SyncService.push] Copied ${filesCopied} files to sync repo`);
+      this.secretScanner?.assertNotBlocked();
 
-      // Stage and commit
-      console.log('[SyncService.push] Step 3: Staging and committing...');
-      await this.gitService.stageAll();
-      const commitHash = await this.gitService.commit(
-        `Sync: ${new Date().toISOString()}`
-      );
-
-      if (commitHash) {
-        console.log(`[SyncService.push] Step 4: Pushing commit ${commitHash.substring(0, 7)}...`);
-        await this.gitService.push();
+      // Push through the backend (stage, commit and push for git)
+      console.log('[SyncService.push] Step 3: Pushing changes...');
+      if (await this.backend.push(`Sync: ${new Date().toISOString()}`)) {
         console.log('[SyncService.push] Push successful!');
       } else {
-        console.log('[SyncService.push] No changes to commit');
+        console.log('[SyncService.push] No changes to push');
       }
 
       console.log('[SyncService.push] === PUSH COMPLETE ===');
@@ -223,7 +477,11 @@ export class SyncService {
     } catch (error) {
       console.log(`[SyncService.push] Push failed: ${(error as Error).message}`);
       this.statusBar.update(SyncState.Error);
+      void this.notifier?.notify('syncFailed', 'Push failed', (error as Error).message);
       throw error;
+    } finally {
+      this.isSyncing = false;
+      this.releaseLock();
     }
   }
 
@@ -231,7 +489,7 @@ export class SyncService {
    * Push without initial pull (used by sync() to avoid double pull)
    */
   private async pushWithoutPull(): Promise<void> {
-    if (!this.gitService) {
+    if (!this.backend) {
       throw new Error('Sync not initialized');
     }
 
@@ -239,20 +497,13 @@ export class SyncService {
     console.log('[SyncService.pushWithoutPull] Copying local files to sync repo...');
     const filesCopied = await this.copyFilesToSyncRepo();
     console.log(`[SyncService.pushWithoutPull] Copied ${filesCopied} files`);
+    this.secretScanner?.assertNotBlocked();
 
-    // Stage and commit
-    console.log('[SyncService.pushWithoutPull] Staging and committing...');
-    await this.gitService.stageAll();
-    const commitHash = await this.gitService.commit(
-      `Sync: ${new Date().toISOString()}`
-    );
-
-    if (commitHash) {
-      console.log(`[SyncService.pushWithoutPull] Pushing commit ${commitHash.substring(0, 7)}...`);
-      await this.gitService.push();
+    console.log('[SyncService.pushWithoutPull] Pushing changes...');
+    if (await this.backend.push(`Sync: ${new Date().toISOString()}`)) {
       console.log('[SyncService.pushWithoutPull] Push successful!');
     } else {
-      console.log('[SyncService.pushWithoutPull] No changes to commit');
+      console.log('[SyncService.pushWithoutPull] No changes to push');
     }
   }
 
@@ -260,7 +511,7 @@ export class SyncService {
    * Pull remote changes to local
    */
   async pull(): Promise<void> {
-    if (!this.gitService) {
+    if (!this.backend) {
       throw new Error('Sync not initialized');
     }
 
@@ -268,7 +519,7 @@ export class SyncService {
     console.log('[SyncService.pull] === PULL STARTED ===');
 
     try {
-      await this.gitService.pull();
+      await this.pullBackend();
 
       console.log('[SyncService.pull] Copying files from sync repo to Gemini folder...');
       const filesCopied = await this.copyFilesFromSyncRepo();
@@ -287,20 +538,20 @@ export class SyncService {
    * Get current sync status
    */
   async getStatus(): Promise<SyncStatus> {
-    const config = this.configService.getConfig();
     let pendingChanges = 0;
     let lastSync: string | null = null;
 
-    if (this.gitService) {
-      pendingChanges = await this.gitService.getPendingChangesCount();
-      lastSync = await this.gitService.getLastCommitDate();
+    if (this.backend) {
+      const status = await this.backend.status();
+      pendingChanges = status.totalFiles;
+      lastSync = status.lastSync;
     }
 
     return {
       syncStatus: this.isSyncing ? 'Syncing...' : 'Ready',
       lastSync,
       pendingChanges,
-      repository: config.repositoryUrl || null
+      repository: this.configService.getBackendLocation() || null
     };
   }
 
@@ -315,7 +566,7 @@ export class SyncService {
   }
 
   /**
-   * Get detailed git status for UI
+   * Get detailed backend status for UI (checks the remote for the behind count)
    */
   async getDetailedStatus(): Promise<{
     ahead: number;
@@ -323,112 +574,744 @@ export class SyncService {
     files: string[];
     totalFiles: number;
   }> {
-    if (!this.gitService) {
+    if (!this.backend) {
       return { ahead: 0, behind: 0, files: [], totalFiles: 0 };
     }
 
-    // Fetch from remote first to get accurate behind count
+    const { ahead, behind, files, totalFiles } = await this.backend.status(true);
+    return { ahead, behind, files, totalFiles };
+  }
+
+  /**
+   * Recent pushes to the backend, newest first
+   */
+  async getHistory(limit = 20): Promise<HistoryEntry[]> {
+    return this.backend ? await this.backend.history(limit) : [];
+  }
+
+  /**
+   * Sync history for the History view, newest first
+   * Only git snapshots can be browsed and restored.
+   */
+  async getSnapshots(limit = 30): Promise<SyncSnapshot[]> {
+    if (!this.gitService) {
+      return (await this.getHistory(limit)).map(entry => ({
+        id: entry.id,
+        date: entry.date,
+        message: entry.message,
+        machine: entry.machine || '',
+        files: [],
+        conversations: [],
+        restorable: false
+      }));
+    }
+
+    const snapshots: SyncSnapshot[] = [];
+    for (const commit of await this.gitService.getCommits(limit)) {
+      const files: string[] = [];
+      for (const storagePath of commit.files) {
+        if (SYNC_REPO_INTERNAL_FILES.includes(storagePath)) {
+          continue;
+        }
+        // Deleted files only exist in the parent commit
+        const localPath = await this.toSnapshotPath(commit.hash, storagePath) ||
+          await this.toSnapshotPath(`${commit.hash}^`, storagePath);
+        if (localPath) {
+          files.push(localPath);
+        }
+      }
+      snapshots.push({
+        id: commit.hash,
+        date: commit.date,
+        message: commit.message,
+        machine: commit.machine,
+        files,
+        conversations: getConversationIds(files),
+        restorable: true
+      });
+    }
+    return snapshots;
+  }
+
+  /**
+   * Every synced file as of a snapshot
+   */
+  async getSnapshotFiles(id: string): Promise<string[]> {
+    const tree = await this.readSnapshotTree(id);
+    return this.filterService ? this.filterService.filterFiles([...tree.keys()]) : [...tree.keys()];
+  }
+
+  /**
+   * A file as of a snapshot, as it would be written to the Gemini folder (null if it did not exist)
+   */
+  async readSnapshotFile(id: string, relativePath: string): Promise<Buffer | null> {
+    const storagePath = (await this.readSnapshotTree(id)).get(relativePath);
+    if (!storagePath || !this.gitService) {
+      return null;
+    }
+    const content = await this.gitService.readBlob(id, storagePath);
+    if (!content) {
+      return null;
+    }
+    if (EncryptionService.isEncryptedPath(storagePath) && this.encryption) {
+      return this.pathMapper.toLocalContent(relativePath, this.encryption.decrypt(content).content);
+    }
+    return this.pathMapper.toLocalContent(relativePath, content);
+  }
+
+  /**
+   * Bring files back to how they were at a snapshot
+   * The current state is committed first (safety snapshot), so the restore can be undone
+   * from the History view. Folder, conversation and full restores also remove files that
+   * did not exist at that point. The result is pushed with the next sync.
+   */
+  async restoreSnapshot(id: string, target: RestoreTarget): Promise<RestoreResult> {
+    if (!this.gitService || !this.filterService || !this.manifestService) {
+      throw new Error('Restoring snapshots needs the Git backend');
+    }
+    if (!this.acquireLock()) {
+      throw new Error('Another sync is in progress, please try again');
+    }
+
+    const short = id.substring(0, 7);
+    const description = describeRestoreTarget(target);
+    const config = this.configService.getConfig();
+    const syncRepoPath = this.configService.getSyncRepoPath();
+
     try {
-      await this.gitService.fetch();
+      // Safety snapshot of the current Gemini folder
+      await this.copyFilesToSyncRepo();
+      this.secretScanner?.assertNotBlocked();
+      await this.gitService.stageAll();
+      await this.gitService.commit(`Snapshot: before restoring ${description} to ${short}`);
+      const safetySnapshot = await this.gitService.getHeadCommit();
+
+      const tree = await this.readSnapshotTree(id);
+      const files = this.filterService.filterFiles([...tree.keys()]).filter(f => isInRestoreScope(f, target));
+      if (files.length === 0) {
+        throw new Error(`${description} is not in snapshot ${short}`);
+      }
+
+      for (const relativePath of files) {
+        const content = await this.readSnapshotFile(id, relativePath);
+        if (!content) {
+          continue;
+        }
+        const destPath = path.join(config.geminiPath, relativePath);
+        fs.mkdirSync(path.dirname(destPath), { recursive: true });
+        fs.writeFileSync(destPath, content);
+        this.writeToSyncRepo(relativePath, content, config.encryption);
+      }
+
+      let removed = 0;
+      if (target.scope !== 'file') {
+        const current = (await this.filterService.getFilesToSync()).filter(f => isInRestoreScope(f, target) && !tree.has(f));
+        for (const relativePath of current) {
+          this.removeFile(config.geminiPath, relativePath);
+          this.removeFile(syncRepoPath, this.repoIndex.get(relativePath) || relativePath);
+          removed++;
+        }
+      }
+
+      this.manifestService.update(await this.filterService.getFilesToSync(), await this.getSyncRepoFiles());
+      await this.gitService.stageAll();
+      await this.gitService.commit(`Restore: ${description} to ${short}`);
+      console.log(`[SyncService] Restored ${description} to ${short}: ${files.length} file(s), ${removed} removed`);
+
+      this.scheduler.notifyLocalChange();
+      return { restored: files.length, removed, safetySnapshot };
+    } finally {
+      this.releaseLock();
+    }
+  }
+
+  /**
+   * Files of a commit by their Gemini-relative path on this machine
+   */
+  private async readSnapshotTree(id: string): Promise<Map<string, string>> {
+    if (!this.gitService) {
+      throw new Error('Snapshots need the Git backend');
+    }
+    const cached = this.snapshotTrees.get(id);
+    if (cached) {
+      return cached;
+    }
+
+    const tree = new Map<string, string>();
+    for (const storagePath of await this.gitService.listFilesAt(id)) {
+      if (SYNC_REPO_INTERNAL_FILES.includes(storagePath)) {
+        continue;
+      }
+      const localPath = await this.toSnapshotPath(id, storagePath);
+      if (localPath) {
+        tree.set(localPath, storagePath);
+      }
+    }
+    this.snapshotTrees.set(id, tree);
+    return tree;
+  }
+
+  /**
+   * Gemini-relative path of a file stored in a commit (null if it cannot be read there)
+   */
+  private async toSnapshotPath(ref: string, storagePath: string): Promise<string | null> {
+    if (!EncryptionService.isEncryptedPath(storagePath)) {
+      return this.pathMapper.toLocalPath(storagePath);
+    }
+    if (!this.encryption || !this.gitService) {
+      return null;
+    }
+    const content = await this.gitService.readBlob(ref, storagePath);
+    if (!content) {
+      return null;
+    }
+    try {
+      return this.pathMapper.toLocalPath(this.encryption.decrypt(content).relativePath);
     } catch {
-      // Ignore fetch errors (offline, etc.)
+      return null;
     }
+  }
 
-    const aheadBehind = await this.gitService.getAheadBehind();
-    const changedFiles = await this.gitService.getChangedFiles(10);
+  /**
+   * Get Smart Merge decisions waiting for review
+   */
+  getConflictRecords(): ConflictRecord[] {
+    const records = this.backend ? this.backend.getConflictRecords() : [];
+    if (!this.encryption && this.pathMapper.isEmpty()) {
+      return records;
+    }
 
-    return {
-      ahead: aheadBehind.ahead,
-      behind: aheadBehind.behind,
-      files: changedFiles.files,
-      totalFiles: changedFiles.total
-    };
+    // Show encrypted and remapped files by their path on this machine
+    const originalPaths = new Map([...this.repoIndex].map(([relativePath, storagePath]) => [storagePath, relativePath]));
+    return records.map(r => ({ ...r, file: originalPaths.get(r.file) || r.file }));
+  }
+
+  /**
+   * Read one side of a recorded conflict (null if unavailable)
+   */
+  async getConflictVersion(id: string, side: ConflictSide): Promise<Buffer | null> {
+    const content = this.backend ? await this.backend.readConflictVersion(id, side) : null;
+    const record = this.backend?.getConflictRecords().find(r => r.id === id);
+    if (!content || !record) {
+      return content;
+    }
+    if (EncryptionService.isEncryptedPath(record.file) && this.encryption) {
+      const decrypted = this.encryption.decrypt(content);
+      return this.pathMapper.toLocalContent(decrypted.relativePath, decrypted.content);
+    }
+    return this.pathMapper.toLocalContent(record.file, content);
+  }
+
+  /**
+   * Flip a conflict decision: apply the other side to both the sync repo
+   * and the gemini folder, so the next push does not overwrite it
+   */
+  async flipConflict(id: string): Promise<ConflictRecord> {
+    if (!this.backend) {
+      throw new Error('Sync not initialized');
+    }
+
+    const record = this.backend.getConflictRecords().find(r => r.id === id);
+    if (!record) {
+      throw new Error('Conflict record not found');
+    }
+
+    // Merged text files flip to the remote side (local overlapping hunks were kept)
+    const side: ConflictSide = record.chosen === 'remote' ? 'local' : 'remote';
+    const updated = await this.backend.applyConflictVersion(id, side);
+
+    const config = this.configService.getConfig();
+    const repoFile = path.join(this.configService.getSyncRepoPath(), record.file);
+    if (EncryptionService.isEncryptedPath(record.file) && this.encryption) {
+      if (fs.existsSync(repoFile)) {
+        const { relativePath, content } = this.encryption.decrypt(fs.readFileSync(repoFile));
+        const localFile = path.join(config.geminiPath, this.pathMapper.toLocalPath(relativePath));
+        fs.mkdirSync(path.dirname(localFile), { recursive: true });
+        fs.writeFileSync(localFile, this.pathMapper.toLocalContent(relativePath, content));
+      }
+      return updated;
+    }
+
+    const localFile = path.join(config.geminiPath, this.pathMapper.toLocalPath(record.file));
+    if (fs.existsSync(repoFile)) {
+      fs.mkdirSync(path.dirname(localFile), { recursive: true });
+      fs.writeFileSync(localFile, this.pathMapper.toLocalContent(record.file, fs.readFileSync(repoFile)));
+    } else if (fs.existsSync(localFile)) {
+      fs.unlinkSync(localFile);
+    }
+
+    return updated;
+  }
+
+  /**
+   * Restore the losing version next to the file in the gemini folder
+   * (e.g. notes.md -> notes.remote.md) without changing the decision
+   * @returns path of the restored copy
+   */
+  async restoreConflictVersion(id: string): Promise<string> {
+    const record = this.getConflictRecords().find(r => r.id === id);
+    if (!record) {
+      throw new Error('Conflict record not found');
+    }
+
+    const side: ConflictSide = record.chosen === 'remote' ? 'local' : 'remote';
+    const content = await this.getConflictVersion(id, side);
+    if (!content) {
+      throw new Error(`The ${side} version of ${record.file} is not available`);
+    }
+
+    const config = this.configService.getConfig();
+    const ext = path.extname(record.file);
+    const restoredPath = path.join(
+      config.geminiPath,
+      record.file.slice(0, record.file.length - ext.length) + `.${side}${ext}`
+    );
+    fs.mkdirSync(path.dirname(restoredPath), { recursive: true });
+    fs.writeFileSync(restoredPath, content);
+    return restoredPath;
+  }
+
+  /**
+   * Mark a conflict decision as reviewed
+   */
+  dismissConflict(id: string): void {
+    this.backend?.markConflictReviewed(id);
   }
 
   /**
    * Copy filtered files from gemini folder to sync repo
+   * Files deleted locally since the last sync are removed from the sync repo,
+   * files deleted remotely are not copied back.
    * @returns number of files copied
    */
   private async copyFilesToSyncRepo(): Promise<number> {
     const config = this.configService.getConfig();
     const syncRepoPath = this.configService.getSyncRepoPath();
 
-    if (!this.filterService) {
+    if (!this.filterService || !this.manifestService) {
       return 0;
     }
 
-    const filesToSync = await this.filterService.getFilesToSync();
+    const { localFiles, copies, deletedLocally } = await this.planCopyToSyncRepo();
     let copiedCount = 0;
 
-    for (const relativePath of filesToSync) {
+    for (const relativePath of copies) {
       const sourcePath = path.join(config.geminiPath, relativePath);
-      const destPath = path.join(syncRepoPath, relativePath);
+      if (!fs.existsSync(sourcePath)) {
+        continue;
+      }
 
-      // Ensure directory exists
-      const destDir = path.dirname(destPath);
-      if (!fs.existsSync(destDir)) {
-        fs.mkdirSync(destDir, { recursive: true });
+      // Scan before the file can be encrypted or committed
+      let content: Buffer | null = fs.readFileSync(sourcePath);
+      if (this.secretScanner) {
+        const stats = fs.statSync(sourcePath);
+        const result = this.secretScanner.process(relativePath, content, `${stats.size}:${stats.mtimeMs}`);
+        if (result.findings.length > 0) {
+          console.log(`[SyncService] ${relativePath}: ${result.findings.length} secret(s) found (${this.secretScanner.getAction()})`);
+        }
+        content = result.content;
       }
 
-      // Copy file
-      if (fs.existsSync(sourcePath)) {
-        fs.copyFileSync(sourcePath, destPath);
+      if (content) {
+        this.writeToSyncRepo(relativePath, content, config.encryption);
         copiedCount++;
       }
     }
 
+    this.secretScanner?.prune(localFiles);
+
+    for (const relativePath of deletedLocally) {
+      console.log(`[SyncService] Deleted locally, removing from sync repo: ${relativePath}`);
+      this.removeFile(syncRepoPath, this.repoIndex.get(relativePath) || relativePath);
+    }
+
+    this.manifestService.update(localFiles, await this.getSyncRepoFiles());
     return copiedCount;
   }
 
+  /**
+   * Local files the copy to the sync repo takes, and sync repo files it removes
+   * Files deleted locally since the last sync are removed from the sync repo,
+   * files deleted remotely are not copied back.
+   */
+  private async planCopyToSyncRepo(): Promise<{ localFiles: string[]; copies: string[]; deletedLocally: string[] }> {
+    const localFiles = await this.filterService!.getFilesToSync();
+    const repoFiles = await this.getSyncRepoFiles();
+    const { deletedLocally, deletedRemotely } = this.manifestService!.reconcile(localFiles, repoFiles);
+    const skipped = new Set(deletedRemotely);
+    return { localFiles, copies: localFiles.filter(f => !skipped.has(f)), deletedLocally };
+  }
+
   /**
    * Copy files from sync repo back to gemini folder
+   * Only files that differ are written. Files deleted remotely since the last sync
+   * are removed from the gemini folder, files deleted locally are not restored.
+   * Every file overwritten or removed is backed up first.
    * @returns number of files copied
    */
   private async copyFilesFromSyncRepo(): Promise<number> {
     const config = this.configService.getConfig();
-    const syncRepoPath = this.configService.getSyncRepoPath();
 
-    // Walk sync repo and copy back (excluding .git)
-    return await this.copyDirectoryContents(syncRepoPath, config.geminiPath, ['.git']);
+    if (!this.filterService || !this.manifestService) {
+      return 0;
+    }
+
+    const { changes, repoFiles } = await this.planCopyFromSyncRepo();
+    const backup = this.createBackupService().begin(config.geminiPath, 'pull');
+    let copiedCount = 0;
+
+    for (const change of changes) {
+      backup.add(change.file);
+      if (change.action === 'delete-local') {
+        console.log(`[SyncService] Deleted remotely, removing from Gemini folder: ${change.file}`);
+        this.removeFile(config.geminiPath, change.file);
+        continue;
+      }
+
+      const destPath = path.join(config.geminiPath, change.file);
+      const destDir = path.dirname(destPath);
+      if (!fs.existsSync(destDir)) {
+        fs.mkdirSync(destDir, { recursive: true });
+      }
+      fs.writeFileSync(destPath, this.readFromSyncRepo(change.file));
+      copiedCount++;
+    }
+
+    const saved = backup.finish();
+    if (saved) {
+      console.log(`[SyncService] Backed up ${saved.files.length} local file(s) before the pull: ${saved.id}`);
+    }
+
+    this.manifestService.update(await this.filterService.getFilesToSync(), repoFiles);
+    return copiedCount;
   }
 
   /**
-   * Recursively copy directory contents
-   * @returns number of files copied
+   * Gemini folder files the copy from the sync repo writes or deletes
+   * @param pulled - changes of a previewed pull, applied on top of the sync repo as it is now
    */
-  private async copyDirectoryContents(
-    source: string,
-    dest: string,
-    excludeDirs: string[] = []
-  ): Promise<number> {
-    if (!fs.existsSync(source)) {
-      return 0;
+  private async planCopyFromSyncRepo(
+    pulled: Map<string, PlannedChange> = new Map()
+  ): Promise<{ changes: PlannedChange[]; repoFiles: string[] }> {
+    const config = this.configService.getConfig();
+    const localFiles = await this.filterService!.getFilesToSync();
+    const repoSet = new Set(await this.getSyncRepoFiles());
+    for (const [file, change] of pulled) {
+      if (change.action === 'delete-local') {
+        repoSet.delete(file);
+      } else if (bringsRemoteContent(change)) {
+        repoSet.add(file);
+      }
     }
+    const repoFiles = this.filterService!.filterFiles([...repoSet]);
 
-    let count = 0;
-    const entries = fs.readdirSync(source, { withFileTypes: true });
+    const { deletedLocally, deletedRemotely } = this.manifestService!.reconcile(localFiles, repoFiles);
+    const skipped = new Set(deletedLocally);
+    const changes: PlannedChange[] = [];
 
-    for (const entry of entries) {
-      if (excludeDirs.includes(entry.name)) {
+    for (const relativePath of repoFiles) {
+      if (skipped.has(relativePath)) {
         continue;
       }
 
-      const sourcePath = path.join(source, entry.name);
-      const destPath = path.join(dest, entry.name);
+      const destPath = path.join(config.geminiPath, relativePath);
+      const exists = fs.existsSync(destPath);
+      const pulledChange = pulled.get(relativePath);
+      if (pulledChange && bringsRemoteContent(pulledChange)) {
+        changes.push(pulledChange.action === 'conflict'
+          ? pulledChange
+          : { ...pulledChange, action: exists ? 'overwrite' : 'create' });
+        continue;
+      }
 
-      if (entry.isDirectory()) {
-        count += await this.copyDirectoryContents(sourcePath, destPath, excludeDirs);
-      } else {
-        const destDir = path.dirname(destPath);
-        if (!fs.existsSync(destDir)) {
-          fs.mkdirSync(destDir, { recursive: true });
+      // Held back or redacted here - the local file is the original
+      const content = this.readFromSyncRepo(relativePath);
+      if (this.secretScanner?.isQuarantined(relativePath) ||
+        this.secretScanner?.isRedactedCopy(relativePath, content) ||
+        this.hasContent(destPath, content)) {
+        continue;
+      }
+      changes.push(exists
+        ? { file: relativePath, action: 'overwrite', rule: 'differs from the sync repo' }
+        : { file: relativePath, action: 'create', rule: 'only in the sync repo' });
+    }
+
+    for (const relativePath of deletedRemotely) {
+      changes.push({ file: relativePath, action: 'delete-local', rule: pulled.get(relativePath)?.rule || 'deleted remotely' });
+    }
+
+    return { changes, repoFiles };
+  }
+
+  /**
+   * Dry run of sync(), push() or pull(): every file they would push, overwrite,
+   * create, delete or resolve as a conflict, and the rule behind it
+   * Built from the plans the real steps use. Nothing is copied, committed or pulled
+   * (git fetches to see the remote).
+   */
+  async preview(mode: SyncMode = 'sync'): Promise<SyncPreview> {
+    if (!this.backend || !this.filterService || !this.manifestService) {
+      throw new Error('Sync not initialized');
+    }
+
+    // Step 1 of every mode: the backend pull, mapped to this machine's paths
+    await this.checkEncryption();
+    await this.getSyncRepoFiles();
+    const storageToLocal = new Map([...this.repoIndex].map(([local, storage]) => [storage, local]));
+    const pulled = new Map<string, PlannedChange>();
+    for (const change of await this.backend.previewPull()) {
+      // Encryption turned on or rekeyed remotely: the pull stops, so would the preview
+      if (change.file === ENCRYPTION_KEY_FILE && bringsRemoteContent(change)) {
+        throw encryptionKeyError(!!this.encryption);
+      }
+      if (SYNC_REPO_INTERNAL_FILES.includes(change.file)) {
+        continue;
+      }
+      // New encrypted files cannot be named before they are pulled and decrypted
+      const file = storageToLocal.get(change.file) ||
+        (EncryptionService.isEncryptedPath(change.file) ? change.file : this.pathMapper.toLocalPath(change.file));
+      pulled.set(file, { ...change, file });
+    }
+
+    const changes: PlannedChange[] = [...pulled.values()].filter(c => c.action === 'conflict');
+    const listed = new Set(changes.map(c => `${c.action}:${c.file}`));
+    const add = (change: PlannedChange) => {
+      if (!listed.has(`${change.action}:${change.file}`)) {
+        listed.add(`${change.action}:${change.file}`);
+        changes.push(change);
+      }
+    };
+
+    // Step 2 (sync, pull): the copy into the Gemini folder
+    const updatedLocally = new Set<string>();
+    if (mode !== 'push') {
+      for (const change of (await this.planCopyFromSyncRepo(pulled)).changes) {
+        add(change);
+        updatedLocally.add(change.file);
+      }
+    }
+
+    // Step 3 (sync, push): the copy into the sync repo, then the push
+    if (mode !== 'pull') {
+      const config = this.configService.getConfig();
+      const { copies, deletedLocally } = await this.planCopyToSyncRepo();
+      for (const relativePath of copies) {
+        // Already equal to the synced version after step 2
+        if (updatedLocally.has(relativePath)) {
+          continue;
+        }
+        const sourcePath = path.join(config.geminiPath, relativePath);
+        if (!fs.existsSync(sourcePath)) {
+          continue;
         }
-        fs.copyFileSync(sourcePath, destPath);
-        count++;
+        const content = fs.readFileSync(sourcePath);
+        const findings = this.secretScanner?.scan(relativePath, content) || [];
+        if (findings.length > 0 && this.secretScanner?.getAction() !== 'redact') {
+          add({ file: relativePath, action: 'held-back', rule: `secret scan (${findings[0].rule})` });
+          continue;
+        }
+
+        const pulledChange = pulled.get(relativePath);
+        if (pulledChange && bringsRemoteContent(pulledChange)) {
+          add({ file: relativePath, action: 'push', rule: 'local copy replaces the version pulled from remote' });
+        } else if (!this.repoIndex.has(relativePath)) {
+          add({ file: relativePath, action: 'push', rule: 'new file' });
+        } else if (!this.readFromSyncRepo(relativePath).equals(content)) {
+          add({ file: relativePath, action: 'push', rule: 'changed here' });
+        }
+      }
+      for (const relativePath of deletedLocally) {
+        add({ file: relativePath, action: 'delete-remote', rule: 'deleted here' });
       }
+
+      // Already in the sync repo but not pushed yet (copied earlier, kept or merged by the pull)
+      const syncRepoPath = this.configService.getSyncRepoPath();
+      for (const storagePath of await this.backend.listPendingChanges()) {
+        const file = storageToLocal.get(storagePath) || this.pathMapper.toLocalPath(storagePath);
+        const pulledChange = pulled.get(file);
+        if (SYNC_REPO_INTERNAL_FILES.includes(storagePath) || listed.has(`held-back:${file}`) ||
+          (pulledChange?.action === 'conflict' && pulledChange.winner === 'remote')) {
+          continue;
+        }
+        add(fs.existsSync(path.join(syncRepoPath, storagePath))
+          ? { file, action: 'push', rule: pulledChange?.action === 'conflict' ? 'result of the conflict' : 'not pushed yet' }
+          : { file, action: 'delete-remote', rule: 'deleted here' });
+      }
+    }
+
+    console.log(`[SyncService] Preview of ${mode}: ${summarizePlan(changes)}`);
+    return { mode, createdAt: new Date().toISOString(), changes };
+  }
+
+  /**
+   * Whether a file exists with exactly this content (nothing to back up before writing it)
+   */
+  private hasContent(filePath: string, content: Buffer): boolean {
+    if (!fs.existsSync(filePath) || fs.statSync(filePath).size !== content.length) {
+      return false;
+    }
+    return fs.readFileSync(filePath).equals(content);
+  }
+
+  private createBackupService(): BackupService {
+    return new BackupService(this.configService.getBackupPath(), this.configService.getConfig().backup);
+  }
+
+  /**
+   * Local backups taken before pulls, newest first
+   */
+  getBackups(): BackupInfo[] {
+    return this.createBackupService().list();
+  }
+
+  /**
+   * Run the integrity check on every backup
+   */
+  checkBackups(): BackupCheck[] {
+    const service = this.createBackupService();
+    return service.list().map(backup => service.verify(backup.id));
+  }
+
+  /**
+   * Put back the files of the newest backup
+   * The current versions are backed up first, so running it again undoes the restore.
+   * The restored files are pushed with the next sync.
+   */
+  async restoreLastBackup(): Promise<{ backup: BackupInfo; files: BackupFile[] }> {
+    const service = this.createBackupService();
+    const backup = service.list()[0];
+    if (!backup) {
+      throw new Error('No backup to restore');
+    }
+    if (!this.acquireLock()) {
+      throw new Error('Another sync is in progress, please try again');
     }
 
-    return count;
+    try {
+      const geminiPath = this.configService.getConfig().geminiPath;
+      const check = service.verify(backup.id);
+      if (!check.ok) {
+        throw new Error(`Backup ${backup.id} is damaged (${check.missing.length} missing, ${check.corrupted.length} corrupted file(s))`);
+      }
+
+      const undo = service.begin(geminiPath, 'restore');
+      for (const file of backup.files) {
+        undo.add(file.path);
+      }
+      const files = service.restore(backup.id, geminiPath);
+      undo.finish();
+
+      // Into the sync repo right away, so the next pull does not overwrite them again
+      await this.copyFilesToSyncRepo();
+      this.scheduler.notifyLocalChange();
+      return { backup, files };
+    } finally {
+      this.releaseLock();
+    }
+  }
+
+  /**
+   * List filtered files in the sync repo (excluding .git and internal files)
+   * Files are listed by their path on this machine (decrypted and remapped), see repoIndex.
+   */
+  private async getSyncRepoFiles(): Promise<string[]> {
+    if (!this.filterService) {
+      return [];
+    }
+    const syncRepoPath = this.configService.getSyncRepoPath();
+    const files = (await this.filterService.listFiles(syncRepoPath))
+      .filter(f => !SYNC_REPO_INTERNAL_FILES.includes(f));
+
+    // While switching modes a file can exist both ways - prefer the current mode
+    const preferEncrypted = this.configService.getConfig().encryption;
+    const index = new Map<string, string>();
+    for (const storagePath of files) {
+      let remotePath = storagePath;
+      if (EncryptionService.isEncryptedPath(storagePath) && this.encryption) {
+        // A file left out here would look deleted remotely and be deleted locally
+        try {
+          remotePath = this.encryption.readPath(path.join(syncRepoPath, storagePath));
+        } catch (error) {
+          throw new Error(`Cannot decrypt ${storagePath}: ${(error as Error).message}. ` +
+            'Run "Antigravity Sync: Set Encryption Passphrase" with the passphrase of the other machines.');
+        }
+      }
+      const relativePath = this.pathMapper.toLocalPath(remotePath);
+
+      const existing = index.get(relativePath);
+      if (!existing || EncryptionService.isEncryptedPath(storagePath) === preferEncrypted) {
+        index.set(relativePath, storagePath);
+      }
+    }
+
+    this.repoIndex = index;
+    return this.filterService.filterFiles([...index.keys()]);
+  }
+
+  /**
+   * Write a local file into the sync repo (remapped to the shared workspace paths,
+   * then encrypted when enabled)
+   * A copy stored the other way (before encryption was toggled) is removed.
+   */
+  private writeToSyncRepo(relativePath: string, content: Buffer, encrypt: boolean): void {
+    const syncRepoPath = this.configService.getSyncRepoPath();
+    const remotePath = this.pathMapper.toRemotePath(relativePath);
+    const remoteContent = this.pathMapper.toRemoteContent(relativePath, content);
+    const storagePath = encrypt && this.encryption
+      ? this.encryption.getStoragePath(remotePath)
+      : remotePath;
+    const destPath = path.join(syncRepoPath, storagePath);
+
+    const destDir = path.dirname(destPath);
+    if (!fs.existsSync(destDir)) {
+      fs.mkdirSync(destDir, { recursive: true });
+    }
+
+    fs.writeFileSync(destPath, storagePath === remotePath
+      ? remoteContent
+      : this.encryption!.encrypt(remotePath, remoteContent));
+
+    const previous = this.repoIndex.get(relativePath);
+    if (previous && previous !== storagePath) {
+      this.removeFile(syncRepoPath, previous);
+    }
+    this.repoIndex.set(relativePath, storagePath);
+  }
+
+  /**
+   * Read a sync repo file for this machine (decrypting and remapping if needed)
+   */
+  private readFromSyncRepo(relativePath: string): Buffer {
+    const storagePath = this.repoIndex.get(relativePath) || relativePath;
+    const content = fs.readFileSync(path.join(this.configService.getSyncRepoPath(), storagePath));
+
+    if (EncryptionService.isEncryptedPath(storagePath) && this.encryption) {
+      return this.pathMapper.toLocalContent(relativePath, this.encryption.decrypt(content).content);
+    }
+    return this.pathMapper.toLocalContent(relativePath, content);
+  }
+
+  /**
+   * Delete a file and prune the directories it leaves empty (never the root itself)
+   */
+  private removeFile(root: string, relativePath: string): void {
+    const filePath = path.join(root, relativePath);
+    if (fs.existsSync(filePath)) {
+      fs.unlinkSync(filePath);
+    }
+
+    let dir = path.dirname(filePath);
+    while (dir.startsWith(root) && dir !== root) {
+      try {
+        if (fs.readdirSync(dir).length > 0) {
+          break;
+        }
+        fs.rmdirSync(dir);
+      } catch {
+        break;
+      }
+      dir = path.dirname(dir);
+    }
   }
 
   /**
@@ -439,64 +1322,77 @@ export class SyncService {
   }
 
   /**
-   * Set logger callback for GitService to send logs to UI
+   * Set logger callback for the backend to send logs to UI
    */
   setGitLogger(logger: (message: string, type: 'info' | 'success' | 'error') => void): void {
-    if (this.gitService) {
-      this.gitService.setLogger(logger);
+    if (this.backend) {
+      this.backend.setLogger(logger);
     }
   }
 
+  /**
+   * Read scheduler timing from settings
+   */
+  private getSchedulerTiming(): SchedulerTiming {
+    const config = this.configService.getConfig();
+    return {
+      syncIntervalMs: config.syncIntervalMinutes * 60 * 1000,
+      pushDebounceMs: config.pushDebounceSeconds * 1000
+    };
+  }
+
   /**
    * Start auto-sync timer
    */
   startAutoSync(): void {
-    this.stopAutoSync(); // Clear any existing timer
-
-    this.nextSyncTime = Date.now() + AUTO_SYNC_INTERVAL_MS;
+    // Restarting keeps a pending push from the watcher
+    if (this.countdownInterval) {
+      clearInterval(this.countdownInterval);
+    }
+    this.scheduler.start();
 
     // Start countdown interval (every second)
     this.countdownInterval = setInterval(() => {
-      const secondsLeft = Math.max(0, Math.ceil((this.nextSyncTime - Date.now()) / 1000));
       if (this.countdownCallback) {
-        this.countdownCallback(secondsLeft);
+        this.countdownCallback(this.getSecondsUntilNextSync());
       }
     }, 1000);
-
-    // Start sync timer
-    this.autoSyncTimer = setInterval(async () => {
-      try {
-        await this.sync();
-        this.nextSyncTime = Date.now() + AUTO_SYNC_INTERVAL_MS;
-      } catch (error) {
-        console.error('Auto-sync failed:', error);
-      }
-    }, AUTO_SYNC_INTERVAL_MS);
   }
 
   /**
    * Stop auto-sync timer
    */
   stopAutoSync(): void {
-    if (this.autoSyncTimer) {
-      clearInterval(this.autoSyncTimer);
-      this.autoSyncTimer = null;
-    }
+    this.scheduler.stop();
     if (this.countdownInterval) {
       clearInterval(this.countdownInterval);
       this.countdownInterval = null;
     }
-    this.nextSyncTime = 0;
     if (this.countdownCallback) {
       this.countdownCallback(0);
     }
   }
 
+  /**
+   * Apply changed sync interval / push debounce settings to running timers
+   */
+  updateAutoSyncSchedule(): void {
+    this.scheduler.reschedule();
+  }
+
+  /**
+   * Local files changed (from the watcher) - push after the debounce period
+   */
+  notifyLocalChange(): void {
+    this.scheduler.notifyLocalChange();
+  }
+
   /**
    * Get next sync time in seconds
    */
   getSecondsUntilNextSync(): number {
-    if (!this.nextSyncTime) return 0;
-    return Math.max(0, Math.ceil((this.nextSyncTime - Date.now()) / 1000));
+    const nextSyncTime = this.scheduler.getNextSyncTime();
+    if (!nextSyncTime) return 0;
+    return Math.max(0, Math.ceil((nextSyncTime - Date.now()) / 1000));
   }
 }
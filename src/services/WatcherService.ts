@@ -2,15 +2,16 @@
  * WatcherService - File system watcher for auto-sync
  */
 import * as chokidar from 'chokidar';
+import * as fs from 'fs';
+import * as path from 'path';
 import { ConfigService } from './ConfigService';
+import { FilterService } from './FilterService';
 import { SyncService } from './SyncService';
 
 export class WatcherService {
   private configService: ConfigService;
   private syncService: SyncService;
   private watcher: chokidar.FSWatcher | null = null;
-  private debounceTimer: NodeJS.Timeout | null = null;
-  private pendingChanges: Set<string> = new Set();
 
   constructor(configService: ConfigService, syncService: SyncService) {
     this.configService = configService;
@@ -27,6 +28,14 @@ export class WatcherService {
       return;
     }
 
+    // Root-level files always sync, so watch the whole folder and skip
+    // top-level directories that are not in the sync folder allow-list
+    const filterService = new FilterService(config.geminiPath, [], config.syncFolders);
+    const outsideSyncFolders = (filePath: string, stats?: fs.Stats) => {
+      const relativePath = path.relative(config.geminiPath, filePath);
+      return relativePath !== '' && !filterService.isInSyncFolder(relativePath, stats?.isDirectory());
+    };
+
     // Ignored patterns for chokidar (don't even watch these)
     const ignored = [
       '**/browser_recordings/**',
@@ -34,7 +43,8 @@ export class WatcherService {
       '**/node_modules/**',
       '**/.git/**',
       '**/google_accounts.json',
-      '**/oauth_creds.json'
+      '**/oauth_creds.json',
+      outsideSyncFolders
     ];
 
     this.watcher = chokidar.watch(config.geminiPath, {
@@ -57,6 +67,14 @@ export class WatcherService {
     console.log(`Watching for changes in: ${config.geminiPath}`);
   }
 
+  /**
+   * Restart watching (e.g. after sync folders changed)
+   */
+  restart(): void {
+    this.stop();
+    this.start();
+  }
+
   /**
    * Stop watching
    */
@@ -65,51 +83,13 @@ export class WatcherService {
       this.watcher.close();
       this.watcher = null;
     }
-
-    if (this.debounceTimer) {
-      clearTimeout(this.debounceTimer);
-      this.debounceTimer = null;
-    }
-
-    this.pendingChanges.clear();
   }
 
   /**
-   * Handle file change with debouncing
+   * Handle file change - the sync scheduler debounces the push
    */
   private handleChange(event: string, filePath: string): void {
     console.log(`File ${event}: ${filePath}`);
-    this.pendingChanges.add(filePath);
-
-    // Clear existing timer
-    if (this.debounceTimer) {
-      clearTimeout(this.debounceTimer);
-    }
-
-    // Set new timer - sync after X minutes of inactivity
-    const config = this.configService.getConfig();
-    const delayMs = config.syncIntervalMinutes * 60 * 1000;
-
-    this.debounceTimer = setTimeout(() => {
-      this.triggerSync();
-    }, delayMs);
-  }
-
-  /**
-   * Trigger sync after debounce period
-   */
-  private async triggerSync(): Promise<void> {
-    if (this.pendingChanges.size === 0) {
-      return;
-    }
-
-    console.log(`Syncing ${this.pendingChanges.size} pending changes...`);
-    this.pendingChanges.clear();
-
-    try {
-      await this.syncService.push();
-    } catch (error) {
-      console.error('Auto-sync failed:', error);
-    }
+    this.syncService.notifyLocalChange();
   }
 }
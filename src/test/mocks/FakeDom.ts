@@ -0,0 +1,179 @@
+/**
+ * FakeDom - Just enough DOM for the Auto Retry script to run in a Node vm context
+ *
+ * Supports the selectors the script uses: tag names, `.class`, `[attr]`,
+ * `[attr="value"]` and `[attr*="value"]`, comma-separated.
+ */
+
+type Child = FakeElement | string;
+
+export class FakeElement {
+  readonly tagName: string;
+  readonly attributes: Record<string, string>;
+  children: FakeElement[] = [];
+  parentElement: FakeElement | null = null;
+  ownerDocument: FakeDocument | null = null;
+  /** Number of times click() was called */
+  clicks = 0;
+  private text = '';
+
+  constructor(tagName: string, attributes: Record<string, string> = {}) {
+    this.tagName = tagName.toUpperCase();
+    this.attributes = attributes;
+  }
+
+  get className(): string {
+    return this.attributes.class || '';
+  }
+
+  get textContent(): string {
+    return this.text + this.children.map(child => child.textContent).join('');
+  }
+
+  set textContent(value: string) {
+    this.text = value;
+    this.children = [];
+  }
+
+  getAttribute(name: string): string | null {
+    return name in this.attributes ? this.attributes[name] : null;
+  }
+
+  append(...children: Child[]): void {
+    for (const child of children) {
+      if (typeof child === 'string') {
+        this.text += child;
+      } else {
+        child.parentElement = this;
+        child.setOwner(this.ownerDocument);
+        this.children.push(child);
+      }
+    }
+  }
+
+  /** Detached copy (not counting clicks) */
+  cloneNode(deep = false): FakeElement {
+    const copy = new FakeElement(this.tagName, { ...this.attributes });
+    copy.text = this.text;
+    if (deep) {
+      copy.append(...this.children.map(child => child.cloneNode(true)));
+    }
+    return copy;
+  }
+
+  remove(): void {
+    if (this.parentElement) {
+      this.parentElement.children = this.parentElement.children.filter(child => child !== this);
+      this.parentElement = null;
+    }
+  }
+
+  click(): void {
+    this.clicks++;
+  }
+
+  matches(selector: string): boolean {
+    return selector.split(',').some(part => matchesSimple(this, part.trim()));
+  }
+
+  closest(selector: string): FakeElement | null {
+    for (let el: FakeElement | null = this; el; el = el.parentElement) {
+      if (el.matches(selector)) {
+        return el;
+      }
+    }
+    return null;
+  }
+
+  /** Matching descendants in document order */
+  querySelectorAll(selector: string): FakeElement[] {
+    const found: FakeElement[] = [];
+    const visit = (el: FakeElement) => {
+      for (const child of el.children) {
+        if (child.matches(selector)) {
+          found.push(child);
+        }
+        visit(child);
+      }
+    };
+    visit(this);
+    return found;
+  }
+
+  setOwner(doc: FakeDocument | null): void {
+    this.ownerDocument = doc;
+    for (const child of this.children) {
+      child.setOwner(doc);
+    }
+  }
+}
+
+export class FakeDocument {
+  title: string;
+  readyState: 'loading' | 'complete' = 'complete';
+  readonly body: FakeElement;
+  private listeners: Map<string, Array<() => void>> = new Map();
+
+  constructor(title: string) {
+    this.title = title;
+    this.body = new FakeElement('body');
+    this.body.setOwner(this);
+  }
+
+  querySelectorAll(selector: string): FakeElement[] {
+    return this.body.querySelectorAll(selector);
+  }
+
+  addEventListener(type: string, listener: () => void): void {
+    this.listeners.set(type, [...(this.listeners.get(type) || []), listener]);
+  }
+
+  /** Finish loading: readyState becomes complete and DOMContentLoaded fires */
+  finishLoading(): void {
+    this.readyState = 'complete';
+    const listeners = this.listeners.get('DOMContentLoaded') || [];
+    this.listeners.delete('DOMContentLoaded');
+    for (const listener of listeners) {
+      listener();
+    }
+  }
+}
+
+/**
+ * Build an element: el('div', { class: 'error' }, 'Request failed', el('button', {}, 'Retry'))
+ */
+export function el(tagName: string, attributes: Record<string, string> = {}, ...children: Child[]): FakeElement {
+  const element = new FakeElement(tagName, attributes);
+  element.append(...children);
+  return element;
+}
+
+const SIMPLE_SELECTOR = /^([a-z]+)?(?:\.([\w-]+))?(?:\[([\w-]+)(?:(\*?=)"([^"]*)")?\])?$/i;
+
+function matchesSimple(element: FakeElement, selector: string): boolean {
+  const match = SIMPLE_SELECTOR.exec(selector);
+  if (!match) {
+    throw new Error(`FakeDom does not support selector: ${selector}`);
+  }
+  const [, tag, className, attr, operator, value] = match;
+
+  if (tag && element.tagName !== tag.toUpperCase()) {
+    return false;
+  }
+  if (className && !element.className.split(/\s+/).includes(className)) {
+    return false;
+  }
+  if (attr) {
+    const actual = element.getAttribute(attr);
+    if (actual === null) {
+      return false;
+    }
+    if (operator === '=' && actual !== value) {
+      return false;
+    }
+    if (operator === '*=' && !actual.includes(value)) {
+      return false;
+    }
+  }
+  return true;
+}
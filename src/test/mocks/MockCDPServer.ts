@@ -0,0 +1,462 @@
+/**
+ * MockCDPServer - Local stand-in for an IDE launched with --remote-debugging-port
+ *
+ * Serves /json/version and /json/list, and a browser-level WebSocket speaking the
+ * parts of CDP that CDPHandler uses: target discovery, flat sessions, auto-attach,
+ * Runtime.evaluate/addBinding and Page.addScriptToEvaluateOnNewDocument.
+ *
+ * Each page or frame runs its scripts for real in a Node vm context backed by FakeDom.
+ */
+import * as http from 'http';
+import * as vm from 'vm';
+import { WebSocket, WebSocketServer } from 'ws';
+import { FakeDocument } from './FakeDom';
+
+export type MockTargetType = 'page' | 'iframe' | 'webview' | 'service_worker';
+
+/** Fills a fresh document (called again on every reload) */
+export type DocumentBuilder = (doc: FakeDocument) => void;
+
+export interface MockTarget {
+  targetId: string;
+  type: MockTargetType;
+  title: string;
+  /** Owning page of an out-of-process frame */
+  parentId?: string;
+  build: DocumentBuilder;
+  document: FakeDocument | null;
+  context: vm.Context | null;
+  contextId: number;
+  /** Waiting for Runtime.runIfWaitingForDebugger before loading */
+  paused: boolean;
+  timers: Set<NodeJS.Timeout>;
+  /** MutationObservers currently observing the document */
+  observers: Set<object>;
+}
+
+interface MockSession {
+  sessionId: string;
+  targetId: string;
+  socket: WebSocket;
+  runtimeEnabled: boolean;
+  autoAttach: boolean;
+  bindings: Set<string>;
+  scripts: Map<string, string>;
+}
+
+interface CDPMessage {
+  id: number;
+  sessionId?: string;
+  method: string;
+  params?: Record<string, unknown>;
+}
+
+export class MockCDPServer {
+  readonly port: number;
+  /** Methods that are received but never answered (to exercise timeouts) */
+  readonly hang: Set<string> = new Set();
+  /** Every command received, in order */
+  readonly received: Array<{ method: string; sessionId?: string }> = [];
+  private server: http.Server | null = null;
+  private wss: WebSocketServer | null = null;
+  private targets: Map<string, MockTarget> = new Map();
+  private sessions: Map<string, MockSession> = new Map();
+  private discovering: Set<WebSocket> = new Set();
+  private nextId = 1;
+  private waiters: Array<{ method: string; resolve: () => void }> = [];
+
+  constructor(port: number) {
+    this.port = port;
+  }
+
+  async start(): Promise<void> {
+    this.server = http.createServer((req, res) => this.handleHttp(req, res));
+    this.wss = new WebSocketServer({ server: this.server });
+    this.wss.on('connection', socket => {
+      socket.on('message', data => this.handleCommand(socket, JSON.parse(data.toString())));
+      socket.on('close', () => this.dropSocket(socket));
+    });
+    await new Promise<void>((resolve, reject) => {
+      this.server!.once('error', reject);
+      this.server!.listen(this.port, '127.0.0.1', () => resolve());
+    });
+  }
+
+  /**
+   * Close every connection and stop listening (like quitting the IDE)
+   * Targets are kept, so start() brings the same pages back.
+   */
+  async stop(): Promise<void> {
+    for (const socket of this.wss?.clients || []) {
+      socket.terminate();
+    }
+    await new Promise<void>(resolve => this.wss ? this.wss.close(() => resolve()) : resolve());
+    await new Promise<void>(resolve => this.server ? this.server.close(() => resolve()) : resolve());
+    this.server = null;
+    this.wss = null;
+  }
+
+  /** Stop the pages' timers (call when the test is done) */
+  dispose(): void {
+    for (const target of this.targets.values()) {
+      this.clearTimers(target);
+    }
+  }
+
+  /**
+   * Open a page, reported to clients that discover targets
+   */
+  addPage(title: string, build: DocumentBuilder = () => undefined, type: MockTargetType = 'page'): MockTarget {
+    const target = this.createTarget(type, title, build);
+    this.loadDocument(target);
+    this.announce(target);
+    return target;
+  }
+
+  /**
+   * Open an out-of-process frame in a page
+   * Sessions with auto-attach get it paused, like Chrome does.
+   */
+  addFrame(parentId: string, title: string, build: DocumentBuilder = () => undefined): MockTarget {
+    const target = this.createTarget('iframe', title, build, parentId);
+    const parents = [...this.sessions.values()].filter(s => s.targetId === parentId && s.autoAttach);
+    if (parents.length > 0) {
+      target.paused = true;
+      for (const parent of parents) {
+        this.autoAttach(parent, target);
+      }
+    } else {
+      this.loadDocument(target);
+    }
+    return target;
+  }
+
+  /** Reload a target: new document and execution context, registered scripts run again */
+  reload(targetId: string): void {
+    const target = this.getTarget(targetId);
+    for (const session of this.sessionsOf(targetId)) {
+      if (session.runtimeEnabled) {
+        this.sendEvent(session.socket, 'Runtime.executionContextsCleared', {}, session.sessionId);
+      }
+    }
+    this.loadDocument(target);
+  }
+
+  /** Close a target */
+  close(targetId: string): void {
+    const target = this.getTarget(targetId);
+    this.clearTimers(target);
+    this.targets.delete(targetId);
+    for (const session of this.sessionsOf(targetId)) {
+      this.sessions.delete(session.sessionId);
+      this.sendEvent(session.socket, 'Target.detachedFromTarget', { sessionId: session.sessionId, targetId });
+    }
+    for (const socket of this.discovering) {
+      this.sendEvent(socket, 'Target.targetDestroyed', { targetId });
+    }
+  }
+
+  /** Value of an expression in a target's page */
+  evaluate(targetId: string, expression: string): unknown {
+    const target = this.getTarget(targetId);
+    if (!target.context) {
+      throw new Error(`${targetId} has no document`);
+    }
+    return vm.runInContext(expression, target.context);
+  }
+
+  /** Resolves once a command with this method has been received */
+  waitFor(method: string): Promise<void> {
+    if (this.received.some(r => r.method === method)) {
+      return Promise.resolve();
+    }
+    return new Promise(resolve => this.waiters.push({ method, resolve }));
+  }
+
+  getTarget(targetId: string): MockTarget {
+    const target = this.targets.get(targetId);
+    if (!target) {
+      throw new Error(`Unknown target ${targetId}`);
+    }
+    return target;
+  }
+
+  private createTarget(type: MockTargetType, title: string, build: DocumentBuilder, parentId?: string): MockTarget {
+    const target: MockTarget = {
+      targetId: `${type}-${this.nextId++}`,
+      type,
+      title,
+      parentId,
+      build,
+      document: null,
+      context: null,
+      contextId: 0,
+      paused: false,
+      timers: new Set(),
+      observers: new Set()
+    };
+    this.targets.set(target.targetId, target);
+    return target;
+  }
+
+  private targetInfo(target: MockTarget): Record<string, unknown> {
+    return { targetId: target.targetId, type: target.type, title: target.title, url: `app://${target.targetId}`, attached: false };
+  }
+
+  private announce(target: MockTarget): void {
+    for (const socket of this.discovering) {
+      this.sendEvent(socket, 'Target.targetCreated', { targetInfo: this.targetInfo(target) });
+    }
+  }
+
+  /**
+   * New document and vm context: bindings are installed, registered scripts run while
+   * the document is loading, then the content is built and DOMContentLoaded fires
+   */
+  private loadDocument(target: MockTarget): void {
+    this.clearTimers(target);
+    target.observers.clear();
+    const doc = new FakeDocument(target.title);
+    doc.readyState = 'loading';
+
+    const track = (timer: NodeJS.Timeout) => {
+      target.timers.add(timer);
+      return timer;
+    };
+    const context = vm.createContext({
+      document: doc,
+      console: { log: () => undefined, error: () => undefined },
+      setTimeout: (fn: () => void, ms?: number) => track(setTimeout(fn, ms)),
+      setInterval: (fn: () => void, ms?: number) => track(setInterval(fn, ms)),
+      clearInterval: (timer: NodeJS.Timeout) => clearInterval(timer),
+      clearTimeout: (timer: NodeJS.Timeout) => clearTimeout(timer),
+      MutationObserver: class {
+        observe(): void {
+          // Scans rely on the script's interval, observers are only counted
+          target.observers.add(this);
+        }
+
+        disconnect(): void {
+          target.observers.delete(this);
+        }
+      }
+    });
+    context.window = context;
+
+    target.document = doc;
+    target.context = context;
+    target.contextId = this.nextId++;
+
+    for (const session of this.sessionsOf(target.targetId)) {
+      for (const name of session.bindings) {
+        this.installBinding(target, session, name);
+      }
+      if (session.runtimeEnabled) {
+        this.sendContextCreated(session, target);
+      }
+      for (const source of session.scripts.values()) {
+        this.run(target, source);
+      }
+    }
+
+    target.build(doc);
+    doc.finishLoading();
+  }
+
+  private installBinding(target: MockTarget, session: MockSession, name: string): void {
+    if (!target.context) return;
+    const contextId = target.contextId;
+    target.context[name] = (payload: string) => {
+      if (this.sessions.has(session.sessionId)) {
+        this.sendEvent(session.socket, 'Runtime.bindingCalled', { name, payload, executionContextId: contextId }, session.sessionId);
+      }
+    };
+  }
+
+  private run(target: MockTarget, source: string): unknown {
+    return vm.runInContext(source, target.context!);
+  }
+
+  private clearTimers(target: MockTarget): void {
+    for (const timer of target.timers) {
+      clearTimeout(timer);
+      clearInterval(timer);
+    }
+    target.timers.clear();
+  }
+
+  private sessionsOf(targetId: string): MockSession[] {
+    return [...this.sessions.values()].filter(s => s.targetId === targetId);
+  }
+
+  private createSession(socket: WebSocket, targetId: string): MockSession {
+    const session: MockSession = {
+      sessionId: `session-${this.nextId++}`,
+      targetId,
+      socket,
+      runtimeEnabled: false,
+      autoAttach: false,
+      bindings: new Set(),
+      scripts: new Map()
+    };
+    this.sessions.set(session.sessionId, session);
+    return session;
+  }
+
+  private autoAttach(parent: MockSession, target: MockTarget): void {
+    const session = this.createSession(parent.socket, target.targetId);
+    this.sendEvent(parent.socket, 'Target.attachedToTarget', {
+      sessionId: session.sessionId,
+      targetInfo: this.targetInfo(target),
+      waitingForDebugger: target.paused
+    }, parent.sessionId);
+  }
+
+  private sendContextCreated(session: MockSession, target: MockTarget): void {
+    if (!target.context) return;
+    this.sendEvent(session.socket, 'Runtime.executionContextCreated', {
+      context: { id: target.contextId, auxData: { isDefault: true, frameId: target.targetId } }
+    }, session.sessionId);
+  }
+
+  private dropSocket(socket: WebSocket): void {
+    this.discovering.delete(socket);
+    for (const session of [...this.sessions.values()]) {
+      if (session.socket === socket) {
+        this.sessions.delete(session.sessionId);
+      }
+    }
+  }
+
+  private handleHttp(req: http.IncomingMessage, res: http.ServerResponse): void {
+    const wsUrl = (path: string) => `ws://127.0.0.1:${this.port}${path}`;
+    res.setHeader('Content-Type', 'application/json');
+    if (req.url === '/json/version') {
+      res.end(JSON.stringify({ Browser: 'MockCDP/1.0', webSocketDebuggerUrl: wsUrl('/devtools/browser/mock') }));
+    } else if (req.url === '/json/list' || req.url === '/json') {
+      res.end(JSON.stringify([...this.targets.values()].map(target => ({
+        id: target.targetId,
+        type: target.type,
+        title: target.title,
+        webSocketDebuggerUrl: wsUrl(`/devtools/page/${target.targetId}`)
+      }))));
+    } else {
+      res.statusCode = 404;
+      res.end('{}');
+    }
+  }
+
+  private handleCommand(socket: WebSocket, msg: CDPMessage): void {
+    this.received.push({ method: msg.method, sessionId: msg.sessionId });
+    for (const waiter of this.waiters.filter(w => w.method === msg.method)) {
+      this.waiters.splice(this.waiters.indexOf(waiter), 1);
+      waiter.resolve();
+    }
+    if (this.hang.has(msg.method)) {
+      return;
+    }
+
+    const reply = (result: unknown = {}) =>
+      socket.send(JSON.stringify({ id: msg.id, sessionId: msg.sessionId, result }));
+    const fail = (message: string) =>
+      socket.send(JSON.stringify({ id: msg.id, sessionId: msg.sessionId, error: { code: -32000, message } }));
+
+    const params: Record<string, unknown> = msg.params || {};
+    if (!msg.sessionId) {
+      switch (msg.method) {
+        case 'Target.setDiscoverTargets':
+          this.discovering.add(socket);
+          reply();
+          for (const target of this.targets.values()) {
+            this.sendEvent(socket, 'Target.targetCreated', { targetInfo: this.targetInfo(target) });
+          }
+          return;
+        case 'Target.getTargets':
+          return reply({ targetInfos: [...this.targets.values()].map(t => this.targetInfo(t)) });
+        case 'Target.attachToTarget': {
+          const targetId = String(params.targetId);
+          if (!this.targets.has(targetId)) {
+            return fail(`No target with given id found`);
+          }
+          const session = this.createSession(socket, targetId);
+          this.sendEvent(socket, 'Target.attachedToTarget', {
+            sessionId: session.sessionId,
+            targetInfo: this.targetInfo(this.getTarget(targetId)),
+            waitingForDebugger: false
+          });
+          return reply({ sessionId: session.sessionId });
+        }
+        case 'Target.detachFromTarget':
+          this.sessions.delete(String(params.sessionId));
+          return reply();
+        default:
+          return fail(`'${msg.method}' wasn't found`);
+      }
+    }
+
+    const session = this.sessions.get(msg.sessionId);
+    const target = session && this.targets.get(session.targetId);
+    if (!session || !target) {
+      return fail('Session with given id not found.');
+    }
+
+    switch (msg.method) {
+      case 'Runtime.enable':
+        session.runtimeEnabled = true;
+        // Existing contexts are reported before the response, like Chrome does
+        this.sendContextCreated(session, target);
+        return reply();
+      case 'Runtime.addBinding': {
+        const name = String(params.name);
+        session.bindings.add(name);
+        this.installBinding(target, session, name);
+        return reply();
+      }
+      case 'Target.setAutoAttach':
+        session.autoAttach = !!params.autoAttach;
+        reply();
+        for (const frame of this.targets.values()) {
+          if (frame.parentId === target.targetId) {
+            this.autoAttach(session, frame);
+          }
+        }
+        return;
+      case 'Page.addScriptToEvaluateOnNewDocument': {
+        const identifier = String(this.nextId++);
+        session.scripts.set(identifier, String(params.source));
+        return reply({ identifier });
+      }
+      case 'Page.removeScriptToEvaluateOnNewDocument':
+        session.scripts.delete(String(params.identifier));
+        return reply();
+      case 'Runtime.runIfWaitingForDebugger':
+        reply();
+        if (target.paused) {
+          target.paused = false;
+          this.loadDocument(target);
+        }
+        return;
+      case 'Runtime.evaluate':
+        if (!target.context || (params.contextId && params.contextId !== target.contextId)) {
+          return fail('Cannot find context with specified id');
+        }
+        try {
+          const value = this.run(target, String(params.expression));
+          return reply({ result: { type: typeof value, value } });
+        } catch (e) {
+          return reply({
+            result: { type: 'object', subtype: 'error', description: String(e) },
+            exceptionDetails: { text: 'Uncaught', exception: { description: String(e) } }
+          });
+        }
+      default:
+        return reply();
+    }
+  }
+
+  private sendEvent(socket: WebSocket, method: string, params: unknown, sessionId?: string): void {
+    if (socket.readyState === WebSocket.OPEN) {
+      socket.send(JSON.stringify({ method, params, sessionId }));
+    }
+  }
+}
@@ -0,0 +1,133 @@
+/**
+ * MockS3Server - In-memory stand-in for an S3-compatible server (MinIO style)
+ *
+ * Path-style GET/PUT/DELETE of objects, PUT with If-None-Match: *, and the
+ * Signature V4 of every request checked against the known access keys. Errors
+ * use the S3 XML format.
+ */
+import * as crypto from 'crypto';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { signRequest } from '../../services/S3Backend';
+
+export interface MockS3Request {
+  method: string;
+  bucket: string;
+  key: string;
+}
+
+export class MockS3Server {
+  /** bucket -> key -> content */
+  readonly buckets: Map<string, Map<string, Buffer>> = new Map();
+  readonly requests: MockS3Request[] = [];
+  private readonly keys: Map<string, string>;
+  private server: http.Server;
+
+  constructor(credentials: { accessKeyId: string; secretAccessKey: string }, buckets: string[]) {
+    this.keys = new Map([[credentials.accessKeyId, credentials.secretAccessKey]]);
+    for (const bucket of buckets) {
+      this.buckets.set(bucket, new Map());
+    }
+    this.server = http.createServer((req, res) => {
+      const chunks: Buffer[] = [];
+      req.on('data', chunk => chunks.push(chunk));
+      req.on('end', () => this.handle(req, Buffer.concat(chunks), res));
+    });
+  }
+
+  async start(): Promise<string> {
+    await new Promise<void>(resolve => this.server.listen(0, '127.0.0.1', resolve));
+    return `http://127.0.0.1:${(this.server.address() as AddressInfo).port}`;
+  }
+
+  async stop(): Promise<void> {
+    await new Promise(resolve => this.server.close(resolve));
+  }
+
+  private handle(req: http.IncomingMessage, body: Buffer, res: http.ServerResponse): void {
+    const url = new URL(req.url || '/', `http://${req.headers.host}`);
+    const [bucket, ...rest] = url.pathname.slice(1).split('/');
+    const key = rest.map(decodeURIComponent).join('/');
+    const method = req.method || 'GET';
+    this.requests.push({ method, bucket, key });
+
+    const authError = this.checkSignature(req, url, body);
+    if (authError) {
+      return this.error(res, 403, authError);
+    }
+    const objects = this.buckets.get(bucket);
+    if (!objects) {
+      return this.error(res, 404, 'NoSuchBucket', 'The specified bucket does not exist');
+    }
+
+    switch (method) {
+      case 'GET': {
+        const content = objects.get(key);
+        if (!content) {
+          return this.error(res, 404, 'NoSuchKey', 'The specified key does not exist.');
+        }
+        res.statusCode = 200;
+        res.end(content);
+        return;
+      }
+      case 'PUT':
+        if (req.headers['if-none-match'] === '*' && objects.has(key)) {
+          return this.error(res, 412, 'PreconditionFailed', 'At least one of the pre-conditions you specified did not hold');
+        }
+        objects.set(key, body);
+        res.statusCode = 200;
+        res.end();
+        return;
+      case 'DELETE':
+        objects.delete(key);
+        res.statusCode = 204;
+        res.end();
+        return;
+      default:
+        this.error(res, 405, 'MethodNotAllowed');
+    }
+  }
+
+  /**
+   * @returns an S3 error code, or null if the request is signed correctly
+   */
+  private checkSignature(req: http.IncomingMessage, url: URL, body: Buffer): string | null {
+    const auth = String(req.headers.authorization || '');
+    const match = auth.match(/^AWS4-HMAC-SHA256 Credential=([^/]+)\/\d{8}\/([^/]+)\/s3\/aws4_request, SignedHeaders=([^,]+), Signature=([0-9a-f]{64})$/);
+    if (!match) {
+      return 'AccessDenied';
+    }
+    const [, accessKeyId, region, signedHeaders, signature] = match;
+    const secretAccessKey = this.keys.get(accessKeyId);
+    if (!secretAccessKey) {
+      return 'InvalidAccessKeyId';
+    }
+
+    const payloadHash = crypto.createHash('sha256').update(body).digest('hex');
+    if (req.headers['x-amz-content-sha256'] !== payloadHash) {
+      return 'XAmzContentSHA256Mismatch';
+    }
+
+    const amzDate = String(req.headers['x-amz-date'] || '');
+    const date = new Date(amzDate.replace(/^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})Z$/, '$1-$2-$3T$4:$5:$6Z'));
+    const headers: Record<string, string> = {};
+    for (const name of signedHeaders.split(';')) {
+      if (!['host', 'x-amz-date', 'x-amz-content-sha256'].includes(name)) {
+        headers[name] = String(req.headers[name] || '');
+      }
+    }
+    const expected = signRequest(
+      { method: req.method || 'GET', url, headers, payloadHash },
+      region,
+      { accessKeyId, secretAccessKey },
+      date
+    ).Authorization;
+    return expected.endsWith(`Signature=${signature}`) ? null : 'SignatureDoesNotMatch';
+  }
+
+  private error(res: http.ServerResponse, status: number, code: string, message = ''): void {
+    res.statusCode = status;
+    res.setHeader('Content-Type', 'application/xml');
+    res.end(`<?xml version="1.0" encoding="UTF-8"?><Error><Code>${code}</Code><Message>${message}</Message></Error>`);
+  }
+}
@@ -0,0 +1,70 @@
+/**
+ * AuditLog Unit Tests
+ */
+import { AuditLog, AuditEvent } from '../../services/AuditLog';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+
+function event(button: string, type: AuditEvent['type'] = 'click'): AuditEvent {
+  return {
+    timestamp: new Date().toISOString(),
+    type,
+    pageId: '31905:page-1',
+    button,
+    context: 'error'
+  };
+}
+
+describe('AuditLog', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'ag-audit-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should append events as JSON lines and read them newest first', () => {
+    const log = new AuditLog(dir);
+    log.append([event('Retry'), event('Run', 'block')]);
+    log.append([event('Accept')]);
+
+    expect(log.read().map(e => e.button)).toEqual(['Accept', 'Run', 'Retry']);
+    expect(fs.readFileSync(path.join(dir, 'auto-retry-audit.jsonl'), 'utf-8').trim().split('\n')).toHaveLength(3);
+  });
+
+  it('should rotate past the size limit and drop the oldest file', () => {
+    const log = new AuditLog(dir, 200, 3);
+    for (let i = 0; i < 12; i++) {
+      log.append([event(`button-${i}`)]);
+    }
+
+    const files = fs.readdirSync(dir).sort();
+    expect(files).toEqual(['auto-retry-audit.1.jsonl', 'auto-retry-audit.2.jsonl', 'auto-retry-audit.jsonl']);
+    expect(log.read(1)[0].button).toBe('button-11');
+    expect(log.read().some(e => e.button === 'button-0')).toBe(false);
+  });
+
+  it('should export all files oldest first', () => {
+    const log = new AuditLog(dir, 200, 3);
+    for (let i = 0; i < 5; i++) {
+      log.append([event(`button-${i}`)]);
+    }
+    const destination = path.join(dir, 'export.jsonl');
+
+    const count = log.exportTo(destination);
+
+    const exported = fs.readFileSync(destination, 'utf-8').trim().split('\n').map(l => JSON.parse(l).button);
+    expect(count).toBe(5);
+    expect(exported).toEqual(['button-0', 'button-1', 'button-2', 'button-3', 'button-4']);
+  });
+
+  it('should skip partial lines', () => {
+    fs.writeFileSync(path.join(dir, 'auto-retry-audit.jsonl'), JSON.stringify(event('Retry')) + '\n{"timesta');
+
+    expect(new AuditLog(dir).read().map(e => e.button)).toEqual(['Retry']);
+  });
+});
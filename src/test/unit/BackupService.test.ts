@@ -0,0 +1,137 @@
+/**
+ * BackupService Unit Tests
+ */
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { BackupService } from '../../services/BackupService';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe('BackupService', () => {
+  let tmp: string;
+  let gemini: string;
+  let backups: string;
+
+  function write(file: string, content: string): void {
+    const filePath = path.join(gemini, file);
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, content);
+  }
+
+  function read(file: string): string | null {
+    const filePath = path.join(gemini, file);
+    return fs.existsSync(filePath) ? fs.readFileSync(filePath, 'utf8') : null;
+  }
+
+  function backupOf(service: BackupService, files: string[], date: Date): string {
+    const backup = service.begin(gemini, 'pull', date);
+    files.forEach(f => backup.add(f));
+    return backup.finish()!.id;
+  }
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    tmp = fs.mkdtempSync(path.join(os.tmpdir(), 'ag-backup-'));
+    gemini = path.join(tmp, 'antigravity');
+    backups = path.join(tmp, 'backups');
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmp, { recursive: true, force: true });
+    jest.restoreAllMocks();
+  });
+
+  it('should back up existing files once and restore them', () => {
+    const service = new BackupService(backups, { maxCount: 10, maxAgeDays: 0 });
+    write('conversations/a.pb', 'original');
+    write('brain/a/task.md', 'task');
+
+    const backup = service.begin(gemini, 'pull');
+    backup.add('conversations/a.pb');
+    backup.add('conversations/a.pb');
+    backup.add('brain/a/task.md');
+    backup.add('knowledge/new.md');
+    const info = backup.finish();
+
+    expect(info?.files.map(f => f.path)).toEqual(['conversations/a.pb', 'brain/a/task.md']);
+    expect(info?.files[0]).toMatchObject({ size: 8 });
+    expect(service.list().map(b => b.id)).toEqual([info!.id]);
+
+    write('conversations/a.pb', 'overwritten by pull');
+    fs.rmSync(path.join(gemini, 'brain'), { recursive: true });
+    expect(service.restore(info!.id, gemini)).toHaveLength(2);
+
+    expect(read('conversations/a.pb')).toBe('original');
+    expect(read('brain/a/task.md')).toBe('task');
+  });
+
+  it('should not keep a backup without files', () => {
+    const service = new BackupService(backups, { maxCount: 10, maxAgeDays: 0 });
+
+    expect(service.begin(gemini, 'pull').finish()).toBeNull();
+    expect(fs.readdirSync(backups)).toEqual([]);
+  });
+
+  it('should not back up anything with maxCount 0', () => {
+    const service = new BackupService(backups, { maxCount: 0, maxAgeDays: 0 });
+    write('a.md', 'a');
+
+    const backup = service.begin(gemini, 'pull');
+    backup.add('a.md');
+
+    expect(backup.finish()).toBeNull();
+    expect(fs.existsSync(backups)).toBe(false);
+  });
+
+  it('should refuse to restore a damaged backup', () => {
+    const service = new BackupService(backups, { maxCount: 10, maxAgeDays: 0 });
+    write('a.md', 'a');
+    write('b.md', 'b');
+    const id = backupOf(service, ['a.md', 'b.md'], new Date());
+
+    fs.writeFileSync(path.join(backups, id, 'files', 'a.md'), 'tampered');
+    fs.rmSync(path.join(backups, id, 'files', 'b.md'));
+    write('a.md', 'current');
+
+    expect(service.verify(id)).toEqual({ id, ok: false, missing: ['b.md'], corrupted: ['a.md'] });
+    expect(() => service.restore(id, gemini)).toThrow(`Backup ${id} failed the integrity check: b.md (missing), a.md (corrupted)`);
+    expect(read('a.md')).toBe('current');
+  });
+
+  it('should keep the newest backups up to maxCount', () => {
+    const service = new BackupService(backups, { maxCount: 2, maxAgeDays: 0 });
+    write('a.md', 'a');
+    const start = Date.UTC(2026, 0, 1);
+    const ids = [0, 1, 2].map(i => backupOf(service, ['a.md'], new Date(start + i * 1000)));
+
+    expect(service.list().map(b => b.id)).toEqual([ids[2], ids[1]]);
+  });
+
+  it('should remove backups older than maxAgeDays and interrupted backups', () => {
+    const service = new BackupService(backups, { maxCount: 10, maxAgeDays: 7 });
+    write('a.md', 'a');
+    const now = Date.UTC(2026, 0, 31);
+    backupOf(service, ['a.md'], new Date(now - 8 * DAY_MS));
+    const recent = backupOf(service, ['a.md'], new Date(now - DAY_MS));
+    service.begin(gemini, 'pull', new Date(now)).add('a.md');
+
+    service.prune(now);
+
+    expect(service.list().map(b => b.id)).toEqual([recent]);
+    expect(fs.readdirSync(backups)).toEqual([recent]);
+  });
+
+  it('should give backups taken at the same time distinct ids', () => {
+    const service = new BackupService(backups, { maxCount: 10, maxAgeDays: 0 });
+    write('a.md', 'a');
+    const date = new Date(Date.UTC(2026, 0, 1));
+
+    const first = backupOf(service, ['a.md'], date);
+    const second = backupOf(service, ['a.md'], date);
+
+    expect(first).toBe('2026-01-01T00-00-00-000Z');
+    expect(second).toBe('2026-01-01T00-00-00-000Z-1');
+    expect(service.list().map(b => b.id)).toEqual([second, first]);
+  });
+});
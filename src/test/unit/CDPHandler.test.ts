@@ -0,0 +1,333 @@
+/**
+ * CDPHandler End-to-End Tests
+ *
+ * Runs the handler against MockCDPServer, where the injected script really executes.
+ */
+import { CDPEvent, CDPHandler } from '../../services/CDPHandler';
+import { DEFAULT_ERROR_POLICIES } from '../../services/ErrorClassifier';
+import { el, FakeDocument } from '../mocks/FakeDom';
+import { MockCDPServer } from '../mocks/MockCDPServer';
+
+const mockSettings: Record<string, unknown> = {};
+
+jest.mock('vscode', () => ({
+  workspace: {
+    getConfiguration: () => ({
+      get: (key: string, defaultValue: unknown) => key in mockSettings ? mockSettings[key] : defaultValue
+    })
+  }
+}), { virtual: true });
+
+// Scan base-1 .. base+1; servers listen on base and base+1
+const BASE_PORT = 41000 + Math.floor(Math.random() * 8000);
+const FAST_SCAN = { pollInterval: 20, cooldownSeconds: 0 };
+
+async function until(condition: () => boolean, timeoutMs = 3000): Promise<void> {
+  const start = Date.now();
+  while (!condition()) {
+    if (Date.now() - start > timeoutMs) {
+      throw new Error('Timed out waiting for condition');
+    }
+    await new Promise(resolve => setTimeout(resolve, 10));
+  }
+}
+
+function errorWithRetry(doc: FakeDocument): void {
+  doc.body.append(el('div', { class: 'error' }, 'Agent terminated due to error', el('button', {}, 'Retry')));
+}
+
+function buttons(doc: FakeDocument | null, label: string) {
+  return (doc?.querySelectorAll('button') || []).filter(b => b.textContent === label);
+}
+
+describe('CDPHandler', () => {
+  let servers: MockCDPServer[];
+  let handler: CDPHandler;
+  let events: CDPEvent[];
+  let logs: string[];
+
+  async function startServer(port = BASE_PORT): Promise<MockCDPServer> {
+    const server = new MockCDPServer(port);
+    await server.start();
+    servers.push(server);
+    return server;
+  }
+
+  beforeEach(() => {
+    mockSettings.cdpPort = BASE_PORT;
+    mockSettings.cdpPortRange = 1;
+    servers = [];
+    events = [];
+    logs = [];
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    handler = new CDPHandler();
+    handler.setLogCallback(message => logs.push(message));
+    handler.onEvent(event => events.push(event));
+  });
+
+  afterEach(async () => {
+    await handler.stop();
+    for (const server of servers) {
+      server.dispose();
+      await server.stop();
+    }
+    jest.restoreAllMocks();
+  });
+
+  describe('discovery', () => {
+    it('should find IDE windows on every port of the range', async () => {
+      const first = await startServer(BASE_PORT);
+      const second = await startServer(BASE_PORT + 1);
+      const a = first.addPage('Window A');
+      const b = second.addPage('Window B');
+
+      expect(await handler.start(FAST_SCAN)).toBe(true);
+
+      expect(handler.getConnectionCount()).toBe(2);
+      expect(first.evaluate(a.targetId, 'window.__autoRetryLoaded')).toBe(true);
+      expect(second.evaluate(b.targetId, 'window.__autoRetryLoaded')).toBe(true);
+    });
+
+    it('should only report page and webview targets as available', async () => {
+      const server = await startServer();
+      server.addPage('worker', undefined, 'service_worker');
+
+      expect(await handler.isCDPAvailable()).toBe(false);
+
+      server.addPage('Window', undefined, 'webview');
+      expect(await handler.getActivePort()).toBe(BASE_PORT);
+    });
+
+    it('should report no connection when nothing listens', async () => {
+      expect(await handler.start()).toBe(false);
+      expect(handler.getConnectionCount()).toBe(0);
+    });
+
+    it('should not attach to workers', async () => {
+      const server = await startServer();
+      server.addPage('Window');
+      const worker = server.addPage('worker', undefined, 'service_worker');
+
+      await handler.start(FAST_SCAN);
+
+      expect(handler.getConnectionCount()).toBe(1);
+      expect(server.evaluate(worker.targetId, 'window.__autoRetryLoaded')).toBeUndefined();
+    });
+
+    it('should attach to windows opened after start', async () => {
+      const server = await startServer();
+      server.addPage('Window A');
+      await handler.start(FAST_SCAN);
+
+      const b = server.addPage('Window B', errorWithRetry);
+
+      await until(() => handler.getConnectionCount() === 2);
+      await until(() => buttons(b.document, 'Retry')[0]?.clicks === 1);
+    });
+
+    it('should keep the script across reloads', async () => {
+      const server = await startServer();
+      const page = server.addPage('Window', errorWithRetry);
+      await handler.start(FAST_SCAN);
+      await until(() => events.some(e => e.type === 'click'));
+
+      server.reload(page.targetId);
+
+      expect(server.evaluate(page.targetId, 'window.__autoRetryLoaded')).toBe(true);
+      await until(() => buttons(page.document, 'Retry')[0]?.clicks === 1);
+    });
+
+    it('should reconnect after the IDE restarts', async () => {
+      const server = await startServer();
+      const page = server.addPage('Window');
+      await handler.start(FAST_SCAN);
+
+      await server.stop();
+      await until(() => handler.getConnectionCount() === 0);
+      await server.start();
+
+      expect(await handler.discover()).toBe(1);
+      expect(server.evaluate(page.targetId, 'window.__autoRetryLoaded')).toBe(true);
+    });
+  });
+
+  describe('frames', () => {
+    it('should run in out-of-process frames and count them in their window', async () => {
+      const server = await startServer();
+      const page = server.addPage('Window');
+      await handler.start(FAST_SCAN);
+
+      const frame = server.addFrame(page.targetId, 'Agent', errorWithRetry);
+
+      await until(() => buttons(frame.document, 'Retry')[0]?.clicks === 1);
+      await until(() => handler.getWindowStats()[0]?.stats.clicks === 1);
+      expect(handler.getWindowStats()).toHaveLength(1);
+      expect(handler.getWindowStats()[0].title).toBe('Window');
+      expect(handler.getConnectionCount()).toBe(1);
+    });
+  });
+
+  describe('retry and ban logic', () => {
+    it('should click Retry in an error and push the event', async () => {
+      const server = await startServer();
+      const page = server.addPage('Window', errorWithRetry);
+      const quiet = server.addPage('Other', doc => doc.body.append(el('div', {}, 'All good', el('button', {}, 'Retry'))));
+
+      await handler.start(FAST_SCAN);
+      await until(() => events.some(e => e.type === 'click'));
+
+      expect(buttons(page.document, 'Retry')[0].clicks).toBe(1);
+      expect(buttons(quiet.document, 'Retry')[0].clicks).toBe(0);
+      const click = events.find(e => e.type === 'click');
+      expect(click?.type === 'click' && click.audit.pageTitle).toBe('Window');
+      await until(() => handler.getWindowStats().some(w => w.stats.clicks === 1));
+      expect((await handler.getStats()).clicks).toBe(1);
+    });
+
+    it('should not click next to a banned command', async () => {
+      const server = await startServer();
+      const page = server.addPage('Window', doc => {
+        doc.body.append(el('div', { class: 'terminal-command' }, 'sudo rm -rf / ', el('button', {}, 'Run')));
+        doc.body.append(el('div', { class: 'terminal-command' }, 'npm test ', el('button', {}, 'Run')));
+      });
+
+      await handler.start({ ...FAST_SCAN, rules: [{ label: 'Run', context: 'terminal', action: 'click' }] });
+      await until(() => events.some(e => e.type === 'block') && events.some(e => e.type === 'click'));
+
+      const [banned, allowed] = buttons(page.document, 'Run');
+      expect(banned.clicks).toBe(0);
+      expect(allowed.clicks).toBe(1);
+      const block = events.find(e => e.type === 'block');
+      expect(block?.type === 'block' && block.audit.pattern).toBe('rm -rf /');
+      expect(events.filter(e => e.type === 'block')).toHaveLength(1);
+    });
+
+    it('should click next to an allowed command and still block a banned one', async () => {
+      const server = await startServer();
+      const page = server.addPage('Window', doc => {
+        doc.body.append(el('div', { class: 'terminal-command' }, 'rm -rf ~/tmp/build ', el('button', {}, 'Run')));
+        doc.body.append(el('div', { class: 'terminal-command' }, 'rm -rf ~ ', el('button', {}, 'Run')));
+      });
+
+      await handler.start({
+        ...FAST_SCAN,
+        rules: [{ label: 'Run', context: 'terminal', action: 'click' }],
+        allowedCommands: ['rm -rf ~/tmp/build']
+      });
+      await until(() => events.some(e => e.type === 'block') && events.some(e => e.type === 'click'));
+
+      const [allowed, banned] = buttons(page.document, 'Run');
+      expect(allowed.clicks).toBe(1);
+      expect(banned.clicks).toBe(0);
+      const block = events.find(e => e.type === 'block');
+      expect(block?.type === 'block' && block.audit.command).toBe('rm -rf ~');
+      expect(block?.type === 'block' && block.audit.pattern).toBe('rm -rf ~');
+    });
+
+    it('should stop retrying a conversation when its budget is exhausted', async () => {
+      const server = await startServer();
+      const page = server.addPage('Window', errorWithRetry);
+
+      await handler.start({ ...FAST_SCAN, maxRetries: 2 });
+      await until(() => buttons(page.document, 'Retry')[0].clicks === 1);
+      for (let turn = 0; turn < 2; turn++) {
+        // Fresh error and Retry button, like a new failed turn
+        page.document!.body.children = [];
+        errorWithRetry(page.document!);
+        const [retry] = buttons(page.document, 'Retry');
+        await until(() => retry.clicks === 1 || events.some(e => e.type === 'exhausted'));
+      }
+
+      expect(events.filter(e => e.type === 'click')).toHaveLength(2);
+      expect((await handler.getStats()).exhausted).toEqual(['Window']);
+    });
+  });
+
+  describe('start and stop', () => {
+    it('should replace its observers on restart and stop clicking once stopped', async () => {
+      const server = await startServer();
+      const page = server.addPage('Window');
+
+      await handler.start(FAST_SCAN);
+      server.evaluate(page.targetId, 'window.__autoAcceptStart()');
+      expect(page.observers.size).toBe(1);
+
+      server.evaluate(page.targetId, 'window.__autoAcceptStop()');
+      expect(page.observers.size).toBe(0);
+
+      errorWithRetry(page.document!);
+      await new Promise(resolve => setTimeout(resolve, 100));
+      expect(buttons(page.document, 'Retry')[0].clicks).toBe(0);
+    });
+  });
+
+  describe('error policies', () => {
+    it('should notify instead of retrying a tool failure', async () => {
+      const server = await startServer();
+      const page = server.addPage('Window', doc => {
+        doc.body.append(el('div', {}, 'Tool call failed: run_command', el('button', {}, 'Retry')));
+      });
+
+      await handler.start(FAST_SCAN);
+      await until(() => events.some(e => e.type === 'notify'));
+
+      const notify = events.find(e => e.type === 'notify');
+      expect(notify?.type === 'notify' && notify.notification.errorClass).toBe('tool');
+      expect(buttons(page.document, 'Retry')[0].clicks).toBe(0);
+      expect((await handler.getStats()).errors).toEqual({ tool: 1 });
+    });
+
+    it('should wait before retrying an overloaded model', async () => {
+      const server = await startServer();
+      const page = server.addPage('Window', doc => {
+        doc.body.append(el('div', {}, 'The model is overloaded', el('button', {}, 'Retry')));
+      });
+      const errorPolicies = { ...DEFAULT_ERROR_POLICIES, overloaded: { action: 'wait' as const, seconds: 0.3 } };
+
+      await handler.start({ ...FAST_SCAN, errorPolicies });
+      await until(() => handler.getWindowStats()[0]?.stats.errors.overloaded === 1);
+      const [retry] = buttons(page.document, 'Retry');
+      expect(retry.clicks).toBe(0);
+
+      await until(() => events.some(e => e.type === 'click'));
+      expect(retry.clicks).toBe(1);
+      const click = events.find(e => e.type === 'click');
+      expect(click?.type === 'click' && click.audit.errorClass).toBe('overloaded');
+    });
+
+    it('should report an error that stays on screen as stalled', async () => {
+      const server = await startServer();
+      server.addPage('Window', doc => {
+        doc.body.append(el('div', {}, 'Tool call failed: run_command', el('button', {}, 'Retry')));
+      });
+
+      await handler.start({ ...FAST_SCAN, stallSeconds: 0.2 });
+      await until(() => events.some(e => e.type === 'stalled'));
+
+      const stalled = events.filter(e => e.type === 'stalled');
+      expect(stalled).toHaveLength(1);
+      expect(stalled[0].type === 'stalled' && stalled[0].errorClass).toBe('tool');
+    });
+  });
+
+  describe('timeouts', () => {
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('should give up on a page that never answers', async () => {
+      const server = await startServer();
+      server.addPage('Window');
+      server.hang.add('Runtime.evaluate');
+      jest.useFakeTimers({ doNotFake: ['nextTick', 'setImmediate', 'queueMicrotask'] });
+
+      const started = handler.start(FAST_SCAN);
+      await server.waitFor('Runtime.evaluate');
+      jest.advanceTimersByTime(5000);
+
+      await started;
+      expect(logs.some(message => /Evaluation failed in .*: CDP Timeout/.test(message))).toBe(true);
+      server.hang.clear();
+    });
+  });
+});
@@ -0,0 +1,104 @@
+/**
+ * CommandPolicy Unit Tests
+ *
+ * Commands are checked with the matcher source exactly as it is injected into the page.
+ */
+import {
+  buildBannedCommands,
+  CommandPolicyResult,
+  DEFAULT_BANNED_COMMANDS,
+  evaluateCommandPolicy,
+  readCommandPolicy
+} from '../../services/CommandPolicy';
+
+type Matcher = (command: string, banned: string[], allowed: string[]) => CommandPolicyResult;
+
+// Rebuilt from its source, like CDPHandler.getInjectScript does
+const pageMatcher = new Function(`return ${evaluateCommandPolicy.toString()};`)() as Matcher;
+
+function isAllowed(command: string, banned: string[] = [], allowed: string[] = []): boolean {
+  return pageMatcher(command, buildBannedCommands(banned), allowed).allowed;
+}
+
+describe('CommandPolicy', () => {
+  describe('defaults', () => {
+    it.each([
+      'rm -rf /',
+      'sudo RM -RF ~/projects',
+      'dd if=/dev/zero of=/dev/sda',
+      'mkfs.ext4 /dev/sdb1',
+      'npm test && rm -rf /'
+    ])('should block %s', command => {
+      expect(isAllowed(command)).toBe(false);
+    });
+
+    it.each([
+      'npm test',
+      'git status',
+      'rm -rf node_modules'
+    ])('should allow %s', command => {
+      expect(isAllowed(command)).toBe(true);
+    });
+
+    it('should keep the defaults when user patterns are added', () => {
+      const banned = buildBannedCommands(['git push --force', 'rm -rf /']);
+
+      expect(banned).toEqual([...DEFAULT_BANNED_COMMANDS, 'git push --force']);
+    });
+  });
+
+  describe('pattern syntax', () => {
+    it('should support regex patterns with flags', () => {
+      const banned = ['/\\bgit\\s+push\\b.*--force/i'];
+
+      expect(isAllowed('GIT PUSH origin main --force', banned)).toBe(false);
+      expect(isAllowed('git push origin main', banned)).toBe(true);
+    });
+
+    it('should support glob patterns against the whole command', () => {
+      const banned = ['glob:curl * | sh'];
+
+      expect(isAllowed('curl https://example.com/install | sh', banned)).toBe(false);
+      expect(isAllowed('curl https://example.com/install -o install.sh', banned)).toBe(true);
+    });
+
+    it('should never match with an invalid regex', () => {
+      expect(isAllowed('anything', ['/([/'])).toBe(true);
+    });
+  });
+
+  describe('allow-list', () => {
+    it('should lift a ban for an exact command', () => {
+      expect(isAllowed('rm -rf ~/tmp/build', [], ['rm -rf ~/tmp/build'])).toBe(true);
+      expect(pageMatcher('rm -rf ~/tmp/build', DEFAULT_BANNED_COMMANDS, ['rm -rf ~/tmp/build']).pattern)
+        .toBe('rm -rf ~/tmp/build');
+    });
+
+    it('should not lift a ban for a chained command', () => {
+      expect(isAllowed('rm -rf ~/tmp/build; rm -rf /', [], ['rm -rf ~/tmp/build'])).toBe(false);
+      expect(isAllowed('rm -rf ~/tmp/x && rm -rf /', [], ['glob:rm -rf ~/tmp/*'])).toBe(false);
+      expect(isAllowed('rm -rf ~/tmp/x', [], ['glob:rm -rf ~/tmp/*'])).toBe(true);
+    });
+  });
+
+  describe('settings', () => {
+    it('should merge banned patterns with the defaults and drop empty allowed entries', () => {
+      const settings: Record<string, unknown> = { bannedCommands: [' git push --force '], allowedCommands: ['npm test', '', '  ', 3] };
+      const config = { get: <T>(section: string, defaultValue: T): T => (settings[section] as T) ?? defaultValue };
+
+      expect(readCommandPolicy(config)).toEqual({
+        bannedCommands: [...DEFAULT_BANNED_COMMANDS, 'git push --force'],
+        allowedCommands: ['npm test']
+      });
+    });
+  });
+
+  it('should behave the same as the extension-side function', () => {
+    const samples = ['rm -rf /', 'npm test', 'curl x | sh'];
+    const banned = buildBannedCommands(['glob:curl * | sh']);
+
+    for (const command of samples) {
+      expect(pageMatcher(command, banned, [])).toEqual(evaluateCommandPolicy(command, banned, []));
+    }
+  });
+});
@@ -48,6 +48,7 @@ describe('ConfigService', () => {
       expect(config.autoSync).toBe(true);
       expect(config.syncIntervalMinutes).toBe(5);
       expect(config.excludePatterns).toEqual([]);
+      expect(config.syncFolders).toEqual(['knowledge', 'brain', 'conversations']);
     });
 
     it('should use custom values when configured', () => {
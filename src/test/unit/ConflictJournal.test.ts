@@ -0,0 +1,92 @@
+/**
+ * ConflictJournal Unit Tests
+ */
+import { ConflictJournal } from '../../services/ConflictJournal';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+
+describe('ConflictJournal', () => {
+  let statePath: string;
+
+  const version = (size: number, blob: string | null = 'abc123') => ({
+    size,
+    mtime: new Date(0).toISOString(),
+    blob
+  });
+
+  beforeEach(() => {
+    statePath = fs.mkdtempSync(path.join(os.tmpdir(), 'ag-journal-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(statePath, { recursive: true, force: true });
+  });
+
+  it('should record decisions as unreviewed, newest first', () => {
+    const journal = new ConflictJournal(statePath);
+    journal.record({ file: 'a.pb', local: version(10), remote: version(50), chosen: 'remote', rule: 'larger' });
+    journal.record({ file: 'b.md', local: version(5), remote: version(6), chosen: 'merged', rule: 'three-way-merge' });
+
+    const records = journal.list();
+    expect(records.map(r => r.file)).toEqual(['b.md', 'a.pb']);
+    expect(records.every(r => !r.reviewed)).toBe(true);
+  });
+
+  it('should persist across instances', () => {
+    const record = new ConflictJournal(statePath)
+      .record({ file: 'a.pb', local: version(10), remote: version(50), chosen: 'remote', rule: 'larger' });
+
+    const reloaded = new ConflictJournal(statePath).get(record.id);
+    expect(reloaded?.remote.size).toBe(50);
+    expect(reloaded?.rule).toBe('larger');
+  });
+
+  it('should hide reviewed records from the queue but keep them in history', () => {
+    const journal = new ConflictJournal(statePath);
+    const record = journal.record({ file: 'a.pb', local: version(1), remote: version(2), chosen: 'local', rule: 'newer' });
+
+    journal.markReviewed(record.id);
+
+    expect(journal.list()).toEqual([]);
+    expect(journal.list({ includeReviewed: true })).toHaveLength(1);
+  });
+
+  it('should supersede an unreviewed record for the same file', () => {
+    const journal = new ConflictJournal(statePath);
+    journal.record({ file: 'a.pb', local: version(1), remote: version(2), chosen: 'local', rule: 'newer' });
+    const latest = journal.record({ file: 'a.pb', local: version(3), remote: version(4), chosen: 'remote', rule: 'newer' });
+
+    expect(journal.list().map(r => r.id)).toEqual([latest.id]);
+  });
+
+  it('should keep copies of versions until no record refers to them', () => {
+    const journal = new ConflictJournal(statePath);
+    const first = journal.record(
+      { file: 'a.pb', local: version(5, 'aaa111'), remote: version(6, 'bbb222'), chosen: 'remote', rule: 'newer' },
+      { local: Buffer.from('local') }
+    );
+
+    expect(journal.readVersion(first.id, 'local')?.toString()).toBe('local');
+    expect(journal.readVersion(first.id, 'remote')).toBeNull();
+
+    const second = journal.record(
+      { file: 'a.pb', local: version(5, 'ccc333'), remote: version(6, 'bbb222'), chosen: 'remote', rule: 'newer' },
+      { local: Buffer.from('newer local') }
+    );
+
+    expect(fs.readdirSync(path.join(statePath, 'conflict-versions'))).toEqual(['ccc333']);
+    expect(new ConflictJournal(statePath).readVersion(second.id, 'local')?.toString()).toBe('newer local');
+  });
+
+  it('should update a record (e.g. flipped decision)', () => {
+    const journal = new ConflictJournal(statePath);
+    const record = journal.record({ file: 'a.pb', local: version(1), remote: version(2, null), chosen: 'local', rule: 'larger' });
+
+    const updated = journal.update(record.id, { chosen: 'remote', flipped: true });
+
+    expect(updated?.chosen).toBe('remote');
+    expect(new ConflictJournal(statePath).get(record.id)?.flipped).toBe(true);
+    expect(journal.update('missing', { reviewed: true })).toBeUndefined();
+  });
+});
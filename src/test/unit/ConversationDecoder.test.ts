@@ -0,0 +1,102 @@
+/**
+ * ConversationDecoder Unit Tests
+ */
+import { ConversationDecoder } from '../../services/ConversationDecoder';
+
+// Minimal protobuf wire encoder for fixtures
+function varint(value: number): Buffer {
+  const bytes: number[] = [];
+  while (value >= 0x80) {
+    bytes.push((value % 128) | 0x80);
+    value = Math.floor(value / 128);
+  }
+  bytes.push(value);
+  return Buffer.from(bytes);
+}
+
+function varintField(field: number, value: number): Buffer {
+  return Buffer.concat([varint(field * 8), varint(value)]);
+}
+
+function bytesField(field: number, payload: Buffer): Buffer {
+  return Buffer.concat([varint(field * 8 + 2), varint(payload.length), payload]);
+}
+
+function timestamp(seconds: number): Buffer {
+  return Buffer.concat([varintField(1, seconds), varintField(2, 500_000_000)]);
+}
+
+// Conversation: 1 = id, 2 = repeated message { 1 = text, 3 = created_at }
+function message(text: string, seconds: number): Buffer {
+  return bytesField(2, Buffer.concat([bytesField(1, Buffer.from(text)), bytesField(3, timestamp(seconds))]));
+}
+
+function conversation(...messages: Buffer[]): Buffer {
+  return Buffer.concat([bytesField(1, Buffer.from('conv-1')), ...messages]);
+}
+
+const T0 = 1_760_000_000;
+
+describe('ConversationDecoder', () => {
+  describe('decode', () => {
+    it('should read message count and last message timestamp', () => {
+      const decoded = ConversationDecoder.decode(conversation(
+        message('hello', T0),
+        message('world', T0 + 60)
+      ));
+
+      expect(decoded?.messageField).toBe(2);
+      expect(decoded?.messages).toHaveLength(2);
+      expect(decoded?.lastMessageAt).toBe((T0 + 60) * 1000 + 500);
+    });
+
+    it('should return null for data that is not protobuf', () => {
+      expect(ConversationDecoder.decode(Buffer.from([0xff, 0xff, 0xff]))).toBeNull();
+      expect(ConversationDecoder.decode(Buffer.alloc(0))).toBeNull();
+    });
+  });
+
+  describe('resolve', () => {
+    const base = conversation(message('a', T0));
+
+    it('should prefer the side with more messages', () => {
+      const local = conversation(message('a', T0));
+      const remote = conversation(message('a', T0), message('b', T0 + 1), message('c', T0 + 2));
+
+      expect(ConversationDecoder.resolve(local, remote, null)).toEqual({ winner: 'remote', rule: 'more-messages' });
+    });
+
+    it('should prefer the later last message when counts match', () => {
+      const local = conversation(message('a', T0), message('b', T0 + 100));
+      const remote = conversation(message('a', T0), message('c', T0 + 5));
+
+      expect(ConversationDecoder.resolve(local, remote, null)).toEqual({ winner: 'local', rule: 'later-message' });
+    });
+
+    it('should union histories when both sides appended to the base', () => {
+      const local = conversation(message('a', T0), message('local', T0 + 20));
+      const remote = conversation(message('a', T0), message('remote', T0 + 10));
+
+      const resolution = ConversationDecoder.resolve(local, remote, base);
+
+      expect(resolution?.winner).toBe('merged');
+      const merged = resolution?.winner === 'merged' ? resolution.content : Buffer.alloc(0);
+      expect(merged.equals(conversation(
+        message('a', T0),
+        message('remote', T0 + 10),
+        message('local', T0 + 20)
+      ))).toBe(true);
+    });
+
+    it('should not union when one side rewrote the base', () => {
+      const local = conversation(message('edited', T0), message('b', T0 + 20));
+      const remote = conversation(message('a', T0), message('c', T0 + 10), message('d', T0 + 30));
+
+      expect(ConversationDecoder.resolve(local, remote, base)).toEqual({ winner: 'remote', rule: 'more-messages' });
+    });
+
+    it('should return null when a side cannot be decoded', () => {
+      expect(ConversationDecoder.resolve(Buffer.from([0xff, 0x01]), base, null)).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,80 @@
+/**
+ * EncryptionService Unit Tests
+ */
+import { EncryptionService, ENCRYPTION_KEY_FILE } from '../../services/EncryptionService';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+
+describe('EncryptionService', () => {
+  let repoPath: string;
+  let encryption: EncryptionService;
+
+  beforeEach(() => {
+    repoPath = fs.mkdtempSync(path.join(os.tmpdir(), 'ag-encryption-'));
+    encryption = new EncryptionService(EncryptionService.deriveKeyForRepo(repoPath, 'correct horse'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(repoPath, { recursive: true, force: true });
+  });
+
+  describe('key derivation', () => {
+    it('should create the key file on first use and accept the same passphrase later', () => {
+      expect(fs.existsSync(path.join(repoPath, ENCRYPTION_KEY_FILE))).toBe(true);
+
+      const key = EncryptionService.deriveKeyForRepo(repoPath, 'correct horse');
+      expect(EncryptionService.matchesRepo(repoPath, key)).toBe(true);
+    });
+
+    it('should reject a wrong passphrase', () => {
+      expect(() => EncryptionService.deriveKeyForRepo(repoPath, 'wrong horse')).toThrow('Wrong encryption passphrase');
+    });
+  });
+
+  describe('encrypt / decrypt', () => {
+    it('should round-trip path and content', () => {
+      const content = Buffer.from([0, 1, 2, 255]);
+      const encrypted = encryption.encrypt(path.join('conversations', 'a.pb'), content);
+
+      const decrypted = encryption.decrypt(encrypted);
+      expect(decrypted.relativePath).toBe(path.join('conversations', 'a.pb'));
+      expect(decrypted.content.equals(content)).toBe(true);
+      expect(encrypted.includes(Buffer.from('conversations'))).toBe(false);
+    });
+
+    it('should be deterministic so unchanged files produce no git diff', () => {
+      const a = encryption.encrypt('knowledge/x.md', Buffer.from('same'));
+      const b = encryption.encrypt('knowledge/x.md', Buffer.from('same'));
+      const c = encryption.encrypt('knowledge/x.md', Buffer.from('changed'));
+
+      expect(a.equals(b)).toBe(true);
+      expect(a.equals(c)).toBe(false);
+    });
+
+    it('should detect tampering', () => {
+      const encrypted = encryption.encrypt('knowledge/x.md', Buffer.from('secret'));
+      encrypted[encrypted.length - 1] ^= 1;
+
+      expect(() => encryption.decrypt(encrypted)).toThrow();
+    });
+
+    it('should read the original path from the header only', () => {
+      const filePath = path.join(repoPath, 'file.enc');
+      fs.writeFileSync(filePath, encryption.encrypt('brain/task.md', Buffer.alloc(1024, 1)));
+
+      expect(encryption.readPath(filePath)).toBe(path.join('brain', 'task.md'));
+    });
+  });
+
+  describe('getStoragePath', () => {
+    it('should hash the name and keep the top-level folder', () => {
+      const storagePath = encryption.getStoragePath(path.join('knowledge', 'secret-project', 'notes.md'));
+
+      expect(storagePath.startsWith('knowledge' + path.sep)).toBe(true);
+      expect(storagePath).not.toContain('secret-project');
+      expect(EncryptionService.isEncryptedPath(storagePath)).toBe(true);
+      expect(encryption.getStoragePath(path.join('knowledge', 'secret-project', 'notes.md'))).toBe(storagePath);
+    });
+  });
+});
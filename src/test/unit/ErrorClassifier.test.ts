@@ -0,0 +1,68 @@
+/**
+ * ErrorClassifier Unit Tests
+ *
+ * Both functions are rebuilt from their source, as they run in the page.
+ */
+import { classifyError, ErrorClass, parseResetDelay } from '../../services/ErrorClassifier';
+
+const pageClassify = new Function(`return ${classifyError.toString()};`)() as (text: string) => ErrorClass;
+const pageResetDelay = new Function(`return ${parseResetDelay.toString()};`)() as (text: string, now: number) => number | null;
+
+const NOW = Date.UTC(2026, 0, 15, 10, 0, 0);
+
+describe('ErrorClassifier', () => {
+  describe('classifyError', () => {
+    it.each<[string, ErrorClass]>([
+      ['You have exceeded your quota. Try again in 2h.', 'quota'],
+      ['Error 429: Too Many Requests', 'quota'],
+      ['Rate limit reached for this model', 'quota'],
+      ['RESOURCE_EXHAUSTED', 'quota'],
+      ['The model is overloaded. Please try again later.', 'overloaded'],
+      ['503 Service Unavailable', 'overloaded'],
+      ['We are experiencing high demand', 'overloaded'],
+      ['Network error: connection lost', 'network'],
+      ['Request timed out', 'network'],
+      ['fetch failed (ECONNRESET)', 'network'],
+      ['Tool call failed: read_file', 'tool'],
+      ['Command exited with code 1', 'tool'],
+      ['Agent terminated due to error', 'terminated'],
+      ['Something went wrong', 'unknown'],
+      ['', 'unknown']
+    ])('should classify "%s" as %s', (text, expected) => {
+      expect(pageClassify(text)).toBe(expected);
+    });
+
+    it('should prefer quota over terminated when both are mentioned', () => {
+      expect(pageClassify('Agent terminated: rate limit exceeded')).toBe('quota');
+    });
+  });
+
+  describe('parseResetDelay', () => {
+    it.each<[string, number]>([
+      ['Try again in 45 seconds', 45000],
+      ['Quota resets in 2h 30m', 9000000],
+      ['Retry after 1 hour and 5 minutes', 3900000],
+      ['Please retry in 1.5m', 90000]
+    ])('should read the duration in "%s"', (text, expected) => {
+      expect(pageResetDelay(text, NOW)).toBe(expected);
+    });
+
+    it('should read an ISO timestamp', () => {
+      expect(pageResetDelay('Quota resets at 2026-01-15T12:00:00Z', NOW)).toBe(2 * 3600000);
+    });
+
+    it('should read a UTC clock time, rolling over to tomorrow', () => {
+      expect(pageResetDelay('Resets at 11:30 UTC', NOW)).toBe(90 * 60000);
+      expect(pageResetDelay('Resets at 9:00 am UTC', NOW)).toBe(23 * 3600000);
+      expect(pageResetDelay('Resets at 1:00 pm GMT', NOW)).toBe(3 * 3600000);
+    });
+
+    it('should not report a timestamp in the past as negative', () => {
+      expect(pageResetDelay('Quota reset at 2026-01-15T08:00:00Z', NOW)).toBe(0);
+    });
+
+    it('should return null without a reset time', () => {
+      expect(pageResetDelay('You have exceeded your quota', NOW)).toBeNull();
+    });
+  });
+});
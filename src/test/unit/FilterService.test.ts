@@ -86,4 +86,29 @@ describe('FilterService', () => {
       expect(customFilter.shouldIgnore('drafts/doc.md')).toBe(true);
     });
   });
+
+  describe('sync folders', () => {
+    it('should only allow enabled top-level folders', () => {
+      const folderFilter = new FilterService(mockGeminiPath, [], ['knowledge']);
+      expect(folderFilter.shouldIgnore('knowledge/item/overview.md')).toBe(false);
+      expect(folderFilter.shouldIgnore('conversations/123.pb')).toBe(true);
+      expect(folderFilter.shouldIgnore('brain/task.md')).toBe(true);
+    });
+
+    it('should always allow root-level files', () => {
+      const folderFilter = new FilterService(mockGeminiPath, [], ['knowledge']);
+      expect(folderFilter.shouldIgnore('mcp_config.json')).toBe(false);
+      expect(folderFilter.isInSyncFolder('brain', true)).toBe(false);
+    });
+
+    it('should still apply default excludes inside enabled folders', () => {
+      const folderFilter = new FilterService(mockGeminiPath, [], ['knowledge']);
+      expect(folderFilter.shouldIgnore('knowledge/.DS_Store')).toBe(true);
+    });
+
+    it('should allow every folder without an allow-list', () => {
+      expect(filterService.shouldIgnore('brain/task.md')).toBe(false);
+      expect(filterService.getSyncFolders()).toBeUndefined();
+    });
+  });
 });
@@ -0,0 +1,77 @@
+/**
+ * ManifestService Unit Tests
+ */
+import { ManifestService } from '../../services/ManifestService';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+
+describe('ManifestService', () => {
+  let statePath: string;
+
+  beforeEach(() => {
+    statePath = fs.mkdtempSync(path.join(os.tmpdir(), 'ag-manifest-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(statePath, { recursive: true, force: true });
+  });
+
+  describe('reconcile', () => {
+    it('should not report deletions before anything was synced', () => {
+      const manifest = new ManifestService(statePath);
+      const plan = manifest.reconcile(['knowledge/a.md'], ['conversations/1.pb']);
+
+      expect(plan.deletedLocally).toEqual([]);
+      expect(plan.deletedRemotely).toEqual([]);
+    });
+
+    it('should detect files deleted locally and remotely', () => {
+      const manifest = new ManifestService(statePath);
+      manifest.update(['a.md', 'b.md', 'c.md'], ['a.md', 'b.md', 'c.md']);
+
+      const plan = manifest.reconcile(['a.md', 'c.md'], ['a.md', 'b.md']);
+
+      expect(plan.deletedLocally).toEqual(['b.md']);
+      expect(plan.deletedRemotely).toEqual(['c.md']);
+    });
+
+    it('should treat a rename as delete + new file', () => {
+      const manifest = new ManifestService(statePath);
+      manifest.update(['old.md'], ['old.md']);
+
+      const plan = manifest.reconcile(['new.md'], ['old.md']);
+
+      expect(plan.deletedLocally).toEqual(['old.md']);
+      expect(plan.deletedRemotely).toEqual([]);
+    });
+  });
+
+  describe('update', () => {
+    it('should persist across instances', () => {
+      new ManifestService(statePath).update(['a.md'], ['a.md']);
+      expect(new ManifestService(statePath).has('a.md')).toBe(true);
+    });
+
+    it('should keep pending deletions until they propagate', () => {
+      const manifest = new ManifestService(statePath);
+      manifest.update(['a.md'], ['a.md']);
+
+      // Deleted remotely, local copy not removed yet
+      manifest.update(['a.md'], []);
+      expect(manifest.has('a.md')).toBe(true);
+
+      // Gone on both sides
+      manifest.update([], []);
+      expect(manifest.has('a.md')).toBe(false);
+    });
+
+    it('should not track files that exist on one side only', () => {
+      const manifest = new ManifestService(statePath);
+      manifest.update(['local-only.md'], ['remote-only.md']);
+
+      expect(manifest.has('local-only.md')).toBe(false);
+      expect(manifest.has('remote-only.md')).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,149 @@
+/**
+ * Notifier Unit Tests
+ */
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { Notifier, NotifierEvent } from '../../services/Notifier';
+
+type WebhookPayload = NotifierEvent & { text: string; source: string; machine: string };
+
+const mockSettings: Record<string, unknown> = {};
+const mockShowWarningMessage = jest.fn();
+
+jest.mock('vscode', () => ({
+  workspace: {
+    getConfiguration: () => ({
+      get: (key: string, defaultValue: unknown) => key in mockSettings ? mockSettings[key] : defaultValue
+    })
+  },
+  window: {
+    showWarningMessage: (...args: unknown[]) => mockShowWarningMessage(...args)
+  }
+}), { virtual: true });
+
+describe('Notifier', () => {
+  let notifier: Notifier;
+  let now: number;
+
+  beforeEach(() => {
+    for (const key of Object.keys(mockSettings)) {
+      delete mockSettings[key];
+    }
+    mockShowWarningMessage.mockReset();
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    now = Date.UTC(2026, 0, 15, 10, 0, 0);
+    jest.spyOn(Date, 'now').mockImplementation(() => now);
+    notifier = new Notifier();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('triggers', () => {
+    it('should show a toast by default', async () => {
+      expect(await notifier.notify('syncFailed', 'Sync failed', 'Push rejected')).toBe(true);
+      expect(mockShowWarningMessage).toHaveBeenCalledWith('Sync failed: Push rejected');
+    });
+
+    it('should send every trigger by default', async () => {
+      expect(await notifier.notify('actionNeeded', 'Auto Retry needs you', '"Accept" is waiting for you')).toBe(true);
+      expect(mockShowWarningMessage).toHaveBeenCalledWith('Auto Retry needs you: "Accept" is waiting for you');
+    });
+
+    it('should ignore triggers that are turned off', async () => {
+      mockSettings.notificationTriggers = ['syncFailed'];
+
+      expect(await notifier.notify('commandBlocked', 'Dangerous command blocked', 'rm -rf /')).toBe(false);
+      expect(mockShowWarningMessage).not.toHaveBeenCalled();
+    });
+
+    it('should send nothing without sinks', async () => {
+      mockSettings.notificationSinks = [];
+
+      expect(await notifier.notify('agentStalled', 'Agent stalled', 'Window')).toBe(true);
+      expect(mockShowWarningMessage).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('rate limit', () => {
+    it('should send one notification per trigger per window and count the rest', async () => {
+      mockSettings.notificationRateLimitSeconds = 60;
+
+      await notifier.notify('retryExhausted', 'Auto Retry gave up', 'A');
+      now += 30000;
+      expect(await notifier.notify('retryExhausted', 'Auto Retry gave up', 'B')).toBe(false);
+      expect(await notifier.notify('retryExhausted', 'Auto Retry gave up', 'C')).toBe(false);
+      now += 30000;
+      expect(await notifier.notify('retryExhausted', 'Auto Retry gave up', 'D')).toBe(true);
+
+      expect(mockShowWarningMessage.mock.calls.map(call => call[0])).toEqual([
+        'Auto Retry gave up: A',
+        'Auto Retry gave up: D (+2 more since the last notification)'
+      ]);
+    });
+
+    it('should limit each trigger separately', async () => {
+      await notifier.notify('retryExhausted', 'Auto Retry gave up', 'A');
+
+      expect(await notifier.notify('syncFailed', 'Sync failed', 'B')).toBe(true);
+      expect(mockShowWarningMessage).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('webhook', () => {
+    let server: http.Server;
+    let requests: Array<{ method?: string; body: WebhookPayload }>;
+    let status: number;
+
+    beforeEach(async () => {
+      requests = [];
+      status = 200;
+      server = http.createServer((req, res) => {
+        let body = '';
+        req.on('data', chunk => body += chunk);
+        req.on('end', () => {
+          requests.push({ method: req.method, body: JSON.parse(body) as WebhookPayload });
+          res.statusCode = status;
+          res.end();
+        });
+      });
+      await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+      mockSettings.notificationWebhookUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/hook`;
+    });
+
+    afterEach(async () => {
+      await new Promise(resolve => server.close(resolve));
+    });
+
+    it('should post the event as JSON', async () => {
+      mockSettings.notificationSinks = ['webhook'];
+
+      await notifier.notify('agentStalled', 'Agent stalled', 'Window has been stuck for 15 min');
+
+      expect(requests).toHaveLength(1);
+      expect(requests[0].method).toBe('POST');
+      expect(requests[0].body).toMatchObject({
+        text: 'Agent stalled: Window has been stuck for 15 min',
+        source: 'antigravity-sync',
+        trigger: 'agentStalled',
+        title: 'Agent stalled',
+        message: 'Window has been stuck for 15 min',
+        timestamp: '2026-01-15T10:00:00.000Z',
+        suppressed: 0
+      });
+      expect(mockShowWarningMessage).not.toHaveBeenCalled();
+    });
+
+    it('should still show the toast when the webhook fails', async () => {
+      mockSettings.notificationSinks = ['webhook', 'toast'];
+      status = 500;
+
+      expect(await notifier.notify('syncFailed', 'Sync failed', 'Push rejected')).toBe(true);
+
+      expect(requests).toHaveLength(1);
+      expect(mockShowWarningMessage).toHaveBeenCalledWith('Sync failed: Push rejected');
+      expect(console.log).toHaveBeenCalledWith('[Notifier] webhook failed: Webhook returned 500');
+    });
+  });
+});
@@ -0,0 +1,104 @@
+/**
+ * PathMapper Unit Tests
+ */
+import { PathMapper } from '../../services/PathMapper';
+import { ConversationDecoder } from '../../services/ConversationDecoder';
+import * as path from 'path';
+
+const REMOTE = '/Users/alice/src';
+const LOCAL = '/home/alice/code';
+
+// Minimal protobuf writer for length-delimited fields
+function field(num: number, payload: Buffer | string): Buffer {
+  const data = typeof payload === 'string' ? Buffer.from(payload) : payload;
+  const varint = (value: number) => {
+    const bytes: number[] = [];
+    while (value >= 0x80) {
+      bytes.push((value % 128) | 0x80);
+      value = Math.floor(value / 128);
+    }
+    bytes.push(value);
+    return Buffer.from(bytes);
+  };
+  return Buffer.concat([varint(num * 8 + 2), varint(data.length), data]);
+}
+
+describe('PathMapper', () => {
+  const mapper = new PathMapper([{ remote: REMOTE, local: LOCAL }]);
+
+  describe('paths', () => {
+    it('should rewrite URI-encoded workspace directory names', () => {
+      const remoteRel = path.join('brain', encodeURIComponent(`${REMOTE}/app`), 'task.md');
+      const localRel = path.join('brain', encodeURIComponent(`${LOCAL}/app`), 'task.md');
+
+      expect(mapper.toLocalPath(remoteRel)).toBe(localRel);
+      expect(mapper.toRemotePath(localRel)).toBe(remoteRel);
+    });
+
+    it('should leave ordinary paths alone', () => {
+      const rel = path.join('knowledge', 'src', 'notes.md');
+      expect(mapper.toLocalPath(rel)).toBe(rel);
+    });
+  });
+
+  describe('text content', () => {
+    it('should rewrite plain paths and file URIs', () => {
+      const content = Buffer.from(JSON.stringify({
+        workspace: `${REMOTE}/app`,
+        uri: `file://${REMOTE}/app/index.ts`
+      }));
+
+      const local = mapper.toLocalContent('index.json', content).toString();
+
+      expect(local).toContain(`"${LOCAL}/app"`);
+      expect(local).toContain(`file://${LOCAL}/app/index.ts`);
+      expect(mapper.toRemoteContent('index.json', Buffer.from(local)).equals(content)).toBe(true);
+    });
+
+    it('should not match a longer path sharing the prefix', () => {
+      const content = Buffer.from(`${REMOTE}2/app and ${REMOTE}-old`);
+      expect(mapper.toLocalContent('notes.md', content).toString()).toBe(content.toString());
+    });
+
+    it('should prefer the longest matching mapping', () => {
+      const nested = new PathMapper([
+        { remote: REMOTE, local: LOCAL },
+        { remote: `${REMOTE}/work`, local: '/srv/work' }
+      ]);
+
+      const local = nested.toLocalContent('a.md', Buffer.from(`${REMOTE}/work/x ${REMOTE}/y`)).toString();
+
+      expect(local).toBe(`/srv/work/x ${LOCAL}/y`);
+    });
+  });
+
+  describe('protobuf content', () => {
+    it('should rewrite nested string fields and re-encode lengths', () => {
+      const conversation = Buffer.concat([
+        field(1, 'conversation title'),
+        field(2, Buffer.concat([field(1, `${REMOTE}/app`), field(3, 'hello')])),
+        field(2, Buffer.concat([field(1, `file://${REMOTE}/app/main.ts`)]))
+      ]);
+
+      const local = mapper.toLocalContent('conversations/c.pb', conversation);
+
+      expect(local.includes(Buffer.from(REMOTE))).toBe(false);
+      expect(local.includes(Buffer.from(`file://${LOCAL}/app/main.ts`))).toBe(true);
+      expect(ConversationDecoder.decode(local)?.messages).toHaveLength(2);
+      expect(mapper.toRemoteContent('conversations/c.pb', local).equals(conversation)).toBe(true);
+    });
+
+    it('should leave files that are not protobuf unchanged', () => {
+      const content = Buffer.from([0xff, 0xff, 0xff, ...Buffer.from(REMOTE)]);
+      expect(mapper.toLocalContent('conversations/c.pb', content).equals(content)).toBe(true);
+    });
+  });
+
+  it('should be a no-op without mappings', () => {
+    const empty = new PathMapper([]);
+    const content = Buffer.from(REMOTE);
+
+    expect(empty.isEmpty()).toBe(true);
+    expect(empty.toLocalContent('a.md', content)).toBe(content);
+  });
+});
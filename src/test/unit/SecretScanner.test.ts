@@ -0,0 +1,101 @@
+/**
+ * SecretScanner Unit Tests
+ */
+import { SecretScanner } from '../../services/SecretScanner';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+
+// Built at runtime so the fixtures do not trip secret scanners on this repo
+const GITHUB_TOKEN = 'ghp' + '_' + 'a1B2c3D4e5F6g7H8i9J0k1L2m3N4o5P6q7R8';
+const AWS_KEY = 'AKIA' + 'IOSFODNN7EXAMPLE';
+const RANDOM_TOKEN = 'x9Kq2LmZ7vR4tW8pN3bY6cH1jD5fG0sQ';
+
+describe('SecretScanner', () => {
+  let statePath: string;
+
+  beforeEach(() => {
+    statePath = fs.mkdtempSync(path.join(os.tmpdir(), 'ag-secrets-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(statePath, { recursive: true, force: true });
+  });
+
+  describe('scan', () => {
+    it('should detect common token formats', () => {
+      const scanner = new SecretScanner(statePath, 'block');
+      const content = Buffer.from(`line one\ntoken: ${GITHUB_TOKEN}\naws ${AWS_KEY}\n`);
+
+      const findings = scanner.scan('knowledge/notes.md', content);
+
+      expect(findings.map(f => f.rule).sort()).toEqual(['aws-access-key', 'github-token']);
+      expect(findings.find(f => f.rule === 'github-token')?.line).toBe(2);
+      expect(findings.every(f => !f.preview.includes(GITHUB_TOKEN))).toBe(true);
+    });
+
+    it('should detect high-entropy strings but not ordinary identifiers or hashes', () => {
+      const scanner = new SecretScanner(statePath, 'block');
+
+      expect(scanner.scan('a.md', Buffer.from(`key ${RANDOM_TOKEN} end`)).map(f => f.rule)).toEqual(['high-entropy']);
+      expect(scanner.scan('a.md', Buffer.from('commit 3f786850e387550fdab836ed7e6dc881de23001b'))).toEqual([]);
+      expect(scanner.scan('a.md', Buffer.from('ThisIsAVeryLongIdentifierNameForTesting1'))).toEqual([]);
+    });
+
+    it('should find nothing when scanning is off', () => {
+      const scanner = new SecretScanner(statePath, 'off');
+      expect(scanner.scan('a.md', Buffer.from(GITHUB_TOKEN))).toEqual([]);
+    });
+  });
+
+  describe('actions', () => {
+    it('should redact with a same-length mask', () => {
+      const scanner = new SecretScanner(statePath, 'redact');
+      const content = Buffer.from(`\x0a\x2c${GITHUB_TOKEN}\x12\x01x`, 'latin1');
+
+      const result = scanner.process('conversations/1.pb', content);
+
+      expect(result.content?.length).toBe(content.length);
+      expect(result.content?.toString('latin1')).not.toContain(GITHUB_TOKEN);
+      expect(result.content?.toString('latin1')).toContain('ghp_****');
+      expect(scanner.isRedactedCopy('conversations/1.pb', result.content!)).toBe(true);
+      expect(scanner.isRedactedCopy('conversations/1.pb', content)).toBe(false);
+    });
+
+    it('should quarantine until the file is clean', () => {
+      const scanner = new SecretScanner(statePath, 'quarantine');
+
+      expect(scanner.process('a.md', Buffer.from(AWS_KEY)).content).toBeNull();
+      expect(scanner.isQuarantined('a.md')).toBe(true);
+
+      expect(scanner.process('a.md', Buffer.from('clean')).content?.toString()).toBe('clean');
+      expect(scanner.isQuarantined('a.md')).toBe(false);
+    });
+
+    it('should block pushes while findings exist', () => {
+      const scanner = new SecretScanner(statePath, 'block');
+      scanner.process('a.md', Buffer.from(AWS_KEY));
+
+      expect(() => scanner.assertNotBlocked()).toThrow('Secrets detected in 1 file(s)');
+    });
+
+    it('should remember allowed findings across instances', () => {
+      const scanner = new SecretScanner(statePath, 'block');
+      scanner.process('a.md', Buffer.from(AWS_KEY));
+      scanner.allow('a.md');
+
+      const reloaded = new SecretScanner(statePath, 'block');
+      expect(reloaded.process('a.md', Buffer.from(AWS_KEY)).findings).toEqual([]);
+      expect(() => reloaded.assertNotBlocked()).not.toThrow();
+    });
+
+    it('should not clear findings from a clean staged copy', () => {
+      const scanner = new SecretScanner(statePath, 'redact');
+      const redacted = scanner.process('a.md', Buffer.from(AWS_KEY)).content!;
+
+      scanner.processStaged('a.md', redacted);
+
+      expect(scanner.getFindings()).toHaveLength(1);
+    });
+  });
+});
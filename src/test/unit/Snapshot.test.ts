@@ -0,0 +1,59 @@
+/**
+ * Snapshot Unit Tests
+ */
+import {
+  describeRestoreTarget,
+  getConversationId,
+  getConversationIds,
+  isInRestoreScope,
+  listRestoreFolders
+} from '../../services/Snapshot';
+
+describe('Snapshot', () => {
+  it.each([
+    ['conversations/abc-123.pb', 'abc-123'],
+    ['brain/abc-123/task.md', 'abc-123'],
+    ['brain/abc-123/nested/plan.md', 'abc-123'],
+    ['brain/readme.md', null],
+    ['knowledge/abc-123.pb', null],
+    ['conversations/abc-123.pb.bak', null]
+  ])('should find the conversation of %s', (file, expected) => {
+    expect(getConversationId(file)).toBe(expected);
+  });
+
+  it('should list each conversation once, in order of appearance', () => {
+    expect(getConversationIds([
+      'brain/b/task.md',
+      'conversations/a.pb',
+      'knowledge/x.md',
+      'conversations/b.pb'
+    ])).toEqual(['b', 'a']);
+  });
+
+  it('should tell which files a restore covers', () => {
+    expect(isInRestoreScope('knowledge/x.md', { scope: 'all' })).toBe(true);
+    expect(isInRestoreScope('brain/a/task.md', { scope: 'folder', path: 'brain/a/' })).toBe(true);
+    expect(isInRestoreScope('brain/ab/task.md', { scope: 'folder', path: 'brain/a' })).toBe(false);
+    expect(isInRestoreScope('conversations/a.pb', { scope: 'conversation', id: 'a' })).toBe(true);
+    expect(isInRestoreScope('brain/a/task.md', { scope: 'conversation', id: 'a' })).toBe(true);
+    expect(isInRestoreScope('brain/b/task.md', { scope: 'conversation', id: 'a' })).toBe(false);
+    expect(isInRestoreScope('knowledge/x.md', { scope: 'file', path: 'knowledge/x.md' })).toBe(true);
+    expect(isInRestoreScope('knowledge/y.md', { scope: 'file', path: 'knowledge/x.md' })).toBe(false);
+  });
+
+  it('should describe a restore target', () => {
+    expect(describeRestoreTarget({ scope: 'all' })).toBe('all synced files');
+    expect(describeRestoreTarget({ scope: 'folder', path: 'brain/a' })).toBe('brain/a/');
+    expect(describeRestoreTarget({ scope: 'conversation', id: 'a' })).toBe('conversation a');
+    expect(describeRestoreTarget({ scope: 'file', path: 'knowledge/x.md' })).toBe('knowledge/x.md');
+  });
+
+  it('should offer top-level folders and their direct children', () => {
+    expect(listRestoreFolders([
+      'brain/a/task.md',
+      'brain/a/deep/plan.md',
+      'conversations/a.pb',
+      'settings.json'
+    ])).toEqual(['brain', 'brain/a', 'conversations']);
+  });
+});
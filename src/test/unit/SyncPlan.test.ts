@@ -0,0 +1,26 @@
+/**
+ * SyncPlan Unit Tests
+ */
+import { bringsRemoteContent, summarizePlan } from '../../services/SyncPlan';
+
+describe('SyncPlan', () => {
+  it('should tell which changes bring the remote version', () => {
+    expect(bringsRemoteContent({ file: 'a.md', action: 'overwrite', rule: 'changed remotely' })).toBe(true);
+    expect(bringsRemoteContent({ file: 'a.md', action: 'create', rule: 'changed remotely' })).toBe(true);
+    expect(bringsRemoteContent({ file: 'a.md', action: 'delete-local', rule: 'deleted remotely' })).toBe(false);
+    expect(bringsRemoteContent({ file: 'a.pb', action: 'conflict', rule: 'larger', winner: 'remote' })).toBe(true);
+    expect(bringsRemoteContent({ file: 'a.md', action: 'conflict', rule: 'three-way-merge', winner: 'merged' })).toBe(true);
+    expect(bringsRemoteContent({ file: 'a.pb', action: 'conflict', rule: 'newer', winner: 'local' })).toBe(false);
+  });
+
+  it('should summarize a plan by action', () => {
+    expect(summarizePlan([])).toBe('Nothing to do');
+    expect(summarizePlan([
+      { file: 'a.md', action: 'push', rule: 'new file' },
+      { file: 'b.pb', action: 'conflict', rule: 'larger', winner: 'local' },
+      { file: 'c.md', action: 'push', rule: 'changed here' },
+      { file: 'd.pb', action: 'conflict', rule: 'newer', winner: 'remote' },
+      { file: 'e.md', action: 'overwrite', rule: 'changed remotely' }
+    ])).toBe('2 to push, 1 overwritten locally, 2 conflicts');
+  });
+});
@@ -0,0 +1,145 @@
+/**
+ * SyncScheduler Unit Tests
+ */
+import { SyncScheduler, SchedulerTiming } from '../../services/SyncScheduler';
+
+describe('SyncScheduler', () => {
+  let timing: SchedulerTiming;
+  let sync: jest.Mock;
+  let push: jest.Mock;
+  let scheduler: SyncScheduler;
+
+  // Let the task promise and the follow-up scheduling settle
+  const flush = async () => {
+    for (let i = 0; i < 5; i++) {
+      await Promise.resolve();
+    }
+  };
+
+  const advance = async (ms: number) => {
+    jest.advanceTimersByTime(ms);
+    await flush();
+  };
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    timing = { syncIntervalMs: 5 * 60 * 1000, pushDebounceMs: 30 * 1000 };
+    sync = jest.fn().mockResolvedValue(undefined);
+    push = jest.fn().mockResolvedValue(undefined);
+    scheduler = new SyncScheduler({ sync, push }, () => timing);
+  });
+
+  afterEach(() => {
+    scheduler.stop();
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  it('should sync on the configured interval', async () => {
+    scheduler.start();
+
+    await advance(5 * 60 * 1000 - 1);
+    expect(sync).not.toHaveBeenCalled();
+
+    await advance(1);
+    expect(sync).toHaveBeenCalledTimes(1);
+
+    await advance(5 * 60 * 1000);
+    expect(sync).toHaveBeenCalledTimes(2);
+  });
+
+  it('should debounce pushes after local changes', async () => {
+    scheduler.start();
+
+    scheduler.notifyLocalChange();
+    await advance(20 * 1000);
+    scheduler.notifyLocalChange();
+    await advance(20 * 1000);
+    expect(push).not.toHaveBeenCalled();
+
+    await advance(10 * 1000);
+    expect(push).toHaveBeenCalledTimes(1);
+    expect(sync).not.toHaveBeenCalled();
+  });
+
+  it('should push local changes without the periodic timer', async () => {
+    scheduler.notifyLocalChange();
+    await advance(30 * 1000);
+
+    expect(push).toHaveBeenCalledTimes(1);
+  });
+
+  it('should back off exponentially after failures and reset on success', async () => {
+    sync.mockRejectedValue(new Error('offline'));
+    scheduler.start();
+
+    await advance(5 * 60 * 1000);
+    expect(scheduler.getFailureCount()).toBe(1);
+
+    await advance(30 * 1000);
+    expect(sync).toHaveBeenCalledTimes(2);
+
+    await advance(59 * 1000);
+    expect(sync).toHaveBeenCalledTimes(2);
+    await advance(1000);
+    expect(sync).toHaveBeenCalledTimes(3);
+
+    sync.mockResolvedValue(undefined);
+    await advance(2 * 60 * 1000);
+    expect(sync).toHaveBeenCalledTimes(4);
+    expect(scheduler.getFailureCount()).toBe(0);
+
+    await advance(5 * 60 * 1000);
+    expect(sync).toHaveBeenCalledTimes(5);
+  });
+
+  it('should fold pending pushes into the backoff retry', async () => {
+    push.mockRejectedValueOnce(new Error('offline'));
+    scheduler.start();
+
+    scheduler.notifyLocalChange();
+    await advance(30 * 1000);
+    expect(scheduler.getFailureCount()).toBe(1);
+
+    // Changes during backoff do not push on their own
+    scheduler.notifyLocalChange();
+    await advance(29 * 1000);
+    expect(push).toHaveBeenCalledTimes(1);
+
+    await advance(1000);
+    expect(sync).toHaveBeenCalledTimes(1);
+    expect(push).toHaveBeenCalledTimes(1);
+  });
+
+  it('should apply a shorter interval live', async () => {
+    scheduler.start();
+    await advance(60 * 1000);
+
+    timing = { ...timing, syncIntervalMs: 2 * 60 * 1000 };
+    scheduler.reschedule();
+
+    await advance(2 * 60 * 1000);
+    expect(sync).toHaveBeenCalledTimes(1);
+
+    await advance(2 * 60 * 1000);
+    expect(sync).toHaveBeenCalledTimes(2);
+  });
+
+  it('should not run tasks concurrently', async () => {
+    let finish: () => void = () => undefined;
+    sync.mockImplementationOnce(() => new Promise<void>(resolve => { finish = resolve; }));
+    scheduler.start();
+
+    await advance(5 * 60 * 1000);
+    scheduler.notifyLocalChange();
+    await advance(30 * 1000);
+    expect(push).not.toHaveBeenCalled();
+
+    finish();
+    await flush();
+    await advance(5 * 1000);
+    expect(push).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,270 @@
+/**
+ * SyncService Unit Tests
+ *
+ * Two machines (two Gemini folders) syncing through a shared folder: the
+ * preview must list exactly what the real sync or pull then changes, and
+ * the debounced auto push must not revert the other machine's edits.
+ */
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { ConfigService, SyncConfig } from '../../services/ConfigService';
+import { StatusBarService } from '../../services/StatusBarService';
+import { PlannedChange, SyncPreview } from '../../services/SyncPlan';
+import { SyncService } from '../../services/SyncService';
+
+jest.mock('vscode', () => ({
+  workspace: {
+    getConfiguration: () => ({
+      get: (_key: string, defaultValue: unknown) => defaultValue
+    })
+  },
+  ThemeColor: class {}
+}), { virtual: true });
+
+/**
+ * Settings of one machine: folder backend, own home directory and secret storage
+ */
+class TestConfigService extends ConfigService {
+  encryption = false;
+
+  constructor(private home: string, private sharedPath: string) {
+    const secrets = new Map<string, string>();
+    super({
+      secrets: {
+        get: async (key: string) => secrets.get(key),
+        store: async (key: string, value: string) => void secrets.set(key, value)
+      }
+    } as unknown as vscode.ExtensionContext);
+  }
+
+  getConfig(): SyncConfig {
+    return {
+      ...super.getConfig(),
+      backend: 'folder',
+      folderPath: this.sharedPath,
+      geminiPath: path.join(this.home, 'gemini'),
+      encryption: this.encryption,
+      pushDebounceSeconds: 0
+    };
+  }
+
+  getSyncRepoPath(): string {
+    return path.join(this.home, 'sync-repo');
+  }
+
+  getGlobalStoragePath(): string {
+    return path.join(this.home, 'storage');
+  }
+}
+
+interface Machine {
+  gemini: string;
+  config: TestConfigService;
+  service: SyncService;
+}
+
+function write(root: string, file: string, content: string): void {
+  const filePath = path.join(root, file);
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, content);
+}
+
+/**
+ * Relative path -> sha256 of every file under a folder
+ */
+function snapshot(root: string): Map<string, string> {
+  const files = new Map<string, string>();
+  const walk = (dir: string) => {
+    for (const entry of fs.existsSync(dir) ? fs.readdirSync(dir, { withFileTypes: true }) : []) {
+      const fullPath = path.join(dir, entry.name);
+      if (entry.isDirectory()) {
+        walk(fullPath);
+      } else {
+        files.set(path.relative(root, fullPath).split(path.sep).join('/'),
+          crypto.createHash('sha256').update(fs.readFileSync(fullPath)).digest('hex'));
+      }
+    }
+  };
+  walk(root);
+  return files;
+}
+
+/**
+ * Path -> hash of every file published in the shared folder
+ */
+function sharedIndex(shared: string): Map<string, string> {
+  const indexPath = path.join(shared, '.antigravity-sync', 'index.json');
+  const index = fs.existsSync(indexPath) ? JSON.parse(fs.readFileSync(indexPath, 'utf8')) : { files: {} };
+  return new Map(Object.entries(index.files as Record<string, { hash: string }>).map(([file, entry]) => [file, entry.hash]));
+}
+
+function changedFiles(before: Map<string, string>, after: Map<string, string>): string[] {
+  return [...new Set([...before.keys(), ...after.keys()])]
+    .filter(file => before.get(file) !== after.get(file))
+    .sort();
+}
+
+/**
+ * Files the plan says will change in the Gemini folder and in the shared folder
+ */
+function plannedFiles(preview: SyncPreview): { local: string[]; remote: string[] } {
+  const files = (filter: (change: PlannedChange) => boolean) =>
+    [...new Set(preview.changes.filter(filter).map(c => c.file))].sort();
+  return {
+    local: files(c => ['create', 'overwrite', 'delete-local'].includes(c.action) ||
+      (c.action === 'conflict' && c.winner !== 'local')),
+    remote: files(c => c.action === 'push' || c.action === 'delete-remote')
+  };
+}
+
+describe('SyncService', () => {
+  let tmp: string;
+  let shared: string;
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    tmp = fs.mkdtempSync(path.join(os.tmpdir(), 'ag-sync-'));
+    shared = path.join(tmp, 'share');
+    fs.mkdirSync(shared);
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmp, { recursive: true, force: true });
+    jest.restoreAllMocks();
+  });
+
+  async function machine(name: string, files: Record<string, string>): Promise<Machine> {
+    const home = path.join(tmp, name);
+    const gemini = path.join(home, 'gemini');
+    for (const [file, content] of Object.entries(files)) {
+      write(gemini, file, content);
+    }
+    const statusBar = { update: () => undefined } as unknown as StatusBarService;
+    const config = new TestConfigService(home, shared);
+    const service = new SyncService({} as vscode.ExtensionContext, config, statusBar);
+    await service.initialize();
+    return { gemini, config, service };
+  }
+
+  describe('preview', () => {
+    it('should list exactly the changes a sync then makes', async () => {
+      const a = await machine('a', {
+        'knowledge/notes.md': 'one\ntwo\nthree\n',
+        'knowledge/old.md': 'old\n',
+        'brain/plan.md': 'plan\n'
+      });
+      await a.service.sync();
+      const b = await machine('b', {});
+      await b.service.sync();
+
+      // A: edit, delete and add; B: edit the other end of notes.md and add its own file
+      // (local edits reach the sync repo before the next sync, as the debounced push does)
+      write(a.gemini, 'knowledge/notes.md', 'one from a\ntwo\nthree\n');
+      fs.rmSync(path.join(a.gemini, 'knowledge', 'old.md'));
+      write(a.gemini, 'brain/new.md', 'new\n');
+      await a.service.push();
+      write(b.gemini, 'knowledge/notes.md', 'one\ntwo\nthree from b\n');
+      write(b.gemini, 'conversations/b.md', 'from b\n');
+      await b.service.copyFilesOnly();
+
+      const localBefore = snapshot(b.gemini);
+      const remoteBefore = sharedIndex(shared);
+      const preview = await b.service.preview('sync');
+      expect(snapshot(b.gemini)).toEqual(localBefore);
+      expect(sharedIndex(shared)).toEqual(remoteBefore);
+
+      await b.service.sync();
+
+      const planned = plannedFiles(preview);
+      expect(planned).toEqual({
+        local: ['brain/new.md', 'knowledge/notes.md', 'knowledge/old.md'],
+        remote: ['conversations/b.md', 'knowledge/notes.md']
+      });
+      expect(changedFiles(localBefore, snapshot(b.gemini))).toEqual(planned.local);
+      expect(changedFiles(remoteBefore, sharedIndex(shared))).toEqual(planned.remote);
+      expect(fs.readFileSync(path.join(b.gemini, 'knowledge', 'notes.md'), 'utf8')).toBe('one from a\ntwo\nthree from b\n');
+    });
+
+    it('should list exactly the changes a pull then makes', async () => {
+      const a = await machine('a', { 'knowledge/a.md': 'v1\n', 'knowledge/gone.md': 'gone\n' });
+      await a.service.sync();
+      const b = await machine('b', {});
+      await b.service.sync();
+
+      write(a.gemini, 'knowledge/a.md', 'v2, longer\n');
+      fs.rmSync(path.join(a.gemini, 'knowledge', 'gone.md'));
+      await a.service.push();
+      write(b.gemini, 'brain/local.md', 'not pushed by a pull\n');
+
+      const localBefore = snapshot(b.gemini);
+      const remoteBefore = sharedIndex(shared);
+      const preview = await b.service.preview('pull');
+      await b.service.pull();
+
+      const planned = plannedFiles(preview);
+      expect(planned).toEqual({ local: ['knowledge/a.md', 'knowledge/gone.md'], remote: [] });
+      expect(changedFiles(localBefore, snapshot(b.gemini))).toEqual(planned.local);
+      expect(changedFiles(remoteBefore, sharedIndex(shared))).toEqual([]);
+    });
+  });
+
+  describe('auto push', () => {
+    it('should keep remote edits this machine has not pulled yet', async () => {
+      const a = await machine('a', { 'knowledge/notes.md': 'v1\n', 'brain/plan.md': 'plan\n' });
+      await a.service.sync();
+      const b = await machine('b', {});
+      await b.service.sync();
+
+      write(b.gemini, 'knowledge/notes.md', 'v2 from b\n');
+      await b.service.push();
+
+      // Unrelated edit on A, pushed by the debounced auto push
+      write(a.gemini, 'brain/plan.md', 'plan from a\n');
+      const remoteBefore = sharedIndex(shared);
+      a.service.notifyLocalChange();
+      const lockFile = path.join(tmp, 'a', 'sync-repo', '.sync.lock');
+      for (let i = 0; i < 500 && (sharedIndex(shared).get('brain/plan.md') === remoteBefore.get('brain/plan.md') ||
+        fs.existsSync(lockFile)); i++) {
+        await new Promise(resolve => setTimeout(resolve, 10));
+      }
+
+      expect(changedFiles(remoteBefore, sharedIndex(shared))).toEqual(['brain/plan.md']);
+      expect(fs.readFileSync(path.join(a.gemini, 'knowledge', 'notes.md'), 'utf8')).toBe('v2 from b\n');
+      expect(fs.readFileSync(path.join(a.gemini, 'brain', 'plan.md'), 'utf8')).toBe('plan from a\n');
+      await b.service.pull();
+      expect(fs.readFileSync(path.join(b.gemini, 'knowledge', 'notes.md'), 'utf8')).toBe('v2 from b\n');
+      expect(fs.readFileSync(path.join(b.gemini, 'brain', 'plan.md'), 'utf8')).toBe('plan from a\n');
+    });
+  });
+
+  describe('encryption', () => {
+    it('should stop instead of deleting local files when another machine turns encryption on', async () => {
+      const a = await machine('a', { 'conversations/x.md': 'conversation\n', 'brain/plan.md': 'plan\n' });
+      await a.service.sync();
+      const b = await machine('b', {});
+      await b.service.sync();
+
+      // B re-pushes every file as <folder>/<hash>.enc and removes the plain copies
+      b.config.encryption = true;
+      await b.service.setEncryptionPassphrase('correct horse');
+      await b.service.push();
+      expect([...sharedIndex(shared).keys()].filter(file => file.endsWith('.md'))).toEqual([]);
+
+      const before = snapshot(a.gemini);
+      const noPassphrase = 'The sync repository is encrypted but no passphrase is set';
+      await expect(a.service.pull()).rejects.toThrow(noPassphrase);
+      await expect(a.service.sync()).rejects.toThrow(noPassphrase);
+      await expect(a.service.preview('sync')).rejects.toThrow(noPassphrase);
+      expect(snapshot(a.gemini)).toEqual(before);
+
+      // Same passphrase: the encrypted files are read as the same files
+      a.config.encryption = true;
+      await a.service.setEncryptionPassphrase('correct horse');
+      await a.service.sync();
+      expect(snapshot(a.gemini)).toEqual(before);
+    });
+  });
+});
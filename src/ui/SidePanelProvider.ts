@@ -2,11 +2,21 @@
  * SidePanelProvider - WebviewViewProvider for the side panel
  */
 import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
 import { SyncService } from '../services/SyncService';
-import { ConfigService } from '../services/ConfigService';
+import { ConfigService, DEFAULT_SYNC_FOLDERS, GitAuth } from '../services/ConfigService';
 import { NotificationService } from '../services/NotificationService';
-import { GitService } from '../services/GitService';
+import { GitService, isSshUrl, sshToHttpsUrl } from '../services/GitService';
 import { AutoRetryService } from '../services/AutoRetryService';
+import { AuditLog } from '../services/AuditLog';
+import { ERROR_CLASSES, ERROR_CLASS_LABELS } from '../services/ErrorClassifier';
+import { Notifier } from '../services/Notifier';
+import { describeRestoreTarget, getConversationIds, listRestoreFolders, RestoreTarget, SyncSnapshot } from '../services/Snapshot';
+
+// Recent Auto Retry events listed in the dashboard (the export has all of them)
+const AUDIT_EVENTS_SHOWN = 50;
 
 export class SidePanelProvider implements vscode.WebviewViewProvider {
   public static readonly viewType = 'antigravitySync.mainPanel';
@@ -20,12 +30,17 @@ export class SidePanelProvider implements vscode.WebviewViewProvider {
   constructor(
     extensionUri: vscode.Uri,
     syncService: SyncService,
-    configService: ConfigService
+    configService: ConfigService,
+    notifier?: Notifier
   ) {
     this._extensionUri = extensionUri;
     this._syncService = syncService;
     this._configService = configService;
-    this._autoRetryService = new AutoRetryService();
+    this._autoRetryService = new AutoRetryService(new AuditLog(configService.getGlobalStoragePath()), notifier);
+    this._autoRetryService.setStatusCallback(() => {
+      this.sendAutoRetryStatus();
+      this.sendAuditLog();
+    });
   }
 
   public resolveWebviewView(
@@ -52,7 +67,7 @@ export class SidePanelProvider implements vscode.WebviewViewProvider {
           await this.sendConfigState();
           break;
         case 'saveConfig':
-          await this.handleSaveConfig(message.repoUrl, message.pat);
+          await this.handleSaveConfig(message.repoUrl, message.pat, message.sshKeyPath);
           break;
         case 'syncNow':
           await this.handleSync();
@@ -63,6 +78,9 @@ export class SidePanelProvider implements vscode.WebviewViewProvider {
         case 'pull':
           await this.handlePull();
           break;
+        case 'preview':
+          await vscode.commands.executeCommand('antigravitySync.preview');
+          break;
         case 'disconnect':
           await this.handleDisconnect();
           break;
@@ -79,6 +97,18 @@ export class SidePanelProvider implements vscode.WebviewViewProvider {
           // Just refresh status (git fetch + check) - no file copy needed
           await this.sendGitStatus();
           break;
+        case 'conflictAction':
+          await this.handleConflictAction(message.id, message.action);
+          break;
+        case 'secretAction':
+          await this.handleSecretAction(message.file, message.action);
+          break;
+        case 'getHistory':
+          await this.sendHistory();
+          break;
+        case 'historyAction':
+          await this.handleHistoryAction(message.id, message.action);
+          break;
         case 'startAutoRetry':
           await this.handleStartAutoRetry();
           break;
@@ -91,6 +121,10 @@ export class SidePanelProvider implements vscode.WebviewViewProvider {
         case 'getAutoRetryStatus':
           this.sendAutoRetryStatus();
           this.sendAutoStartSetting();
+          this.sendAuditLog();
+          break;
+        case 'exportAuditLog':
+          await this.handleExportAuditLog();
           break;
       }
     });
@@ -104,15 +138,13 @@ export class SidePanelProvider implements vscode.WebviewViewProvider {
 
     const isConfigured = await this._configService.isConfigured();
     const config = this._configService.getConfig();
-    const vsConfig = vscode.workspace.getConfiguration('antigravitySync');
-    const syncFolders = vsConfig.get<string[]>('syncFolders', ['knowledge']);
 
     this._view.webview.postMessage({
       type: 'configured',
       data: {
         configured: isConfigured,
-        repoUrl: config.repositoryUrl,
-        syncFolders: syncFolders
+        repoUrl: this._configService.getBackendLocation(config),
+        syncFolders: config.syncFolders
       }
     });
 
@@ -138,10 +170,12 @@ export class SidePanelProvider implements vscode.WebviewViewProvider {
   /**
    * Handle save config from webview inline form
    */
-  private async handleSaveConfig(repoUrl: string, pat: string): Promise<void> {
+  private async handleSaveConfig(repoUrl: string, pat: string, sshKeyPath = ''): Promise<void> {
     if (!this._view) return;
 
-    if (!repoUrl || !pat) {
+    // SSH remotes authenticate with a key (empty = ssh-agent) instead of a token
+    const ssh = isSshUrl(repoUrl);
+    if (!repoUrl || (!ssh && !pat)) {
       this._view.webview.postMessage({
         type: 'configError',
         data: { message: 'Please fill in both fields' }
@@ -159,7 +193,7 @@ export class SidePanelProvider implements vscode.WebviewViewProvider {
         throw new Error(validationResult.error);
       }
 
-      if (pat.length < 5) {
+      if (!ssh && pat.length < 5) {
         throw new Error('Access token appears too short');
       }
 
@@ -170,16 +204,23 @@ export class SidePanelProvider implements vscode.WebviewViewProvider {
         throw new Error('Repository is PUBLIC! Your data may contain sensitive info. Please use a PRIVATE repository.');
       }
 
-      // Verify token has access to the repository FIRST (before saving)
-      this.sendLog('Verifying access token...', 'info');
+      // Verify token or SSH key has access to the repository FIRST (before saving)
+      this.sendLog(ssh ? 'Verifying SSH key...' : 'Verifying access token...', 'info');
+      const auth: GitAuth = ssh
+        ? { mode: 'ssh', keyPath: this._configService.expandHome(sshKeyPath.trim()) }
+        : { mode: 'token', token: pat };
       const tempGitService = new GitService(this._configService.getSyncRepoPath());
-      await tempGitService.verifyAccess(repoUrl, pat);
+      await tempGitService.verifyAccess(repoUrl, auth);
 
       // Save URL first (credentials storage depends on URL)
-      this.sendLog('Saving credentials to Git credential manager...', 'info');
+      await this._configService.setBackend('git');
       await this._configService.setRepositoryUrl(repoUrl);
-      // Now save credentials (uses Git credential manager - persists across workspaces)
-      await this._configService.saveCredentials(pat);
+      await this._configService.setAuth(auth.mode, auth.mode === 'ssh' ? auth.keyPath : '');
+      if (auth.mode === 'token') {
+        // Now save credentials (uses Git credential manager - persists across workspaces)
+        this.sendLog('Saving credentials to Git credential manager...', 'info');
+        await this._configService.saveCredentials(auth.token);
+      }
 
       // Initialize sync
       this.sendLog('Initializing Git repository...', 'info');
@@ -220,8 +261,8 @@ export class SidePanelProvider implements vscode.WebviewViewProvider {
    */
   private validateGitRepoUrl(url: string): { valid: boolean; error?: string } {
     // Must start with valid protocol
-    if (!url.startsWith('http://') && !url.startsWith('https://') && !url.startsWith('git@')) {
-      return { valid: false, error: 'Invalid URL. Use https://... or git@...' };
+    if (!url.startsWith('http://') && !url.startsWith('https://') && !isSshUrl(url)) {
+      return { valid: false, error: 'Invalid URL. Use https://..., git@... or ssh://...' };
     }
 
     // Known Git providers
@@ -263,7 +304,8 @@ export class SidePanelProvider implements vscode.WebviewViewProvider {
     try {
       // Try git ls-remote without authentication
       // Disable credential helpers to ensure we test without stored creds
-      await execAsync(`git ls-remote ${url}`, {
+      // SSH always needs a key, so SSH remotes are checked at their HTTPS address
+      await execAsync(`git ls-remote ${isSshUrl(url) ? sshToHttpsUrl(url) : url}`, {
         timeout: 10000,
         env: {
           ...process.env,
@@ -341,10 +383,15 @@ export class SidePanelProvider implements vscode.WebviewViewProvider {
    * Handle disconnect
    */
   private async handleDisconnect(): Promise<void> {
-    // Delete credentials and clear URL
+    // Delete credentials and encryption key (both keyed by location), then clear the location
     await this._configService.deleteCredentials();
-    await vscode.workspace.getConfiguration('antigravitySync')
-      .update('repositoryUrl', '', vscode.ConfigurationTarget.Global);
+    await this._configService.deleteS3Credentials();
+    await this._configService.deleteEncryptionKey();
+    const settings = vscode.workspace.getConfiguration('antigravitySync');
+    for (const key of ['repositoryUrl', 'folderPath', 's3Bucket']) {
+      await settings.update(key, '', vscode.ConfigurationTarget.Global);
+    }
+    await settings.update('backend', 'git', vscode.ConfigurationTarget.Global);
 
     // Delete .git folder to allow connecting to different repo
     const syncRepoPath = this._configService.getSyncRepoPath();
@@ -385,7 +432,7 @@ export class SidePanelProvider implements vscode.WebviewViewProvider {
    */
   private async handleFolderToggle(folder: string, enabled: boolean): Promise<void> {
     const config = vscode.workspace.getConfiguration('antigravitySync');
-    const syncFolders = config.get<string[]>('syncFolders', ['knowledge', 'antigravity']);
+    const syncFolders = config.get<string[]>('syncFolders', DEFAULT_SYNC_FOLDERS);
 
     let newFolders: string[];
     if (enabled) {
@@ -395,6 +442,29 @@ export class SidePanelProvider implements vscode.WebviewViewProvider {
     }
 
     await config.update('syncFolders', newFolders, vscode.ConfigurationTarget.Global);
+
+    if (!enabled && await this._configService.isConfigured()) {
+      const choice = await vscode.window.showWarningMessage(
+        `Stopped syncing ${folder}/. Also remove it from the remote repository?`,
+        {
+          modal: true,
+          detail: 'Your local files are kept. Other machines that still sync this folder will delete their copies on the next pull.'
+        },
+        'Remove from Remote'
+      );
+
+      if (choice === 'Remove from Remote') {
+        try {
+          this.sendLog(`Removing ${folder}/ from remote...`, 'info');
+          await this._syncService.removeFolderFromRemote(folder);
+          this.sendLog(`Removed ${folder}/ from remote`, 'success');
+          await this.sendGitStatus();
+        } catch (error) {
+          const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+          this.sendLog(`Remove failed: ${errorMsg}`, 'error');
+        }
+      }
+    }
   }
 
   /**
@@ -444,6 +514,317 @@ export class SidePanelProvider implements vscode.WebviewViewProvider {
     } catch {
       // Ignore errors
     }
+
+    this.sendConflicts();
+    this.sendSecretFindings();
+  }
+
+  /**
+   * Send secret scan findings to webview
+   */
+  private sendSecretFindings(): void {
+    if (!this._view) return;
+
+    const config = this._configService.getConfig();
+    this._view.webview.postMessage({
+      type: 'secretFindings',
+      data: {
+        action: config.secretScanning,
+        findings: this._syncService.getSecretFindings().map(f => ({
+          file: f.file,
+          rule: f.rule,
+          line: f.line,
+          preview: f.preview
+        }))
+      }
+    });
+  }
+
+  /**
+   * Handle an action on a file with secret findings
+   */
+  private async handleSecretAction(file: string, action: string): Promise<void> {
+    if (action === 'open') {
+      const filePath = path.join(this._configService.getConfig().geminiPath, file);
+      await vscode.window.showTextDocument(vscode.Uri.file(filePath), { preview: true });
+      return;
+    }
+
+    if (action === 'allow') {
+      const choice = await vscode.window.showWarningMessage(
+        `Sync ${file} anyway? The detected values will not be flagged again.`,
+        { modal: true },
+        'Allow'
+      );
+      if (choice === 'Allow') {
+        this._syncService.allowSecretFindings(file);
+        this.sendLog(`${file}: secret findings allowed`, 'info');
+      }
+    }
+    this.sendSecretFindings();
+  }
+
+  /**
+   * Send the conflict review queue to webview
+   */
+  private sendConflicts(): void {
+    if (!this._view) return;
+
+    const records = this._syncService.getConflictRecords();
+    this._view.webview.postMessage({
+      type: 'conflicts',
+      data: {
+        conflicts: records.map(r => ({
+          id: r.id,
+          file: r.file,
+          resolvedAt: r.resolvedAt,
+          rule: r.rule,
+          chosen: r.chosen,
+          flipped: !!r.flipped,
+          localSize: r.local.size,
+          remoteSize: r.remote.size,
+          localMtime: r.local.mtime,
+          remoteMtime: r.remote.mtime,
+          hasConflictFile: !!r.conflictPath
+        }))
+      }
+    });
+  }
+
+  /**
+   * Handle an action on a conflict record from the review queue
+   */
+  private async handleConflictAction(id: string, action: string): Promise<void> {
+    const record = this._syncService.getConflictRecords().find(r => r.id === id);
+    if (!record) {
+      this.sendConflicts();
+      return;
+    }
+
+    try {
+      switch (action) {
+        case 'diff':
+          await this.openConflictDiff(id, record.file);
+          break;
+        case 'open':
+          if (record.conflictPath) {
+            await vscode.window.showTextDocument(vscode.Uri.file(record.conflictPath), { preview: true });
+          }
+          break;
+        case 'flip': {
+          const updated = await this._syncService.flipConflict(id);
+          this.sendLog(`${record.file}: now using ${updated.chosen.toUpperCase()} version (push to share)`, 'success');
+          break;
+        }
+        case 'restore': {
+          const restoredPath = await this._syncService.restoreConflictVersion(id);
+          this.sendLog(`${record.file}: losing version restored to ${restoredPath}`, 'success');
+          break;
+        }
+        case 'dismiss':
+          this._syncService.dismissConflict(id);
+          break;
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      this.sendLog(`Conflict action failed: ${message}`, 'error');
+      vscode.window.showErrorMessage(`Antigravity Sync: ${message}`);
+    }
+
+    this.sendConflicts();
+  }
+
+  /**
+   * Open a diff of the local and remote versions of a recorded conflict
+   */
+  private async openConflictDiff(id: string, file: string): Promise<void> {
+    const diffDir = path.join(os.tmpdir(), 'antigravity-sync-diff', id);
+    fs.mkdirSync(diffDir, { recursive: true });
+
+    const name = path.basename(file);
+    const localPath = path.join(diffDir, `local-${name}`);
+    const remotePath = path.join(diffDir, `remote-${name}`);
+    fs.writeFileSync(localPath, (await this._syncService.getConflictVersion(id, 'local')) || Buffer.alloc(0));
+    fs.writeFileSync(remotePath, (await this._syncService.getConflictVersion(id, 'remote')) || Buffer.alloc(0));
+
+    await vscode.commands.executeCommand(
+      'vscode.diff',
+      vscode.Uri.file(localPath),
+      vscode.Uri.file(remotePath),
+      `${name} (Local ↔ Remote)`
+    );
+  }
+
+  /**
+   * Send the sync history (snapshots) to webview
+   */
+  private async sendHistory(): Promise<void> {
+    if (!this._view) return;
+
+    let snapshots: SyncSnapshot[] = [];
+    try {
+      snapshots = await this._syncService.getSnapshots();
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      this.sendLog(`Cannot load history: ${message}`, 'error');
+    }
+
+    this._view.webview.postMessage({
+      type: 'history',
+      data: {
+        snapshots: snapshots.map(s => ({
+          id: s.id,
+          date: s.date,
+          message: s.message,
+          machine: s.machine,
+          files: s.files.length,
+          conversations: s.conversations.length,
+          restorable: s.restorable
+        }))
+      }
+    });
+  }
+
+  /**
+   * Handle an action on a snapshot from the History view
+   */
+  private async handleHistoryAction(id: string, action: string): Promise<void> {
+    try {
+      const snapshot = (await this._syncService.getSnapshots()).find(s => s.id === id);
+      if (!snapshot || !snapshot.restorable) {
+        await this.sendHistory();
+        return;
+      }
+
+      if (action === 'browse') {
+        await this.browseSnapshot(snapshot);
+      } else if (action === 'restore') {
+        const target = await this.pickRestoreTarget(snapshot);
+        if (target) {
+          await this.restoreSnapshot(snapshot, target);
+        }
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      this.sendLog(`History action failed: ${message}`, 'error');
+      vscode.window.showErrorMessage(`Antigravity Sync: ${message}`);
+    }
+  }
+
+  /**
+   * Pick a file of a snapshot, then preview it, compare it with the current file or restore it
+   */
+  private async browseSnapshot(snapshot: SyncSnapshot): Promise<void> {
+    const short = snapshot.id.substring(0, 7);
+    const changed = new Set(snapshot.files);
+    const files = await this._syncService.getSnapshotFiles(snapshot.id);
+    const items = [
+      ...snapshot.files.filter(f => files.includes(f)).map(f => ({ label: f, description: 'changed in this sync' })),
+      ...files.filter(f => !changed.has(f)).map(f => ({ label: f, description: '' }))
+    ];
+
+    const file = await vscode.window.showQuickPick(items, {
+      placeHolder: `Files as of ${short} (${snapshot.message})`,
+      matchOnDescription: true
+    });
+    if (!file) return;
+
+    const action = await vscode.window.showQuickPick(
+      [
+        { label: '$(eye) Preview', action: 'preview' },
+        { label: '$(diff) Compare with current', action: 'diff' },
+        { label: '$(history) Restore this file', action: 'restore' }
+      ],
+      { placeHolder: file.label }
+    );
+    if (!action) return;
+
+    if (action.action === 'restore') {
+      await this.restoreSnapshot(snapshot, { scope: 'file', path: file.label });
+      return;
+    }
+
+    const previewDir = path.join(os.tmpdir(), 'antigravity-sync-history', short);
+    const previewPath = path.join(previewDir, file.label);
+    fs.mkdirSync(path.dirname(previewPath), { recursive: true });
+    fs.writeFileSync(previewPath, (await this._syncService.readSnapshotFile(snapshot.id, file.label)) || Buffer.alloc(0));
+
+    if (action.action === 'preview') {
+      await vscode.commands.executeCommand('vscode.open', vscode.Uri.file(previewPath), { preview: true });
+      return;
+    }
+
+    const currentPath = path.join(this._configService.getConfig().geminiPath, file.label);
+    const name = path.basename(file.label);
+    await vscode.commands.executeCommand(
+      'vscode.diff',
+      vscode.Uri.file(previewPath),
+      vscode.Uri.file(currentPath),
+      `${name} (${short} ↔ Current)`
+    );
+  }
+
+  /**
+   * Ask what to restore: everything, a folder or a conversation
+   */
+  private async pickRestoreTarget(snapshot: SyncSnapshot): Promise<RestoreTarget | undefined> {
+    const scope = await vscode.window.showQuickPick(
+      [
+        { label: '$(folder) Folder...', scope: 'folder' },
+        { label: '$(comment-discussion) Conversation...', scope: 'conversation' },
+        { label: '$(history) Everything', description: 'All synced files', scope: 'all' }
+      ],
+      { placeHolder: `Restore to ${snapshot.id.substring(0, 7)} (${snapshot.message})` }
+    );
+    if (!scope) return undefined;
+    if (scope.scope === 'all') {
+      return { scope: 'all' };
+    }
+
+    const files = await this._syncService.getSnapshotFiles(snapshot.id);
+    if (scope.scope === 'folder') {
+      const folder = await vscode.window.showQuickPick(listRestoreFolders(files), { placeHolder: 'Folder to restore' });
+      return folder ? { scope: 'folder', path: folder } : undefined;
+    }
+
+    // Conversations changed by this sync first
+    const conversations = [...new Set([...snapshot.conversations, ...getConversationIds(files)])];
+    const conversation = await vscode.window.showQuickPick(
+      conversations.map(c => ({ label: c, description: snapshot.conversations.includes(c) ? 'changed in this sync' : '' })),
+      { placeHolder: 'Conversation to restore' }
+    );
+    return conversation ? { scope: 'conversation', id: conversation.label } : undefined;
+  }
+
+  /**
+   * Confirm and run a restore, the current state is kept as a safety snapshot
+   */
+  private async restoreSnapshot(snapshot: SyncSnapshot, target: RestoreTarget): Promise<void> {
+    const short = snapshot.id.substring(0, 7);
+    const description = describeRestoreTarget(target);
+    const confirm = await vscode.window.showWarningMessage(
+      `Restore ${description} to ${short}?`,
+      {
+        modal: true,
+        detail: 'The current state is saved as a snapshot first, so you can go back to it from the History view.'
+      },
+      'Restore'
+    );
+    if (confirm !== 'Restore') return;
+
+    this.sendLog(`Restoring ${description} to ${short}...`, 'info');
+    const result = await this._syncService.restoreSnapshot(snapshot.id, target);
+    const removed = result.removed > 0 ? `, ${result.removed} removed` : '';
+    this.sendLog(`Restored ${result.restored} file(s)${removed} from ${short}`, 'success');
+    await this.sendHistory();
+
+    const reload = await vscode.window.showInformationMessage(
+      `Antigravity Sync: Restored ${description} to ${short}. Reload the window so Antigravity picks up the restored files.`,
+      'Reload Window'
+    );
+    if (reload === 'Reload Window') {
+      await vscode.commands.executeCommand('workbench.action.reloadWindow');
+    }
   }
 
   /**
@@ -558,11 +939,46 @@ export class SidePanelProvider implements vscode.WebviewViewProvider {
       data: {
         running: status.running,
         retryCount: status.retryCount,
-        connectionCount: status.connectionCount
+        connectionCount: status.connectionCount,
+        exhausted: status.exhausted,
+        windows: status.windows.map(w => ({ title: w.title || w.windowId, retryCount: w.stats.clicks })),
+        errors: ERROR_CLASSES
+          .filter(c => status.errors[c])
+          .map(c => ({ label: ERROR_CLASS_LABELS[c], count: status.errors[c] }))
       }
     });
   }
 
+  /**
+   * Send recent Auto Retry clicks and blocks to webview
+   */
+  private sendAuditLog(): void {
+    if (!this._view) return;
+    this._view.webview.postMessage({
+      type: 'auditLog',
+      data: { events: this._autoRetryService.getAuditEvents(AUDIT_EVENTS_SHOWN) }
+    });
+  }
+
+  /**
+   * Export the Auto Retry audit log to a user-chosen JSONL file
+   */
+  private async handleExportAuditLog(): Promise<void> {
+    const uri = await vscode.window.showSaveDialog({
+      defaultUri: vscode.Uri.file(path.join(os.homedir(), `auto-retry-audit-${new Date().toISOString().slice(0, 10)}.jsonl`)),
+      filters: { 'JSON Lines': ['jsonl'] },
+      title: 'Export Auto Retry Audit Log'
+    });
+    if (!uri) return;
+
+    try {
+      const count = this._autoRetryService.exportAuditLog(uri.fsPath);
+      this.sendAutoRetryLog(`Exported ${count} audit event(s) to ${uri.fsPath}`, 'success');
+    } catch (error) {
+      NotificationService.error(`Failed to export audit log: ${(error as Error).message}`);
+    }
+  }
+
   /**
    * Send auto-retry log message to webview
    */
@@ -17,7 +17,7 @@ provideVSCodeDesignSystem().register(
   vsCodeTextField()
 );
 
-import { MainPanel, showConfigured, updateStatus, showError, showConfigError, appendLog, clearLog, updateGitStatus, setRefreshLoading, updateCountdown, updateAutoRetryStatus, appendAutoRetryLog, updateCDPStatus, updateAutoStartCheckbox } from './panels/MainPanel';
+import { MainPanel, showConfigured, updateStatus, showError, showConfigError, appendLog, clearLog, updateGitStatus, updateConflicts, ConflictItem, updateSecretFindings, SecretFindingItem, updateHistory, HistoryItem, setRefreshLoading, updateCountdown, updateAutoRetryStatus, AutoRetryWindowItem, AutoRetryErrorItem, appendAutoRetryLog, updateAuditLog, AuditEventItem, updateCDPStatus, updateAutoStartCheckbox } from './panels/MainPanel';
 
 // Declare vscode API type
 interface VsCodeApi {
@@ -76,6 +76,21 @@ interface GitStatusMessage {
   data: { ahead: number; behind: number; files: string[]; totalFiles: number; syncRepoPath: string };
 }
 
+interface ConflictsMessage {
+  type: 'conflicts';
+  data: { conflicts: ConflictItem[] };
+}
+
+interface SecretFindingsMessage {
+  type: 'secretFindings';
+  data: { action: string; findings: SecretFindingItem[] };
+}
+
+interface HistoryMessage {
+  type: 'history';
+  data: { snapshots: HistoryItem[] };
+}
+
 interface CountdownMessage {
   type: 'countdown';
   data: { seconds: number };
@@ -83,7 +98,19 @@ interface CountdownMessage {
 
 interface AutoRetryStatusMessage {
   type: 'autoRetryStatus';
-  data: { running: boolean; retryCount: number; connectionCount?: number };
+  data: {
+    running: boolean;
+    retryCount: number;
+    connectionCount?: number;
+    exhausted?: string[];
+    windows?: AutoRetryWindowItem[];
+    errors?: AutoRetryErrorItem[];
+  };
+}
+
+interface AuditLogMessage {
+  type: 'auditLog';
+  data: { events: AuditEventItem[] };
 }
 
 interface AutoRetryLogMessage {
@@ -101,7 +128,7 @@ interface AutoStartSettingMessage {
   data: { enabled: boolean };
 }
 
-type ExtensionMessage = ConfiguredMessage | StatusMessage | ErrorMessage | ConfigErrorMessage | LogMessage | ClearLogMessage | GitStatusMessage | CountdownMessage | AutoRetryStatusMessage | AutoRetryLogMessage | CDPStatusMessage | AutoStartSettingMessage;
+type ExtensionMessage = ConfiguredMessage | StatusMessage | ErrorMessage | ConfigErrorMessage | LogMessage | ClearLogMessage | GitStatusMessage | ConflictsMessage | SecretFindingsMessage | HistoryMessage | CountdownMessage | AutoRetryStatusMessage | AutoRetryLogMessage | AuditLogMessage | CDPStatusMessage | AutoStartSettingMessage;
 
 window.addEventListener('message', (event: MessageEvent<ExtensionMessage>) => {
   const message = event.data;
@@ -128,15 +155,27 @@ window.addEventListener('message', (event: MessageEvent<ExtensionMessage>) => {
     case 'gitStatus':
       updateGitStatus(message.data);
       break;
+    case 'conflicts':
+      updateConflicts(message.data.conflicts);
+      break;
+    case 'secretFindings':
+      updateSecretFindings(message.data.action, message.data.findings);
+      break;
+    case 'history':
+      updateHistory(message.data.snapshots);
+      break;
     case 'countdown':
       updateCountdown(message.data.seconds);
       break;
     case 'autoRetryStatus':
-      updateAutoRetryStatus(message.data.running, message.data.retryCount, message.data.connectionCount);
+      updateAutoRetryStatus(message.data.running, message.data.retryCount, message.data.connectionCount, message.data.exhausted, message.data.windows, message.data.errors);
       break;
     case 'autoRetryLog':
       appendAutoRetryLog(message.data.message, message.data.logType);
       break;
+    case 'auditLog':
+      updateAuditLog(message.data.events);
+      break;
     case 'cdpStatus':
       updateCDPStatus(message.data.available, message.data.hasFlag, message.data.port);
       break;
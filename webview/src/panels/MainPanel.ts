@@ -23,14 +23,20 @@ export class MainPanel {
           
           <div class="form-group">
             <label for="repo-url-input">Repository URL</label>
-            <vscode-text-field id="repo-url-input" placeholder="https://host/user/repo" class="full-width"></vscode-text-field>
+            <vscode-text-field id="repo-url-input" placeholder="https://host/user/repo or git@host:user/repo.git" class="full-width"></vscode-text-field>
           </div>
           
-          <div class="form-group">
+          <div class="form-group" id="pat-group">
             <label for="pat-input">Access Token</label>
             <vscode-text-field id="pat-input" type="password" placeholder="Token with repo access" class="full-width"></vscode-text-field>
             <span class="hint">Token needs repository read/write access</span>
           </div>
+
+          <div class="form-group" id="ssh-key-group" style="display: none;">
+            <label for="ssh-key-input">SSH Private Key</label>
+            <vscode-text-field id="ssh-key-input" placeholder="~/.ssh/id_ed25519" class="full-width"></vscode-text-field>
+            <span class="hint">Leave empty to use ssh-agent. The key needs write access (e.g. a deploy key)</span>
+          </div>
           
           <vscode-button id="btn-save-config" class="full-width" style="display: flex; justify-content: center; text-align: center;">
             <span id="btn-connect-text" style="width: 100%; text-align: center;">Connect Repository</span>
@@ -65,9 +71,23 @@ export class MainPanel {
             </vscode-button>
           </div>
           
+          <div id="auto-retry-count" class="auto-retry-count" style="display: none;"></div>
+
           <div id="auto-retry-log" class="log-output" style="margin-top: 8px; max-height: 120px;">
             <div class="log-empty">Click Start to enable auto-retry</div>
           </div>
+
+          <!-- Audit log of clicks and blocks -->
+          <div class="audit-section" id="audit-section" style="display: none;">
+            <div class="section-header">
+              <span class="codicon codicon-history"></span>
+              <span class="section-title">Activity</span>
+              <vscode-button appearance="icon" id="btn-export-audit" title="Export audit log (JSONL)">
+                <span class="codicon codicon-export"></span>
+              </vscode-button>
+            </div>
+            <div class="conflict-list" id="audit-list"></div>
+          </div>
         </section>
 
         <!-- Main Dashboard (shown when configured) -->
@@ -99,6 +119,10 @@ export class MainPanel {
               <span class="codicon codicon-cloud-download"></span>
               Pull
             </vscode-button>
+            <vscode-button appearance="secondary" id="btn-preview" title="Preview what a sync, push or pull would change">
+              <span class="codicon codicon-eye"></span>
+              Preview
+            </vscode-button>
           </div>
 
           <!-- Sync Toggle -->
@@ -174,6 +198,46 @@ export class MainPanel {
             </div>
           </div>
 
+          <!-- Secret scan findings (files held back, redacted or blocking the push) -->
+          <div class="secrets-section" id="secrets-section" style="display: none;">
+            <vscode-divider></vscode-divider>
+            <div class="section-header">
+              <span class="codicon codicon-shield"></span>
+              <span class="section-title">Secrets</span>
+              <span class="conflict-count" id="secret-count">0</span>
+            </div>
+            <p class="description conflict-hint" id="secret-hint"></p>
+            <div class="conflict-list" id="secret-list"></div>
+          </div>
+
+          <!-- Conflict review queue (Smart Merge decisions not reviewed yet) -->
+          <div class="conflicts-section" id="conflicts-section" style="display: none;">
+            <vscode-divider></vscode-divider>
+            <div class="section-header">
+              <span class="codicon codicon-git-merge"></span>
+              <span class="section-title">Conflicts</span>
+              <span class="conflict-count" id="conflict-count">0</span>
+            </div>
+            <p class="description conflict-hint">Smart Merge decisions waiting for review. Flip a decision or restore the losing version.</p>
+            <div class="conflict-list" id="conflict-list"></div>
+          </div>
+
+          <!-- Sync history (browse and restore snapshots) -->
+          <div class="history-section" id="history-section">
+            <vscode-divider></vscode-divider>
+            <div class="section-header">
+              <span class="codicon codicon-history"></span>
+              <span class="section-title">History</span>
+              <vscode-button appearance="icon" id="btn-load-history" title="Refresh history">
+                <span class="codicon codicon-refresh"></span>
+              </vscode-button>
+            </div>
+            <p class="description conflict-hint">Browse files at any sync or restore a conversation, a folder or everything. The current state is saved first.</p>
+            <div class="conflict-list" id="history-list">
+              <div class="log-empty">Loading...</div>
+            </div>
+          </div>
+
           <vscode-divider></vscode-divider>
 
           <!-- Log Output -->
@@ -212,18 +276,30 @@ export class MainPanel {
   }
 
   private attachEventListeners(): void {
+    // SSH remotes use a key instead of a token
+    document.getElementById('repo-url-input')?.addEventListener('input', (e) => {
+      const ssh = isSshUrl((e.target as HTMLInputElement).value || '');
+      const patGroup = document.getElementById('pat-group');
+      const sshGroup = document.getElementById('ssh-key-group');
+      if (patGroup) patGroup.style.display = ssh ? 'none' : '';
+      if (sshGroup) sshGroup.style.display = ssh ? '' : 'none';
+    });
+
     // Save config button
     document.getElementById('btn-save-config')?.addEventListener('click', () => {
       const repoInput = document.getElementById('repo-url-input') as HTMLInputElement;
       const patInput = document.getElementById('pat-input') as HTMLInputElement;
+      const sshKeyInput = document.getElementById('ssh-key-input') as HTMLInputElement;
+      const repoUrl = (repoInput?.value || '').trim();
 
       // Show loading state
       setConnectLoading(true);
 
       vscode.postMessage({
         type: 'saveConfig',
-        repoUrl: repoInput?.value || '',
-        pat: patInput?.value || ''
+        repoUrl,
+        pat: isSshUrl(repoUrl) ? '' : patInput?.value || '',
+        sshKeyPath: isSshUrl(repoUrl) ? sshKeyInput?.value || '' : ''
       });
     });
 
@@ -242,6 +318,11 @@ export class MainPanel {
       vscode.postMessage({ type: 'pull' });
     });
 
+    // Preview button (dry run)
+    document.getElementById('btn-preview')?.addEventListener('click', () => {
+      vscode.postMessage({ type: 'preview' });
+    });
+
     // Disconnect button
     document.getElementById('btn-disconnect')?.addEventListener('click', () => {
       vscode.postMessage({ type: 'disconnect' });
@@ -302,6 +383,39 @@ export class MainPanel {
       vscode.postMessage({ type: 'setAutoStart', data: { enabled: checkbox.checked } });
     });
 
+    // Conflict list actions (delegated - list is re-rendered on every update)
+    document.getElementById('conflict-list')?.addEventListener('click', (e) => {
+      const target = (e.target as HTMLElement).closest('[data-action]') as HTMLElement | null;
+      const id = target?.closest('.conflict-item')?.getAttribute('data-id');
+      if (!target || !id) return;
+      vscode.postMessage({ type: 'conflictAction', id, action: target.getAttribute('data-action') });
+    });
+
+    // Secret findings actions (delegated)
+    document.getElementById('secret-list')?.addEventListener('click', (e) => {
+      const target = (e.target as HTMLElement).closest('[data-action]') as HTMLElement | null;
+      const file = target?.closest('.conflict-item')?.getAttribute('data-file');
+      if (!target || !file) return;
+      vscode.postMessage({ type: 'secretAction', file, action: target.getAttribute('data-action') });
+    });
+
+    // History actions (delegated)
+    document.getElementById('history-list')?.addEventListener('click', (e) => {
+      const target = (e.target as HTMLElement).closest('[data-action]') as HTMLElement | null;
+      const id = target?.closest('.conflict-item')?.getAttribute('data-id');
+      if (!target || !id) return;
+      vscode.postMessage({ type: 'historyAction', id, action: target.getAttribute('data-action') });
+    });
+
+    document.getElementById('btn-load-history')?.addEventListener('click', () => {
+      vscode.postMessage({ type: 'getHistory' });
+    });
+
+    // Auto Retry - export audit log
+    document.getElementById('btn-export-audit')?.addEventListener('click', () => {
+      vscode.postMessage({ type: 'exportAuditLog' });
+    });
+
     // Request initial auto-retry status and auto-start setting
     vscode.postMessage({ type: 'getAutoRetryStatus' });
   }
@@ -321,6 +435,10 @@ export function showConfigured(configured: boolean, repoUrl?: string, syncFolder
     dashboardSection.style.display = configured ? 'block' : 'none';
   }
 
+  if (configured) {
+    vscode.postMessage({ type: 'getHistory' });
+  }
+
   if (repoDisplay && repoUrl) {
     // Show full URL
     repoDisplay.textContent = repoUrl;
@@ -410,6 +528,11 @@ export function setConnectLoading(loading: boolean): void {
   }
 }
 
+// Same check as GitService.isSshUrl
+function isSshUrl(url: string): boolean {
+  return /^ssh:\/\//.test(url) || /^[\w.-]+@[^:/]+:/.test(url);
+}
+
 function formatRelativeTime(dateString: string): string {
   const date = new Date(dateString);
   const now = new Date();
@@ -503,6 +626,258 @@ export function updateGitStatus(data: {
   }
 }
 
+export interface ConflictItem {
+  id: string;
+  file: string;
+  resolvedAt: string;
+  rule: string;
+  chosen: string;
+  flipped: boolean;
+  localSize: number;
+  remoteSize: number;
+  localMtime: string;
+  remoteMtime: string;
+  hasConflictFile: boolean;
+}
+
+const CONFLICT_RULE_LABELS: Record<string, string> = {
+  'larger': 'larger file',
+  'newer': 'newer file',
+  'three-way-merge': 'merged',
+  'three-way-overlap': 'merged, overlapping edits',
+  'more-messages': 'more messages',
+  'later-message': 'later message',
+  'conversation-union': 'merged histories'
+};
+
+function formatSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+function createConflictButton(action: string, icon: string, title: string): HTMLElement {
+  const btn = document.createElement('vscode-button');
+  btn.setAttribute('appearance', 'icon');
+  btn.setAttribute('data-action', action);
+  btn.title = title;
+  btn.innerHTML = `<span class="codicon codicon-${icon}"></span>`;
+  return btn;
+}
+
+export function updateConflicts(conflicts: ConflictItem[]): void {
+  const section = document.getElementById('conflicts-section');
+  const countEl = document.getElementById('conflict-count');
+  const listEl = document.getElementById('conflict-list');
+
+  if (section) {
+    section.style.display = conflicts.length > 0 ? 'block' : 'none';
+  }
+  if (countEl) {
+    countEl.textContent = String(conflicts.length);
+  }
+  if (!listEl) return;
+
+  listEl.innerHTML = '';
+  for (const conflict of conflicts) {
+    const item = document.createElement('div');
+    item.className = 'conflict-item';
+    item.setAttribute('data-id', conflict.id);
+
+    const info = document.createElement('div');
+    info.className = 'conflict-info';
+
+    const name = document.createElement('span');
+    name.className = 'conflict-file';
+    name.textContent = conflict.file;
+    name.title = `${conflict.file} (${formatRelativeTime(conflict.resolvedAt)})`;
+    info.appendChild(name);
+
+    const detail = document.createElement('span');
+    detail.className = 'conflict-detail';
+    const rule = CONFLICT_RULE_LABELS[conflict.rule] || conflict.rule;
+    detail.textContent = `${conflict.chosen.toUpperCase()} (${rule}${conflict.flipped ? ', flipped' : ''}) · ` +
+      `local ${formatSize(conflict.localSize)} / remote ${formatSize(conflict.remoteSize)}`;
+    detail.title = `Local modified ${formatRelativeTime(conflict.localMtime)}, remote ${formatRelativeTime(conflict.remoteMtime)}`;
+    info.appendChild(detail);
+
+    item.appendChild(info);
+    item.appendChild(createConflictButton('diff', 'diff', 'Compare local and remote'));
+    if (conflict.hasConflictFile) {
+      item.appendChild(createConflictButton('open', 'go-to-file', 'Open conflict markers'));
+    }
+    item.appendChild(createConflictButton('flip', 'arrow-swap', 'Flip decision (use the other version)'));
+    item.appendChild(createConflictButton('restore', 'history', 'Restore losing version as a copy'));
+    item.appendChild(createConflictButton('dismiss', 'check', 'Mark as reviewed'));
+
+    listEl.appendChild(item);
+  }
+}
+
+export interface SecretFindingItem {
+  file: string;
+  rule: string;
+  line: number;
+  preview: string;
+}
+
+const SECRET_ACTION_HINTS: Record<string, string> = {
+  block: 'Push is blocked until these secrets are removed or allowed.',
+  redact: 'Secrets are masked in the synced copy. Your local files are unchanged.',
+  quarantine: 'These files are held back from sync until they are clean or allowed.'
+};
+
+export function updateSecretFindings(action: string, findings: SecretFindingItem[]): void {
+  const section = document.getElementById('secrets-section');
+  const countEl = document.getElementById('secret-count');
+  const hintEl = document.getElementById('secret-hint');
+  const listEl = document.getElementById('secret-list');
+
+  if (section) {
+    section.style.display = findings.length > 0 ? 'block' : 'none';
+  }
+  if (countEl) {
+    countEl.textContent = String(findings.length);
+  }
+  if (hintEl) {
+    hintEl.textContent = SECRET_ACTION_HINTS[action] || '';
+  }
+  if (!listEl) return;
+
+  // One row per file
+  const byFile = new Map<string, SecretFindingItem[]>();
+  for (const finding of findings) {
+    byFile.set(finding.file, [...(byFile.get(finding.file) || []), finding]);
+  }
+
+  listEl.innerHTML = '';
+  for (const [file, fileFindings] of byFile) {
+    const item = document.createElement('div');
+    item.className = 'conflict-item';
+    item.setAttribute('data-file', file);
+
+    const info = document.createElement('div');
+    info.className = 'conflict-info';
+
+    const name = document.createElement('span');
+    name.className = 'conflict-file';
+    name.textContent = file;
+    name.title = file;
+    info.appendChild(name);
+
+    const detail = document.createElement('span');
+    detail.className = 'conflict-detail';
+    detail.textContent = fileFindings.map(f => `${f.rule} (line ${f.line})`).join(', ');
+    detail.title = fileFindings.map(f => `${f.rule}, line ${f.line}: ${f.preview}`).join('\n');
+    info.appendChild(detail);
+
+    item.appendChild(info);
+    item.appendChild(createConflictButton('open', 'go-to-file', 'Open file'));
+    item.appendChild(createConflictButton('allow', 'check', 'Allow (false positive)'));
+    listEl.appendChild(item);
+  }
+}
+
+export interface HistoryItem {
+  id: string;
+  date: string;
+  message: string;
+  machine: string;
+  files: number;
+  conversations: number;
+  restorable: boolean;
+}
+
+export function updateHistory(snapshots: HistoryItem[]): void {
+  const listEl = document.getElementById('history-list');
+  if (!listEl) return;
+
+  listEl.innerHTML = '';
+  if (snapshots.length === 0) {
+    listEl.innerHTML = '<div class="log-empty">No syncs yet</div>';
+    return;
+  }
+
+  for (const snapshot of snapshots) {
+    const item = document.createElement('div');
+    item.className = 'conflict-item';
+    item.setAttribute('data-id', snapshot.id);
+
+    const info = document.createElement('div');
+    info.className = 'conflict-info';
+
+    const name = document.createElement('span');
+    name.className = 'conflict-file';
+    name.textContent = `${snapshot.machine || 'unknown'} · ${formatRelativeTime(snapshot.date)}`;
+    name.title = `${snapshot.message}\n${snapshot.id.substring(0, 7)} · ${new Date(snapshot.date).toLocaleString()}`;
+    info.appendChild(name);
+
+    const detail = document.createElement('span');
+    detail.className = 'conflict-detail';
+    detail.textContent = `${snapshot.conversations} conversation${snapshot.conversations === 1 ? '' : 's'} · ` +
+      `${snapshot.files} file${snapshot.files === 1 ? '' : 's'}`;
+    detail.title = snapshot.message;
+    info.appendChild(detail);
+
+    item.appendChild(info);
+    if (snapshot.restorable) {
+      item.appendChild(createConflictButton('browse', 'folder', 'Browse files at this point'));
+      item.appendChild(createConflictButton('restore', 'history', 'Restore to this point'));
+    }
+    listEl.appendChild(item);
+  }
+}
+
+export interface AuditEventItem {
+  timestamp: string;
+  type: 'click' | 'block';
+  pageId: string;
+  pageTitle?: string;
+  button: string;
+  context: string;
+  conversation?: string;
+  errorText?: string;
+  command?: string;
+  pattern?: string;
+}
+
+export function updateAuditLog(events: AuditEventItem[]): void {
+  const section = document.getElementById('audit-section');
+  const listEl = document.getElementById('audit-list');
+
+  if (section) {
+    section.style.display = events.length > 0 ? 'block' : 'none';
+  }
+  if (!listEl) return;
+
+  listEl.innerHTML = '';
+  for (const event of events) {
+    const item = document.createElement('div');
+    item.className = 'conflict-item';
+
+    const info = document.createElement('div');
+    info.className = 'conflict-info';
+
+    const name = document.createElement('span');
+    name.className = `conflict-file audit-${event.type}`;
+    name.textContent = `${event.type === 'block' ? 'Blocked' : 'Clicked'} "${event.button}" · ${formatRelativeTime(event.timestamp)}`;
+    name.title = `${event.timestamp}\n${event.pageTitle || event.pageId}${event.conversation ? ` · ${event.conversation}` : ''}`;
+    info.appendChild(name);
+
+    const snapshot = event.command || event.errorText;
+    if (snapshot) {
+      const detail = document.createElement('span');
+      detail.className = 'conflict-detail';
+      detail.textContent = event.pattern ? `${snapshot} (matches ${event.pattern})` : snapshot;
+      detail.title = snapshot;
+      info.appendChild(detail);
+    }
+
+    item.appendChild(info);
+    listEl.appendChild(item);
+  }
+}
+
 export function setRefreshLoading(loading: boolean): void {
   const refreshIcon = document.getElementById('refresh-icon');
   if (refreshIcon) {
@@ -527,8 +902,26 @@ export function updateCountdown(seconds: number): void {
   }
 }
 
-export function updateAutoRetryStatus(running: boolean, retryCount: number, connectionCount?: number): void {
+export interface AutoRetryWindowItem {
+  title: string;
+  retryCount: number;
+}
+
+export interface AutoRetryErrorItem {
+  label: string;
+  count: number;
+}
+
+export function updateAutoRetryStatus(
+  running: boolean,
+  retryCount: number,
+  connectionCount?: number,
+  exhausted: string[] = [],
+  windows: AutoRetryWindowItem[] = [],
+  errors: AutoRetryErrorItem[] = []
+): void {
   const statusBadge = document.getElementById('auto-retry-status');
+  const countEl = document.getElementById('auto-retry-count');
   const toggleBtn = document.getElementById('btn-toggle-auto-retry');
   const toggleIcon = document.getElementById('btn-toggle-icon');
   const toggleText = document.getElementById('btn-toggle-text');
@@ -556,6 +949,33 @@ export function updateAutoRetryStatus(running: boolean, retryCount: number, conn
       toggleText.textContent = 'Start';
     }
   }
+
+  // Retry count and conversations that ran out of retries
+  if (countEl) {
+    countEl.style.display = retryCount > 0 || exhausted.length > 0 || errors.length > 0 ? 'block' : 'none';
+    countEl.textContent = exhausted.length > 0
+      ? `Retries: ${retryCount} · retry budget exhausted for ${exhausted.length} conversation(s): ${exhausted.join(', ')}`
+      : `Retries: ${retryCount}`;
+    countEl.title = exhausted.length > 0 ? 'Fix the failing request, or Stop and Start Auto Retry to reset the budget' : '';
+
+    // Breakdown per IDE window when there are several
+    if (windows.length > 1) {
+      for (const item of windows) {
+        const line = document.createElement('div');
+        line.className = 'auto-retry-window';
+        line.textContent = `${item.title}: ${item.retryCount}`;
+        countEl.appendChild(line);
+      }
+    }
+
+    // Errors seen, by kind
+    if (errors.length > 0) {
+      const line = document.createElement('div');
+      line.className = 'auto-retry-errors';
+      line.textContent = `Errors: ${errors.map(e => `${e.label} ${e.count}`).join(' · ')}`;
+      countEl.appendChild(line);
+    }
+  }
 }
 
 export function updateAutoStartCheckbox(enabled: boolean): void {